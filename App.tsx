@@ -1,79 +1,77 @@
-import React, { useState, useEffect } from 'react';
-import { Text } from 'react-native';
-import { SafeAreaProvider } from 'react-native-safe-area-context';
+import React, { useState, useEffect, useRef } from 'react';
+import { Alert, Linking, Modal, StyleSheet, Text } from 'react-native';
+import { SafeAreaProvider, SafeAreaView } from 'react-native-safe-area-context';
 import { SwipeContainer } from './src/components/SwipeContainer';
 import Header from './src/components/Header';
+import ActiveFilterBar from './src/components/ActiveFilterBar';
 import FilterMenu from './src/components/FilterMenu';
+import SearchScreen from './src/components/SearchScreen';
+import SettingsScreen from './src/components/SettingsScreen';
+import WineDetailScreen from './src/components/WineDetailScreen';
+import { MatchesScreen } from './src/components/MatchesScreen';
 import { AuthScreen } from './src/components/AuthScreen';
 import { Wine, WineFilter } from './src/types';
 import { userPreferenceService } from './src/services/userPreferenceService';
 import { useSupabaseAuth } from './src/hooks/useSupabaseAuth';
-import { createDefaultFilter, convertToDBFilter } from './src/utils/filterUtils';
+import { useWineDeck } from './src/hooks/useWineDeck';
+import { useFilterSummary } from './src/hooks/useFilterSummary';
+import { useLanguage } from './src/hooks/useLanguage';
+import { createDefaultFilter, isSameFilter, localizeFilter } from './src/utils/filterUtils';
 import { referenceDataService } from './src/services/referenceDataService';
+import { currencyService } from './src/services/currencyService';
+import { languageService } from './src/services/languageService';
+import { filterPresetService } from './src/services/filterPresetService';
+import { fetchWineByReferenceId } from './src/services/wineQueries';
+import { parseDeepLink } from './src/utils/deepLinks';
+import { i18n } from './src/utils/i18n';
 
-// Sample initial filter - in production this would come from user preferences
+// Empty until the default preset of the user (or guest) has been read
 const initialFilter: WineFilter = createDefaultFilter();
 
+// Presets and links name wine types and colors in the language they were saved or
+// shared in - translated once the reference data knows the names
+const inAppLanguage = async (filter: WineFilter): Promise<WineFilter> => {
+  await referenceDataService.initialize().catch(() => undefined);
+  return localizeFilter(filter, languageService.getLanguage());
+};
+
 function App(): React.JSX.Element {
-  const [wines, setWines] = useState<Wine[]>([]);
-  const [loading, setLoading] = useState(true);
   const [currentFilter, setCurrentFilter] = useState<WineFilter>(initialFilter);
   const [isFilterVisible, setIsFilterVisible] = useState(false);
+  const [isSearchVisible, setIsSearchVisible] = useState(false);
+  const [isSettingsVisible, setIsSettingsVisible] = useState(false);
   const [showAuthScreen, setShowAuthScreen] = useState(false);
+  const [linkedWine, setLinkedWine] = useState<Wine | null>(null);
+  const [isMatchesVisible, setIsMatchesVisible] = useState(false);
+  // A filter from a link was chosen explicitly - the default preset must not replace it
+  const filterFromLink = useRef(false);
   const { user, loading: authLoading, signOut } = useSupabaseAuth();
+  // UI text is looked up while rendering - the whole app renders again in a new language
+  useLanguage();
 
-  // Fetch wines with filters applied - works with or without user login
-  const fetchWinesWithFilters = async (filter: WineFilter) => {
-    try {
-      setLoading(true);
-      console.log('Fetching wines with filter:', filter);
-      
-      // Convert frontend filter to database filter
-      const dbFilter = await convertToDBFilter(filter);
-      
-      // If user is logged in, get unrated wines for them
-      if (user?.id) {
-        const unratedWines = await userPreferenceService.getUnratedWinesWithFilters(user.id, dbFilter, 100);
-        console.log('Fetched filtered wines for user:', unratedWines.length);
-        setWines(unratedWines);
-      } else {
-        // Guest mode: load all wines with filters applied
-        const { fetchWines } = await import('./src/services/wineQueries');
-        const allWines = await fetchWines(dbFilter);
-        console.log('Fetched filtered wines for guest:', allWines.length);
-        setWines(allWines);
-      }
-    } catch (error) {
-      console.error('Error fetching filtered wines:', error);
-      // No sample wines available, just set empty
-      setWines([]);
-    } finally {
-      setLoading(false);
-    }
-  };
+  // Paginated wine deck - reloads whenever the filter or the user changes
+  // Works with or without user login
+  const {
+    wines,
+    loading,
+    loadingMore,
+    hasMore,
+    loadMore,
+    generation,
+  } = useWineDeck(currentFilter, user?.id);
+
+  // Keep the current filter object when the content is the same - a new object reloads the deck
+  const applyFilter = (newFilter: WineFilter) =>
+    setCurrentFilter(filter => (isSameFilter(filter, newFilter) ? filter : newFilter));
 
   // Handle filter changes
-  const handleFilterChange = async (newFilter: WineFilter) => {
-    setCurrentFilter(newFilter);
-    await fetchWinesWithFilters(newFilter);
+  const handleFilterChange = (newFilter: WineFilter) => {
+    console.log('Filter changed:', newFilter);
+    applyFilter(newFilter);
   };
 
-  // Count active filters for badge
-  const getActiveFilterCount = () => {
-    let count = 0;
-    if (currentFilter.wineTypes.length > 0) count++;
-    if (currentFilter.regions.length > 0) count++;
-    if (currentFilter.grapeVarieties.length > 0) count++;
-    if (currentFilter.grape?.length > 0) count++;
-    if (currentFilter.country?.length > 0) count++;
-    if (currentFilter.region?.length > 0) count++;
-    if (currentFilter.producer?.length > 0) count++;
-    if (currentFilter.wineType?.length > 0) count++;
-    if (currentFilter.color?.length > 0) count++;
-    if (currentFilter.productionType?.length > 0) count++;
-    if (currentFilter.minPrice > 0 || currentFilter.maxPrice < 1000) count++;
-    return count;
-  };
+  // Chips of the active filter - the header badge counts them
+  const filterChips = useFilterSummary(currentFilter);
 
   // Initialize reference data service on app start
   useEffect(() => {
@@ -86,30 +84,71 @@ function App(): React.JSX.Element {
     };
 
     initializeReferenceData();
+    // Stored display currency and current exchange rates - errors are logged by the service
+    currencyService.initialize();
+    languageService.initialize();
   }, []);
 
-  // Fetch wines from Supabase - works for both logged-in users and guests
+  // The language a signed-in user picked replaces the one of the device
   useEffect(() => {
-    const fetchWines = async () => {
-      try {
-        // Load wines with current filter (works for both logged-in and guest users)
-        if (user?.id) {
-          console.log('Fetching wines for user:', user.id, 'Email:', user.email);
-        } else {
-          console.log('Fetching wines for guest user');
+    if (authLoading) return;
+    languageService.setUser(user?.id);
+  }, [authLoading, user?.id]);
+
+  // Selected wine types and colors are named in the app language
+  useEffect(
+    () => languageService.subscribe(language => setCurrentFilter(filter => localizeFilter(filter, language))),
+    []
+  );
+
+  // Start with the default preset - again after signing in or out, presets belong to the user
+  useEffect(() => {
+    if (authLoading) return;
+
+    let active = true;
+    filterPresetService.getDefaultFilter(user?.id).then(async defaultFilter => {
+      const localized = defaultFilter && (await inAppLanguage(defaultFilter));
+      if (active && localized && !filterFromLink.current) applyFilter(localized);
+    });
+    return () => {
+      active = false;
+    };
+  }, [authLoading, user?.id]);
+
+  // com.winderapp:// links - the one that opened the app and those arriving while it runs
+  useEffect(() => {
+    const handleUrl = async (url: string | null) => {
+      const link = url ? parseDeepLink(url) : null;
+      if (!link) return;
+
+      switch (link.route) {
+        case 'deck':
+          filterFromLink.current = true;
+          setIsFilterVisible(false);
+          applyFilter(await inAppLanguage(link.filter));
+          break;
+        case 'wine': {
+          const wine = await fetchWineByReferenceId(link.wineId).catch(error => {
+            console.error('Error loading linked wine:', error);
+            return null;
+          });
+          if (wine) {
+            setLinkedWine(wine);
+          } else {
+            Alert.alert(i18n.t('ui.linkedWineNotFound'));
+          }
+          break;
         }
-        await fetchWinesWithFilters(currentFilter);
-      } catch (error) {
-        console.error('Error fetching wines:', error);
-        console.log('Using sample wine data as fallback');
-      } finally {
-        setLoading(false);
+        case 'matches':
+          setIsMatchesVisible(true);
+          break;
       }
     };
 
-    // Always fetch wines, regardless of authentication status
-    fetchWines();
-  }, [user]);
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => handleUrl(url));
+    return () => subscription.remove();
+  }, []);
 
   const handleMatch = async (wine: Wine) => {
     console.log('Wine liked:', wine.name);
@@ -130,7 +169,7 @@ function App(): React.JSX.Element {
       console.log('Saving wine preference for user:', user.id, 'wine:', wine.id);
       
       // Speichere das Like in der Datenbank
-      await userPreferenceService.likeWine(user.id, wine.id);
+      await userPreferenceService.likeWine(user.id, wine);
       console.log('Wine preference saved to database successfully');
       
     } catch (error) {
@@ -147,12 +186,42 @@ function App(): React.JSX.Element {
     }
   };
 
-  // Show loading screen while auth is initializing or wines are loading
-  if (authLoading || loading) {
+  // Add a wine from the search results to the user's matches
+  // Guests are asked to log in first because matches are stored per user
+  const handleAddToMatches = async (wine: Wine) => {
+    if (!user?.id) {
+      Alert.alert(
+        i18n.t('matches.signInRequired'),
+        i18n.t('matches.signInToAdd'),
+        [
+          { text: i18n.t('ui.cancel'), style: 'cancel' },
+          {
+            text: i18n.t('auth.signIn'),
+            onPress: () => {
+              setIsSearchVisible(false);
+              setShowAuthScreen(true);
+            },
+          },
+        ]
+      );
+      return;
+    }
+
+    try {
+      await userPreferenceService.likeWine(user.id, wine);
+      Alert.alert(i18n.t('matches.addedTitle'), i18n.t('matches.added', { name: wine.name }));
+    } catch (error) {
+      console.error('Error adding wine to matches:', error);
+      Alert.alert(i18n.t('common.error'), i18n.t('matches.addFailed'));
+    }
+  };
+
+  // Show loading screen while auth is initializing - the deck shows its own loading state
+  if (authLoading) {
     return (
       <SafeAreaProvider>
         <Text style={{ fontSize: 18, textAlign: 'center', marginTop: 50 }}>
-          {authLoading ? 'Checking authentication...' : 'Loading wines...'}
+          {i18n.t('auth.checking')}
         </Text>
       </SafeAreaProvider>
     );
@@ -178,6 +247,8 @@ function App(): React.JSX.Element {
     <SafeAreaProvider>
       <Header 
         onOpenFilter={() => setIsFilterVisible(true)}
+        onOpenSearch={() => setIsSearchVisible(true)}
+        onOpenSettings={() => setIsSettingsVisible(true)}
         onLogout={async () => {
           try {
             if (user) {
@@ -191,15 +262,23 @@ function App(): React.JSX.Element {
           console.log('Login requested - showing AuthScreen');
           setShowAuthScreen(true);
         }}
-        filterCount={getActiveFilterCount()}
+        filterCount={filterChips.length}
         isAuthenticated={!!user}
       />
+
+      <ActiveFilterBar
+        chips={filterChips}
+        onRemove={chip => handleFilterChange(chip.remove(currentFilter))}
+      />
       
       <SwipeContainer
         wines={wines}
-        filter={currentFilter}
+        generation={generation}
         onMatch={handleMatch}
         loading={loading}
+        loadingMore={loadingMore}
+        hasMore={hasMore}
+        onLoadMore={loadMore}
       />
 
       <FilterMenu
@@ -207,9 +286,56 @@ function App(): React.JSX.Element {
         onClose={() => setIsFilterVisible(false)}
         currentFilter={currentFilter}
         onFilterChange={handleFilterChange}
+        userId={user?.id}
+      />
+
+      <SearchScreen
+        isVisible={isSearchVisible}
+        onClose={() => setIsSearchVisible(false)}
+        onAddToMatches={handleAddToMatches}
       />
+
+      <SettingsScreen
+        isVisible={isSettingsVisible}
+        onClose={() => setIsSettingsVisible(false)}
+      />
+
+      {/* Opened from a wine link */}
+      <Modal
+        visible={linkedWine !== null}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setLinkedWine(null)}
+      >
+        <SafeAreaView style={styles.linkedWine}>
+          {linkedWine && (
+            <WineDetailScreen
+              wine={linkedWine}
+              onBack={() => setLinkedWine(null)}
+              onAddToMatches={handleAddToMatches}
+            />
+          )}
+        </SafeAreaView>
+      </Modal>
+
+      {/* Opened from a matches link */}
+      <Modal
+        visible={isMatchesVisible}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setIsMatchesVisible(false)}
+      >
+        <MatchesScreen onClose={() => setIsMatchesVisible(false)} />
+      </Modal>
     </SafeAreaProvider>
   );
 }
 
+const styles = StyleSheet.create({
+  linkedWine: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+});
+
 export default App;
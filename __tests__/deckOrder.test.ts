@@ -0,0 +1,118 @@
+/**
+ * Keyset pagination of every deck order - each page continues exactly after the
+ * previous one, through ties and wines without a sort value, in the database
+ * (applyDeckOrder on the in-memory database stand-in) and on the device (pageOfWineRows)
+ */
+
+import type { DeckOrder, WinePage } from '../src/types';
+import type { WinesWithCoreDetailsRow } from '../src/types/database';
+import { DECK_ORDERS, deckSortFor, encodeDeckCursor } from '../src/services/deckOrder';
+import { pageOfWineRows } from '../src/services/inMemoryRepository';
+import { userPreferenceService } from '../src/services/userPreferenceService';
+import { fetchWines } from '../src/services/wineQueries';
+import { wineCatalogueTables } from './support/wineCatalogueSeed';
+
+jest.mock('../src/lib/supabase', () => {
+  const { createInMemorySupabase } = require('./support/inMemorySupabase');
+  const seed = require('./support/wineCatalogueSeed');
+  return {
+    supabase: createInMemorySupabase({
+      tables: seed.wineCatalogueTables,
+      functions: seed.catalogueFunctions,
+    }),
+  };
+});
+
+const SEED = 'seed-1';
+const USER_ID = 'user-1';
+
+// Ties are broken by the wine UUID, wines without a value come last in both directions
+const EXPECTED_ORDER: Record<Exclude<DeckOrder, 'random'>, string[]> = {
+  'price-asc': ['W-001', 'W-003', 'W-004', 'W-002', 'W-005'],
+  'price-desc': ['W-004', 'W-001', 'W-003', 'W-002', 'W-005'],
+  'vintage-desc': ['W-005', 'W-001', 'W-003', 'W-004', 'W-002'],
+  newest: ['W-004', 'W-002', 'W-005', 'W-001', 'W-003'],
+  popular: ['W-002', 'W-001', 'W-003', 'W-004', 'W-005'],
+};
+
+const ALL_WINES = ['W-001', 'W-002', 'W-003', 'W-004', 'W-005'];
+
+const referenceIds = (wines: Array<{ id: string }>) => wines.map(wine => wine.id);
+
+// Follow nextCursor until the last page, at most a page per wine
+const pageThrough = async (loadPage: (cursor: string | null) => Promise<WinePage>): Promise<string[]> => {
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  for (let page = 0; page <= ALL_WINES.length; page++) {
+    const { wines, nextCursor }: WinePage = await loadPage(cursor);
+    ids.push(...referenceIds(wines));
+    if (!nextCursor) return ids;
+    cursor = nextCursor;
+  }
+  throw new Error('The cursor never reached the last page');
+};
+
+const pageThroughOnDevice = (order: DeckOrder, pageSize: number): string[] => {
+  const rows = wineCatalogueTables.wines_with_core_details as WinesWithCoreDetailsRow[];
+  const sort = deckSortFor(order, SEED);
+  const ids: string[] = [];
+  let cursor: string | null = null;
+  for (;;) {
+    const page = pageOfWineRows(rows, { cursor, limit: pageSize, order, seed: SEED });
+    ids.push(...page.map(row => row.reference_id!));
+    if (page.length < pageSize) return ids;
+    cursor = encodeDeckCursor(page[page.length - 1], sort);
+  }
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  wineCatalogueTables.user_wine_matches.length = 0;
+});
+
+describe.each(DECK_ORDERS)('%s', order => {
+  test('pages through the database without gaps or repeats', async () => {
+    const unpaged = await fetchWines(undefined, { order, seed: SEED, pageSize: 10 });
+    const paged = await pageThrough(cursor => fetchWines(undefined, { order, seed: SEED, pageSize: 2, cursor }));
+
+    expect(paged).toEqual(referenceIds(unpaged.wines));
+    expect([...paged].sort()).toEqual(ALL_WINES);
+    if (order !== 'random') {
+      expect(paged).toEqual(EXPECTED_ORDER[order]);
+    }
+  });
+
+  test('pages through the device catalogue in the same order', () => {
+    const paged = pageThroughOnDevice(order, 2);
+
+    expect([...paged].sort()).toEqual(ALL_WINES);
+    if (order !== 'random') {
+      expect(paged).toEqual(EXPECTED_ORDER[order]);
+    } else {
+      // One page with everything - the shuffle differs from the database, not the paging
+      expect(paged).toEqual(pageThroughOnDevice(order, ALL_WINES.length + 1));
+    }
+  });
+});
+
+test('a cursor after a wine without a price continues with the other wines without one', async () => {
+  const firstPage = await fetchWines(undefined, { order: 'price-asc', pageSize: 4 });
+  const lastPage = await fetchWines(undefined, { order: 'price-asc', pageSize: 4, cursor: firstPage.nextCursor });
+
+  expect(JSON.parse(firstPage.nextCursor!)).toEqual([null, '00000000-0000-0000-0000-000000000002']);
+  expect(referenceIds(lastPage.wines)).toEqual(['W-005']);
+});
+
+test('unrated wines keep the order and the cursor', async () => {
+  const liked = (await fetchWines()).wines.find(wine => wine.id === 'W-001')!;
+  await userPreferenceService.likeWine(USER_ID, liked);
+
+  const paged = await pageThrough(cursor =>
+    userPreferenceService.getUnratedWinesWithFilters(USER_ID, undefined, { order: 'popular', pageSize: 2, cursor })
+  );
+
+  expect(paged).toEqual(['W-002', 'W-003', 'W-004', 'W-005']);
+});
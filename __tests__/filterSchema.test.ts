@@ -0,0 +1,66 @@
+/**
+ * Migration of stored and deep-linked filters to the current WineFilter
+ */
+
+import { migrateFilter, WINE_FILTER_VERSION } from '../src/utils/filterSchema';
+import { createDefaultFilter } from '../src/utils/filterUtils';
+import { buildDeepLink, parseDeepLink } from '../src/utils/deepLinks';
+import { storedFilterFixtures } from './support/storedFilterFixtures';
+
+test.each(storedFilterFixtures)('$description', ({ stored, version, expected }) => {
+  const migrated = migrateFilter(stored, version);
+
+  if (expected === null) {
+    expect(migrated).toBeNull();
+  } else {
+    expect(migrated).toEqual({ ...createDefaultFilter(), ...expected });
+  }
+});
+
+test('migrated filters are current and stay the same when migrated again', () => {
+  storedFilterFixtures.forEach(({ stored, version }) => {
+    const migrated = migrateFilter(stored, version);
+    if (migrated) {
+      expect(migrateFilter(migrated, WINE_FILTER_VERSION)).toEqual(migrated);
+      expect(Object.keys(migrated).sort()).toEqual(Object.keys(createDefaultFilter()).sort());
+    }
+  });
+});
+
+test('deck links of the first version are upgraded like stored filters', () => {
+  const link = parseDeepLink('com.winderapp://deck?v=1&g=Nebbiolo&xcol=White&pr=10-30&o=price-asc');
+
+  expect(link).toEqual({
+    route: 'deck',
+    filter: {
+      ...createDefaultFilter(),
+      grape: ['Nebbiolo'],
+      excluded: { color: ['White'] },
+      priceRange: [10, 30],
+      order: 'price-asc',
+    },
+  });
+});
+
+test('migrated filters round-trip through deck links', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+  storedFilterFixtures.forEach(({ stored, version }) => {
+    const filter = migrateFilter(stored, version);
+    if (filter) {
+      expect(parseDeepLink(buildDeepLink({ route: 'deck', filter }))).toEqual({ route: 'deck', filter });
+    }
+  });
+  expect(parseDeepLink(`com.winderapp://deck?v=${WINE_FILTER_VERSION + 1}&g=Nebbiolo`)).toBeNull();
+});
+
+test('deck links accept the grape shares stored filters accept', () => {
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+  const filter = { ...createDefaultFilter(), grape: ['Nebbiolo'], grapeMinShare: 12.5 };
+
+  expect(parseDeepLink(buildDeepLink({ route: 'deck', filter }))).toEqual({ route: 'deck', filter });
+  ['0', '100.5', 'half'].forEach(share => {
+    expect(parseDeepLink(`com.winderapp://deck?v=${WINE_FILTER_VERSION}&gs=${share}`)).toBeNull();
+    expect(migrateFilter({ grapeMinShare: Number(share) }, WINE_FILTER_VERSION)?.grapeMinShare).toBeNull();
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * Chips of the active filter bar - regions summarized along the region tree,
+ * chips for values the tree doesn't know, removing each chip and the header
+ * badge that counts them
+ */
+
+import type { WineFilter } from '../src/types';
+import type { RegionNode } from '../src/services/filterOptionsService';
+import { FilterChip, summarizeFilter } from '../src/utils/filterSummary';
+import { toggleRegionExclusion, toggleRegionNode } from '../src/utils/regionTree';
+import { createDefaultFilter } from '../src/utils/filterUtils';
+
+const region = (value: string, countryCode: string, children: RegionNode[] = []): RegionNode =>
+  ({ kind: 'region', value, label: value, countryCode, children });
+
+const salgesch = region('Salgesch', 'CH');
+const fully = region('Fully', 'CH');
+const wallis = region('Wallis', 'CH', [salgesch, fully]);
+const lavaux = region('Lavaux', 'CH');
+const waadt = region('Waadt', 'CH', [lavaux]);
+const genf = region('Genf', 'CH');
+const switzerland: RegionNode = {
+  kind: 'country', value: 'CH', label: 'Schweiz', countryCode: 'CH', children: [wallis, waadt, genf],
+};
+const regionTree = [switzerland];
+
+const keys = (chips: FilterChip[]) => chips.map(chip => chip.key);
+
+const withSelection = (selection: Partial<WineFilter>): WineFilter => ({ ...createDefaultFilter(), ...selection });
+
+// One constraint of every kind
+const fullFilter: WineFilter = toggleRegionExclusion(
+  toggleRegionNode(
+    withSelection({
+      country: ['FR'],
+      grape: ['Nebbiolo', 'Barbera', 'Dolcetto'],
+      grapeMatch: 'all',
+      grapeMinShare: 50,
+      singleVarietal: true,
+      producer: ['producer-1'],
+      body: ['full'],
+      excluded: { color: ['Rosé'] },
+      vintageRange: [2015, 2020],
+      includeNonVintage: false,
+      priceRange: [20, 50],
+      order: 'price-asc',
+    }),
+    wallis,
+    regionTree
+  ),
+  genf,
+  regionTree
+);
+
+const labels = { regionTree, producerNames: { 'producer-1': 'Gaja' }, currency: 'CHF' as const };
+
+describe('regions', () => {
+  test('a selected region is one chip, not one per sub-region', () => {
+    const filter = toggleRegionNode(createDefaultFilter(), wallis, regionTree);
+
+    expect(filter.region).toHaveLength(3);
+    expect(summarizeFilter(filter, { regionTree })).toMatchObject([
+      { key: 'region:Wallis', label: 'Wallis', excluded: false },
+    ]);
+  });
+
+  test('a completely selected country is one chip, a partial one shows its checked regions', () => {
+    const country = withSelection({ country: ['CH'] });
+    const partial = withSelection({ region: ['Salgesch', 'Waadt', 'Lavaux'] });
+
+    expect(summarizeFilter(country, { regionTree })).toMatchObject([{ key: 'country:CH', label: 'Schweiz' }]);
+    expect(keys(summarizeFilter(partial, { regionTree }))).toEqual(['region:Salgesch', 'region:Waadt']);
+  });
+
+  test('an excluded region is one chip with its sub-regions', () => {
+    const filter = toggleRegionExclusion(createDefaultFilter(), wallis, regionTree);
+
+    expect(summarizeFilter(filter, { regionTree })).toMatchObject([
+      { key: 'excluded:region:Wallis', label: 'Wallis', excluded: true },
+    ]);
+  });
+});
+
+describe('values the tree does not know', () => {
+  test('get a chip of their own with the raw value', () => {
+    const filter = withSelection({
+      country: ['FR'],
+      region: ['Salgesch', 'Atlantis'],
+      excluded: { region: ['Nowhere'] },
+    });
+
+    expect(summarizeFilter(filter, { regionTree })).toMatchObject([
+      { key: 'region:Salgesch', label: 'Salgesch', excluded: false },
+      { key: 'country:FR', label: 'FR', excluded: false },
+      { key: 'region:Atlantis', label: 'Atlantis', excluded: false },
+      { key: 'excluded:region:Nowhere', label: 'Nowhere', excluded: true },
+    ]);
+  });
+
+  test('before the tree has loaded every stored value is a chip', () => {
+    const filter = toggleRegionNode(createDefaultFilter(), wallis, regionTree);
+
+    expect(keys(summarizeFilter(filter)).sort()).toEqual(['region:Fully', 'region:Salgesch', 'region:Wallis']);
+  });
+
+  test('producers show their name once it is known', () => {
+    const filter = withSelection({ producer: ['producer-1'] });
+
+    expect(summarizeFilter(filter)[0].label).toBe('…');
+    expect(summarizeFilter(filter, labels)[0].label).toBe('Gaja');
+  });
+});
+
+describe.each(summarizeFilter(fullFilter, labels).map(chip => [chip.key, chip] as const))(
+  'removing %s',
+  (key, chip) => {
+    test('removes only that chip', () => {
+      const remaining = summarizeFilter(chip.remove(fullFilter), labels);
+
+      expect(keys(remaining)).toEqual(keys(summarizeFilter(fullFilter, labels)).filter(other => other !== key));
+    });
+  }
+);
+
+describe('header badge', () => {
+  test('counts one per constraint', () => {
+    expect(keys(summarizeFilter(fullFilter, labels))).toEqual([
+      'region:Wallis',
+      'excluded:region:Genf',
+      'country:FR',
+      'grape:Nebbiolo',
+      'grape:Barbera',
+      'grape:Dolcetto',
+      'grapeMatch',
+      'grapeMinShare',
+      'singleVarietal',
+      'producer:producer-1',
+      'excluded:color:Rosé',
+      'body:full',
+      'vintageRange',
+      'includeNonVintage',
+      'priceRange',
+    ]);
+  });
+
+  test('is empty for the default filter, the deck order is no constraint', () => {
+    expect(summarizeFilter(createDefaultFilter(), labels)).toEqual([]);
+    expect(summarizeFilter(withSelection({ order: 'newest' }), labels)).toEqual([]);
+  });
+
+  test('blend settings only count with selected grapes', () => {
+    const filter = withSelection({ grape: ['Nebbiolo'], grapeMatch: 'all', grapeMinShare: 50 });
+    const withoutGrapes = withSelection({ grapeMatch: 'all', grapeMinShare: 50 });
+
+    expect(keys(summarizeFilter(filter))).toEqual(['grape:Nebbiolo', 'grapeMinShare']);
+    expect(summarizeFilter(withoutGrapes)).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Services running on the in-memory backend with the bundled fixture catalogue
+ */
+
+import { configureRepositories } from '../src/services/repositories';
+import { referenceDataService } from '../src/services/referenceDataService';
+import { userPreferenceService } from '../src/services/userPreferenceService';
+import { countUnratedWines, countWines, fetchWines } from '../src/services/wineQueries';
+import { searchWines } from '../src/services/wineSearchService';
+import { clearFilterOptionsCache, fetchCountryOptions, getAllFilterOptions } from '../src/services/filterOptionsService';
+
+const USER_ID = 'user-1';
+
+const referenceIds = (wines: Array<{ id: string }>) => wines.map(wine => wine.id);
+
+// Wines of the fixture catalogue by reference ID
+const catalogueWines = async (...ids: string[]) => {
+  const { wines } = await fetchWines(undefined, { pageSize: 50 });
+  return ids.map(id => wines.find(wine => wine.id === id)!);
+};
+
+beforeAll(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  configureRepositories('memory');
+  await referenceDataService.initialize();
+});
+
+beforeEach(() => {
+  // Fresh repositories without matches
+  configureRepositories('memory');
+  clearFilterOptionsCache();
+});
+
+test('pages through the catalogue with a cursor', async () => {
+  const firstPage = await fetchWines(undefined, { pageSize: 5 });
+  const secondPage = await fetchWines(undefined, { pageSize: 5, cursor: firstPage.nextCursor });
+  const lastPage = await fetchWines(undefined, { pageSize: 5, cursor: secondPage.nextCursor });
+
+  expect(referenceIds(firstPage.wines)).toEqual(['WND-0001', 'WND-0002', 'WND-0003', 'WND-0004', 'WND-0005']);
+  expect(secondPage.wines).toHaveLength(5);
+  expect(referenceIds(lastPage.wines)).toEqual(['WND-0011', 'WND-0012']);
+  expect(lastPage.nextCursor).toBeNull();
+});
+
+test('applies country, grape and translated colour filters', async () => {
+  const swissChasselas = await fetchWines({ countries: ['CH'], grape: ['Chasselas'] });
+  const italianRed = await fetchWines({ countries: ['IT'], color: ['Rot'] });
+
+  expect(referenceIds(swissChasselas.wines)).toEqual(['WND-0001', 'WND-0002', 'WND-0012']);
+  expect(italianRed.wines).toHaveLength(4);
+  expect(italianRed.wines.every(wine => wine.wine_type === 'red')).toBe(true);
+});
+
+test('liked wines leave the deck and show up as matches', async () => {
+  const [wine3, wine7] = await catalogueWines('WND-0003', 'WND-0007');
+  await userPreferenceService.likeWine(USER_ID, wine3);
+  await userPreferenceService.likeWine(USER_ID, wine7);
+
+  const unrated = await userPreferenceService.getUnratedWinesWithFilters(USER_ID);
+  const liked = await userPreferenceService.getLikedWines(USER_ID);
+
+  expect(unrated.wines).toHaveLength(10);
+  expect(await countUnratedWines(USER_ID)).toBe(10);
+  expect(await countWines()).toBe(12);
+  expect(referenceIds(unrated.wines)).not.toContain('WND-0003');
+  expect(referenceIds(liked).sort()).toEqual(['WND-0003', 'WND-0007']);
+  expect(await userPreferenceService.hasUserRatedWine(USER_ID, wine7)).toBe(true);
+
+  await userPreferenceService.removeLike(USER_ID, wine7);
+  expect(await userPreferenceService.hasUserRatedWine(USER_ID, wine7)).toBe(false);
+});
+
+test('search ignores accents and ranks name matches first', async () => {
+  const rose = await searchWines('rose');
+  const barolo = await searchWines('Barolo 2016');
+
+  expect(referenceIds(rose.wines)).toContain('WND-0011');
+  expect(referenceIds(barolo.wines)).toEqual(['WND-0007']);
+});
+
+test('loads translated filter options', async () => {
+  const options = await getAllFilterOptions('de');
+  const countries = await fetchCountryOptions('de');
+
+  expect(options.color).toEqual(expect.arrayContaining(['Rot', 'Weiss', 'Rosé']));
+  expect(options.grape).toContain('Chasselas');
+  expect(options.unit).toEqual(['0.375L', '0.75L', '1.5L']);
+  expect(countries.map(country => country.country_code).sort()).toEqual(['CH', 'FR', 'IT']);
+});
+
+test('reference data converts translated values to canonical names', () => {
+  expect(referenceDataService.getWineColorName('Rouge')).toBe('red');
+  expect(referenceDataService.getWineColorName('Rosato')).toBe('rosé');
+});
@@ -0,0 +1,156 @@
+/**
+ * Selection and exclusion in the country / region / sub-region tree of the origin filter
+ */
+
+import type { WineFilter } from '../src/types';
+import type { RegionNode } from '../src/services/filterOptionsService';
+import {
+  getRegionSelectionState,
+  isRegionExcluded,
+  regionNamesBelow,
+  toggleRegionExclusion,
+  toggleRegionNode,
+} from '../src/utils/regionTree';
+import { convertToDBFilter, createDefaultFilter } from '../src/utils/filterUtils';
+
+const region = (value: string, countryCode: string, children: RegionNode[] = []): RegionNode =>
+  ({ kind: 'region', value, label: value, countryCode, children });
+
+const salgesch = region('Salgesch', 'CH');
+const fully = region('Fully', 'CH');
+const wallis = region('Wallis', 'CH', [salgesch, fully]);
+const lavaux = region('Lavaux', 'CH');
+const waadt = region('Waadt', 'CH', [lavaux]);
+const genf = region('Genf', 'CH');
+const switzerland: RegionNode = {
+  kind: 'country', value: 'CH', label: 'Schweiz', countryCode: 'CH', children: [wallis, waadt, genf],
+};
+
+const sorted = (values: string[] = []) => [...values].sort();
+
+const withSelection = (selection: Partial<WineFilter>): WineFilter => ({ ...createDefaultFilter(), ...selection });
+
+describe('selecting', () => {
+  test('a region lists it with all its sub-regions', () => {
+    const filter = toggleRegionNode(createDefaultFilter(), wallis, [switzerland]);
+
+    expect(filter.country).toEqual([]);
+    expect(sorted(filter.region)).toEqual(['Fully', 'Salgesch', 'Wallis']);
+    expect(getRegionSelectionState(wallis, filter)).toBe('checked');
+    expect(getRegionSelectionState(salgesch, filter)).toBe('checked');
+    expect(getRegionSelectionState(switzerland, filter)).toBe('partial');
+    expect(getRegionSelectionState(waadt, filter)).toBe('unchecked');
+  });
+
+  test('a sub-region leaves its parent partly selected', () => {
+    const filter = toggleRegionNode(createDefaultFilter(), salgesch, [switzerland, wallis]);
+
+    expect(filter.region).toEqual(['Salgesch']);
+    expect(getRegionSelectionState(wallis, filter)).toBe('partial');
+    expect(getRegionSelectionState(switzerland, filter)).toBe('partial');
+  });
+
+  test('the last sub-region selects the parent too', () => {
+    const oneSubRegion = toggleRegionNode(createDefaultFilter(), salgesch, [switzerland, wallis]);
+    const filter = toggleRegionNode(oneSubRegion, fully, [switzerland, wallis]);
+
+    expect(sorted(filter.region)).toEqual(['Fully', 'Salgesch', 'Wallis']);
+    expect(getRegionSelectionState(wallis, filter)).toBe('checked');
+  });
+
+  test('every region of a country selects the country instead of its regions', () => {
+    const filter = [wallis, waadt, genf].reduce(
+      (acc, node) => toggleRegionNode(acc, node, [switzerland]),
+      createDefaultFilter()
+    );
+
+    expect(filter.country).toEqual(['CH']);
+    expect(filter.region).toEqual([]);
+    expect(getRegionSelectionState(switzerland, filter)).toBe('checked');
+    expect(getRegionSelectionState(lavaux, filter)).toBe('checked');
+  });
+
+  test('a partly selected node is selected completely', () => {
+    const partial = withSelection({ region: ['Salgesch'] });
+    const filter = toggleRegionNode(partial, wallis, [switzerland]);
+
+    expect(sorted(filter.region)).toEqual(['Fully', 'Salgesch', 'Wallis']);
+  });
+});
+
+describe('deselecting', () => {
+  test('a country removes its regions as well', () => {
+    const filter = toggleRegionNode(withSelection({ country: ['CH'], region: ['Lavaux'] }), switzerland, []);
+
+    expect(filter.country).toEqual([]);
+    expect(filter.region).toEqual([]);
+  });
+
+  test('a region of a selected country splits the country into the remaining regions', () => {
+    const filter = toggleRegionNode(withSelection({ country: ['CH'] }), salgesch, [switzerland, wallis]);
+
+    expect(filter.country).toEqual([]);
+    expect(sorted(filter.region)).toEqual(['Fully', 'Genf', 'Lavaux', 'Waadt']);
+    expect(getRegionSelectionState(wallis, filter)).toBe('partial');
+    expect(getRegionSelectionState(waadt, filter)).toBe('checked');
+    expect(getRegionSelectionState(switzerland, filter)).toBe('partial');
+  });
+});
+
+describe('excluding', () => {
+  test('a long press excludes a region with its sub-regions, another one takes it back', () => {
+    const excluded = toggleRegionExclusion(createDefaultFilter(), wallis, [switzerland]);
+    const restored = toggleRegionExclusion(excluded, wallis, [switzerland]);
+
+    expect(sorted(excluded.excluded?.region)).toEqual(['Fully', 'Salgesch', 'Wallis']);
+    expect(isRegionExcluded(wallis, excluded)).toBe(true);
+    expect(isRegionExcluded(salgesch, excluded)).toBe(true);
+    expect(restored.excluded?.region).toEqual([]);
+    expect(isRegionExcluded(wallis, restored)).toBe(false);
+  });
+
+  test('a country is excluded by its code', () => {
+    const filter = toggleRegionExclusion(createDefaultFilter(), switzerland, []);
+
+    expect(filter.excluded?.country).toEqual(['CH']);
+    expect(filter.excluded?.region ?? []).toEqual([]);
+    expect(isRegionExcluded(switzerland, filter)).toBe(true);
+  });
+
+  test('excluding a selected region deselects it', () => {
+    const filter = toggleRegionExclusion(withSelection({ country: ['CH'] }), waadt, [switzerland]);
+
+    expect(filter.country).toEqual([]);
+    expect(sorted(filter.region)).toEqual(['Fully', 'Genf', 'Salgesch', 'Wallis']);
+    expect(sorted(filter.excluded?.region)).toEqual(['Lavaux', 'Waadt']);
+    expect(getRegionSelectionState(waadt, filter)).toBe('unchecked');
+  });
+
+  test('selecting an excluded region takes the exclusion back', () => {
+    const excluded = toggleRegionExclusion(createDefaultFilter(), wallis, [switzerland]);
+    const filter = toggleRegionNode(excluded, salgesch, [switzerland, wallis]);
+
+    expect(filter.region).toEqual(['Salgesch']);
+    expect(sorted(filter.excluded?.region)).toEqual(['Fully', 'Wallis']);
+  });
+});
+
+test('the selection is sent to the database as country codes and region names', async () => {
+  const selected = toggleRegionNode(
+    toggleRegionNode(createDefaultFilter(), wallis, [switzerland]),
+    region('Bourgogne', 'FR'),
+    [{ kind: 'country', value: 'FR', label: 'Frankreich', countryCode: 'FR', children: [region('Bourgogne', 'FR')] }]
+  );
+  const filter = toggleRegionExclusion(selected, salgesch, [switzerland, wallis]);
+
+  const dbFilter = await convertToDBFilter(filter);
+
+  expect(dbFilter.countries).toEqual(['FR']);
+  expect(sorted(dbFilter.regions)).toEqual(['Fully']);
+  expect(dbFilter.exclude?.regions).toEqual(['Salgesch']);
+});
+
+test('regionNamesBelow lists a node and its descendants, without the country', () => {
+  expect(sorted(regionNamesBelow(switzerland))).toEqual(['Fully', 'Genf', 'Lavaux', 'Salgesch', 'Waadt', 'Wallis']);
+  expect(regionNamesBelow(genf)).toEqual(['Genf']);
+});
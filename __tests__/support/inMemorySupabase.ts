@@ -0,0 +1,288 @@
+/**
+ * In-memory stand-in for the Supabase database used by service tests
+ *
+ * Implements the subset of the PostgREST query builder the services use:
+ * select (with embedded relations), filters - including not() and or() with
+ * nested and(...) - order, limit and RPC functions.
+ * Embedded relations follow the "<relation>_id" foreign key convention,
+ * e.g. `grapes ( name )` on wine_grapes resolves grape_id → grapes.id.
+ */
+
+type Row = Record<string, unknown>;
+type Tables = Record<string, Row[]>;
+type RpcFunction = (tables: Tables, args: Record<string, unknown>) => Row[];
+
+// Result of every query - the stand-in never fails a query
+interface QueryResult {
+  data: Row | Row[] | null;
+  error: null;
+}
+
+interface Embed {
+  relation: string;
+  inner: boolean;
+}
+
+interface InMemoryDatabase {
+  tables: Tables;
+  functions?: Record<string, RpcFunction>;
+}
+
+const parseEmbeds = (columns: string): Embed[] => {
+  const embeds: Embed[] = [];
+  const embedPattern = /(\w+)(!inner)?\s*\(/g;
+  let match = embedPattern.exec(columns);
+  while (match) {
+    embeds.push({ relation: match[1], inner: Boolean(match[2]) });
+    match = embedPattern.exec(columns);
+  }
+  return embeds;
+};
+
+const foreignKeyFor = (relation: string): string => `${relation.replace(/s$/, '')}_id`;
+
+const isRow = (value: unknown): value is Row => typeof value === 'object' && value !== null;
+
+const readPath = (row: Row, column: string): unknown =>
+  column.split('.').reduce<unknown>((value, key) => (isRow(value) ? value[key] : undefined), row);
+
+// Compared as numbers against a number, everything else (text, ISO dates) as text
+const compare = (a: unknown, b: unknown): number => {
+  if (a === b) return 0;
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) > Number(b) ? 1 : -1;
+  return String(a) > String(b) ? 1 : -1;
+};
+
+/**
+ * Split a PostgREST list at the commas outside of parentheses and quotes
+ */
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quoted = false;
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted && char === '\\') {
+      current += char + text[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...parts, current];
+};
+
+const parseValue = (raw: string): string | null => {
+  if (raw.startsWith('"')) return raw.slice(1, -1).replace(/\\(.)/g, '$1');
+  if (raw === 'null') return null;
+  return raw;
+};
+
+// Filter values arrive as text - compared as numbers against number columns
+const coerce = (value: unknown, like: unknown): unknown =>
+  typeof like === 'number' && value !== null ? Number(value) : value;
+
+// Negated comparisons with NULL are unknown in SQL, so the row doesn't match
+const testNegated = (operator: string, value: unknown, raw: unknown): boolean =>
+  (operator === 'is' || value != null) && !testOperator(operator, value, raw);
+
+const testOperator = (operator: string, value: unknown, raw: unknown): boolean => {
+  if (operator === 'is') return (value ?? null) === raw;
+  if (operator === 'in') {
+    const list: unknown[] = Array.isArray(raw) ? raw : splitTopLevel(String(raw).slice(1, -1)).map(parseValue);
+    return value != null && list.some(item => coerce(item, value) === value);
+  }
+  if (value == null) return false;
+  const expected = coerce(raw, value);
+  switch (operator) {
+    case 'eq': return value === expected;
+    case 'neq': return value !== expected;
+    case 'gt': return compare(value, expected) > 0;
+    case 'gte': return compare(value, expected) >= 0;
+    case 'lt': return compare(value, expected) < 0;
+    case 'lte': return compare(value, expected) <= 0;
+    default: throw new Error(`Unsupported operator: ${operator}`);
+  }
+};
+
+/**
+ * Condition of an or() filter: column.[not.]operator.value, and(...) or or(...)
+ */
+const parseCondition = (condition: string): ((row: Row) => boolean) => {
+  const group = /^(and|or)\((.*)\)$/.exec(condition);
+  if (group) {
+    const conditions = splitTopLevel(group[2]).map(parseCondition);
+    return group[1] === 'and'
+      ? row => conditions.every(test => test(row))
+      : row => conditions.some(test => test(row));
+  }
+
+  const [column, ...rest] = condition.split('.');
+  const negated = rest[0] === 'not';
+  const [operator, ...valueParts] = negated ? rest.slice(1) : rest;
+  const raw = valueParts.join('.');
+  const value = operator === 'in' ? raw : parseValue(raw);
+  return negated
+    ? row => testNegated(operator, readPath(row, column), value)
+    : row => testOperator(operator, readPath(row, column), value);
+};
+
+class InMemoryQuery implements PromiseLike<QueryResult> {
+  private readonly filters: Array<(row: Row) => boolean> = [];
+  private readonly embeddedFilters: Array<{ relation: string; test: (row: Row) => boolean }> = [];
+  private orderings: Array<{ column: string; ascending: boolean; nullsFirst: boolean }> = [];
+  private rowLimit: number | null = null;
+  private embeds: Embed[] = [];
+  private singleRow: 'single' | 'maybeSingle' | null = null;
+
+  constructor(
+    private readonly tables: Tables,
+    private readonly source: () => Row[],
+    private readonly mutation?: (rows: Row[]) => void,
+  ) {}
+
+  select(columns: string = '*') {
+    this.embeds = parseEmbeds(columns);
+    return this;
+  }
+
+  private addFilter(column: string, test: (value: unknown) => boolean) {
+    const [relation, ...rest] = column.split('.');
+    if (rest.length > 0 && this.embeds.some(embed => embed.relation === relation)) {
+      this.embeddedFilters.push({ relation, test: row => test(readPath(row, rest.join('.'))) });
+    } else {
+      this.filters.push(row => test(readPath(row, column)));
+    }
+    return this;
+  }
+
+  eq(column: string, value: unknown) { return this.addFilter(column, v => v === value); }
+  neq(column: string, value: unknown) { return this.addFilter(column, v => v !== value); }
+  gt(column: string, value: unknown) { return this.addFilter(column, v => v != null && compare(v, value) > 0); }
+  gte(column: string, value: unknown) { return this.addFilter(column, v => v != null && compare(v, value) >= 0); }
+  lt(column: string, value: unknown) { return this.addFilter(column, v => v != null && compare(v, value) < 0); }
+  lte(column: string, value: unknown) { return this.addFilter(column, v => v != null && compare(v, value) <= 0); }
+  is(column: string, value: unknown) { return this.addFilter(column, v => (v ?? null) === value); }
+  in(column: string, values: readonly unknown[]) { return this.addFilter(column, v => values.includes(v)); }
+  not(column: string, operator: string, value: unknown) {
+    return this.addFilter(column, v => testNegated(operator, v, value));
+  }
+
+  or(conditions: string) {
+    const tests = splitTopLevel(conditions).map(parseCondition);
+    this.filters.push(row => tests.some(test => test(row)));
+    return this;
+  }
+
+  // Nulls sort like in Postgres: last ascending, first descending unless set
+  order(column: string, { ascending = true, nullsFirst = !ascending }: { ascending?: boolean; nullsFirst?: boolean } = {}) {
+    this.orderings = [...this.orderings, { column, ascending, nullsFirst }];
+    return this;
+  }
+
+  limit(count: number) {
+    this.rowLimit = count;
+    return this;
+  }
+
+  single() {
+    this.singleRow = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.singleRow = 'maybeSingle';
+    return this;
+  }
+
+  private embed(row: Row): Row | null {
+    const result = { ...row };
+    for (const { relation, inner } of this.embeds) {
+      const related = (this.tables[relation] || []).find(r => r.id === row[foreignKeyFor(relation)]) ?? null;
+      const passes = related !== null && this.embeddedFilters
+        .filter(filter => filter.relation === relation)
+        .every(filter => filter.test({ ...related }));
+      if (inner && !passes) {
+        return null;
+      }
+      result[relation] = passes ? related : null;
+    }
+    return result;
+  }
+
+  private execute(): QueryResult {
+    const matching = this.source()
+      .filter(row => this.filters.every(test => test(row)))
+      .filter(row => this.embed(row) !== null);
+
+    if (this.mutation) {
+      this.mutation(matching);
+      return { data: null, error: null };
+    }
+
+    let rows = matching.map(row => this.embed(row) as Row);
+
+    for (const { column, ascending, nullsFirst } of [...this.orderings].reverse()) {
+      rows = [...rows].sort((a, b) => {
+        const [valueA, valueB] = [a[column] ?? null, b[column] ?? null];
+        if (valueA === null || valueB === null) {
+          return valueA === valueB ? 0 : (valueA === null) === nullsFirst ? -1 : 1;
+        }
+        return compare(valueA, valueB) * (ascending ? 1 : -1);
+      });
+    }
+
+    if (this.rowLimit !== null) {
+      rows = rows.slice(0, this.rowLimit);
+    }
+
+    if (this.singleRow) {
+      return { data: rows[0] ?? null, error: null };
+    }
+
+    return { data: rows, error: null };
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null,
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * Create a Supabase client stand-in backed by plain arrays
+ */
+export const createInMemorySupabase = ({ tables, functions = {} }: InMemoryDatabase) => ({
+  // Rows are changed in place so tests can keep a reference to the seeded arrays
+  from: (table: string) => {
+    const rows = () => tables[table] || [];
+    return {
+      select: (columns?: string) => new InMemoryQuery(tables, rows).select(columns),
+      insert: (values: Row | Row[]) => {
+        rows().push(...(Array.isArray(values) ? values : [values]));
+        return Promise.resolve({ data: null, error: null });
+      },
+      delete: () => new InMemoryQuery(tables, rows, removed => {
+        const remaining = rows().filter(row => !removed.includes(row));
+        rows().splice(0, rows().length, ...remaining);
+      }),
+    };
+  },
+  rpc: (name: string, args: Record<string, unknown> = {}) => {
+    const fn = functions[name];
+    if (!fn) {
+      throw new Error(`Unknown RPC function: ${name}`);
+    }
+    return new InMemoryQuery(tables, () => fn(tables, args));
+  },
+});
@@ -0,0 +1,226 @@
+/**
+ * Filters as older app versions stored them, with the filter migrateFilter should make of them
+ * expected lists only the fields that differ from createDefaultFilter(), null means unreadable
+ */
+
+import type { WineFilter } from '../../src/types';
+
+export interface StoredFilterFixture {
+  description: string;
+  version?: number;  // Stored version, missing for filters saved before versioning
+  stored: unknown;
+  expected: Partial<WineFilter> | null;
+}
+
+// createDefaultFilter() of the first release, with every legacy field
+const firstReleaseDefaults = {
+  grape: [],
+  country: [],
+  region: [],
+  producer: [],
+  wineType: [],
+  color: [],
+  sweetness: [],
+  productionType: [],
+  unit: [],
+  alcohol: [],
+  price: [],
+  wineTypes: [],
+  maxPrice: 1000,
+  minPrice: 0,
+  regions: [],
+  grapeVarieties: [],
+  vintageRange: [1900, 2024],
+  alcoholRange: [0, 20],
+};
+
+// createDefaultFilter() when presets and deck links were version 1
+const versionOneDefaults = {
+  grape: [],
+  excluded: {},
+  grapeMatch: 'any',
+  grapeMinShare: null,
+  singleVarietal: false,
+  vintageRange: null,
+  includeNonVintage: true,
+  priceRange: null,
+  priceCurrency: 'CHF',
+  order: 'random',
+  country: [],
+  region: [],
+  producer: [],
+  wineType: [],
+  color: [],
+  sweetness: [],
+  body: [],
+  acidity: [],
+  tannin: [],
+  productionType: [],
+  unit: [],
+  alcohol: [],
+  price: [],
+  wineTypes: [],
+  regions: [],
+  grapeVarieties: [],
+  alcoholRange: [0, 20],
+};
+
+export const storedFilterFixtures: StoredFilterFixture[] = [
+  {
+    description: 'first release defaults match every wine',
+    stored: firstReleaseDefaults,
+    expected: {},
+  },
+  {
+    description: 'first release legacy lists move to the current fields',
+    stored: {
+      ...firstReleaseDefaults,
+      wineTypes: ['Rot'],
+      regions: ['Lavaux', 'Piemonte'],
+      grapeVarieties: ['Chasselas'],
+    },
+    expected: {
+      color: ['Rot'],
+      region: ['Lavaux', 'Piemonte'],
+      grape: ['Chasselas'],
+    },
+  },
+  {
+    description: 'legacy and current values are merged without duplicates',
+    stored: {
+      ...firstReleaseDefaults,
+      grape: ['Nebbiolo'],
+      grapeVarieties: ['Barbera', 'Nebbiolo'],
+      region: ['Piemonte'],
+      regions: ['Piemonte'],
+      color: ['Weiss'],
+      wineTypes: ['Rot', 'Weiss'],
+    },
+    expected: {
+      grape: ['Nebbiolo', 'Barbera'],
+      region: ['Piemonte'],
+      color: ['Weiss', 'Rot'],
+    },
+  },
+  {
+    description: 'first release price bounds become a price range in the catalogue currency',
+    stored: { ...firstReleaseDefaults, minPrice: 15, maxPrice: 40 },
+    expected: { priceRange: [15, 40], priceCurrency: 'CHF' },
+  },
+  {
+    description: 'a single changed price bound keeps the default of the other one',
+    stored: { ...firstReleaseDefaults, maxPrice: 30 },
+    expected: { priceRange: [0, 30], priceCurrency: 'CHF' },
+  },
+  {
+    description: 'a narrowed first release vintage range is kept',
+    stored: { ...firstReleaseDefaults, vintageRange: [2015, 2020] },
+    expected: { vintageRange: [2015, 2020] },
+  },
+  {
+    description: 'version 1 preset with legacy defaults',
+    version: 1,
+    stored: {
+      ...versionOneDefaults,
+      color: ['White'],
+      country: ['CH'],
+      priceRange: [0, 30],
+      excluded: { grape: ['Müller-Thurgau'] },
+    },
+    expected: {
+      color: ['White'],
+      country: ['CH'],
+      priceRange: [0, 30],
+      excluded: { grape: ['Müller-Thurgau'] },
+    },
+  },
+  {
+    description: 'version 1 price range wins over legacy price bounds',
+    version: 1,
+    stored: { ...versionOneDefaults, priceRange: [20, 50], priceCurrency: 'EUR', minPrice: 5, maxPrice: 10 },
+    expected: { priceRange: [20, 50], priceCurrency: 'EUR' },
+  },
+  {
+    description: 'fields added after a filter was stored get their defaults',
+    version: 1,
+    stored: { grape: ['Nebbiolo'], region: ['Piemonte'], order: 'price-desc' },
+    expected: { grape: ['Nebbiolo'], region: ['Piemonte'], order: 'price-desc' },
+  },
+  {
+    description: 'values of the wrong type fall back to their defaults',
+    version: 2,
+    stored: {
+      grape: 'Nebbiolo',
+      color: ['Red', 3, null],
+      excluded: { color: 'White', grape: ['Merlot'], unknown: ['x'] },
+      grapeMatch: 'most',
+      grapeMinShare: 150,
+      vintageRange: [2020, 2010],
+      priceRange: [10],
+      priceCurrency: 'francs',
+      order: 'alphabetical',
+      singleVarietal: 'yes',
+    },
+    expected: { color: ['Red'], excluded: { grape: ['Merlot'] } },
+  },
+  {
+    description: 'a current filter stays as it is',
+    version: 2,
+    stored: {
+      grape: ['Pinot Noir'],
+      country: ['CH'],
+      region: ['Lavaux'],
+      producer: [],
+      wineType: [],
+      color: ['Red'],
+      sweetness: ['Dry'],
+      body: ['full'],
+      acidity: [],
+      tannin: ['high'],
+      productionType: [],
+      excluded: { color: ['Rosé'] },
+      grapeMatch: 'all',
+      grapeMinShare: 60,
+      singleVarietal: true,
+      vintageRange: [2015, 2022],
+      includeNonVintage: false,
+      priceRange: [20, 80],
+      priceCurrency: 'EUR',
+      order: 'vintage-desc',
+      unit: ['0.75L'],
+      alcohol: [],
+      price: [],
+    },
+    expected: {
+      grape: ['Pinot Noir'],
+      country: ['CH'],
+      region: ['Lavaux'],
+      color: ['Red'],
+      sweetness: ['Dry'],
+      body: ['full'],
+      tannin: ['high'],
+      excluded: { color: ['Rosé'] },
+      grapeMatch: 'all',
+      grapeMinShare: 60,
+      singleVarietal: true,
+      vintageRange: [2015, 2022],
+      includeNonVintage: false,
+      priceRange: [20, 80],
+      priceCurrency: 'EUR',
+      order: 'vintage-desc',
+      unit: ['0.75L'],
+    },
+  },
+  {
+    description: 'filters of a newer app version are not read',
+    version: 3,
+    stored: { grape: ['Nebbiolo'] },
+    expected: null,
+  },
+  {
+    description: 'anything but an object is not a filter',
+    version: 2,
+    stored: ['Nebbiolo'],
+    expected: null,
+  },
+];
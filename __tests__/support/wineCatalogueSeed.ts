@@ -0,0 +1,175 @@
+/**
+ * Small wine catalogue for the in-memory database stand-in
+ * Rows mirror the columns of wines_with_core_details, wines, grapes, wine_grapes and wine_grape_shares
+ */
+
+import type { DatabaseWineFilter } from '../../src/types';
+import type { Database } from '../../src/types/database';
+import { localShuffleKey } from '../../src/services/deckOrder';
+
+const viewRow = (id: string, referenceId: string, name: string, countryCode: string) => ({
+  id,
+  reference_id: referenceId,
+  default_name: name,
+  year: 2020,
+  image_path: null,
+  region_id: null,
+  region_name_default: countryCode === 'CH' ? 'Lavaux' : 'Piemonte',
+  country_code: countryCode,
+  country_name_default: countryCode === 'CH' ? 'Schweiz' : 'Italien',
+  producer_id: null,
+  descriptions_by_language: null,
+  region_names_by_language: null,
+  country_names_by_language: null,
+  wine_type: 'still wine',
+  wine_type_translations: null,
+  wine_color: 'red',
+  wine_color_translations: null,
+  sweetness_level: 'dry',
+  sweetness_level_translations: null,
+  alcohol_level: null,
+  alcohol_min: null,
+  alcohol_max: null,
+  alcohol_level_translations: null,
+  vinification_method: null,
+  vinification_category: null,
+  vinification_method_translations: null,
+  price_range: null,
+  price_min: 25,
+  price_max: null,
+  price_currency: 'CHF',
+  body: null,
+  acidity: null,
+  tannin: null,
+  price_eur: null,
+  added_at: '2026-01-01T00:00:00.000Z',
+  like_count: 0,
+  shuffle_key: null,
+  price_range_translations: null,
+  unit_volume: 0.75,
+});
+
+const createWineCatalogueTables = () => {
+  // Body only where assessed - the others keep null, like unassessed wines in the view.
+  // The deck sort keys have ties and nulls, so every order needs its id tie-breaker
+  const winesView = [
+    {
+      ...viewRow('00000000-0000-0000-0000-000000000001', 'W-001', 'Dézaley Grand Cru', 'CH'),
+      wine_color: 'white', body: 'light', price_eur: 24, like_count: 3,
+    },
+    {
+      ...viewRow('00000000-0000-0000-0000-000000000002', 'W-002', 'Barolo', 'IT'),
+      body: 'full', year: null, like_count: 5, added_at: '2026-02-01T00:00:00.000Z',
+    },
+    {
+      ...viewRow('00000000-0000-0000-0000-000000000003', 'W-003', 'Pinot Noir Lavaux', 'CH'),
+      year: 2019, price_eur: 24, like_count: 3,
+    },
+    {
+      ...viewRow('00000000-0000-0000-0000-000000000004', 'W-004', 'Barbaresco', 'IT'),
+      body: 'full', year: 2019, price_eur: 40, added_at: '2026-03-01T00:00:00.000Z',
+    },
+    {
+      ...viewRow('00000000-0000-0000-0000-000000000005', 'W-005', 'Cornalin', 'CH'),
+      year: 2021, added_at: '2026-02-01T00:00:00.000Z',
+    },
+  ];
+
+  return {
+    wines_with_core_details: winesView,
+    wines: winesView.map(({ id, reference_id }) => ({ id, reference_id })),
+    grapes: [
+      { id: 'g-chasselas', name: 'Chasselas' },
+      { id: 'g-nebbiolo', name: 'Nebbiolo' },
+      { id: 'g-pinot', name: 'Pinot Noir' },
+      { id: 'g-barbera', name: 'Barbera' },
+    ],
+    wine_grapes: [
+      { id: 'wg-1', wine_id: winesView[0].id, grape_id: 'g-chasselas', percentage: null },
+      { id: 'wg-2', wine_id: winesView[1].id, grape_id: 'g-nebbiolo', percentage: 100 },
+      { id: 'wg-3', wine_id: winesView[2].id, grape_id: 'g-pinot', percentage: 100 },
+      { id: 'wg-4', wine_id: winesView[3].id, grape_id: 'g-nebbiolo', percentage: 85 },
+      { id: 'wg-5', wine_id: winesView[3].id, grape_id: 'g-barbera', percentage: 15 },
+    ],
+    user_wine_matches: [] as Array<Database['public']['Tables']['user_wine_matches']['Insert']>,
+    // Reference values the filters name in the app language
+    wine_colors: [
+      { id: 'c-red', name: 'red' },
+      { id: 'c-white', name: 'white' },
+    ],
+    wine_colors_translations: [
+      { wine_color_id: 'c-red', language_code: 'de', translated_name: 'Rot' },
+      { wine_color_id: 'c-white', language_code: 'de', translated_name: 'Weiss' },
+    ],
+    wine_types: [{ id: 't-still', name: 'still wine' }],
+    wine_types_translations: [
+      { wine_type_id: 't-still', language_code: 'de', translated_name: 'Stillwein' },
+    ],
+  };
+};
+
+/**
+ * JS equivalent of the wine_grape_shares view in supabase/migrations/*_wine_grape_shares.sql
+ */
+const withGrapeShares = (tables: ReturnType<typeof createWineCatalogueTables>) => ({
+  ...tables,
+  wine_grape_shares: tables.wine_grapes.map(wineGrape => {
+    const grapeCount = tables.wine_grapes.filter(other => other.wine_id === wineGrape.wine_id).length;
+    return {
+      wine_id: wineGrape.wine_id,
+      grape_name: tables.grapes.find(grape => grape.id === wineGrape.grape_id)!.name,
+      percentage: wineGrape.percentage ?? (grapeCount === 1 ? 100 : null),
+      grape_count: grapeCount,
+    };
+  }),
+});
+
+export const wineCatalogueTables = withGrapeShares(createWineCatalogueTables());
+
+type CatalogueTables = typeof wineCatalogueTables;
+
+// RPC arguments arrive untyped, like the JSON the database receives
+const textArg = (value: unknown): string | null => (typeof value === 'string' ? value : null);
+const filterArg = (value: unknown): DatabaseWineFilter | null =>
+  typeof value === 'object' && value !== null && !Array.isArray(value) ? (value as DatabaseWineFilter) : null;
+
+// Rows with the shuffle key of a seed - localShuffleKey stands in for md5
+const shuffled = <T extends { id: string }>(rows: T[], seed: string | null) =>
+  rows.map(wine => ({ ...wine, shuffle_key: seed ? localShuffleKey(seed, wine.id) : null }));
+
+/**
+ * JS equivalent of the grape part of wine_matches_filter in
+ * supabase/migrations/*_wine_facet_counts_filter.sql, on the wine_grape_shares rows
+ */
+const matchesGrapeFilter = (tables: CatalogueTables, wineId: string, filter: DatabaseWineFilter | null) => {
+  if (!filter) return true;
+
+  const shares = tables.wine_grape_shares.filter(share => share.wine_id === wineId);
+  const grapes = filter.grape ?? [];
+  const excluded = filter.exclude?.grape ?? [];
+
+  if (shares.some(share => excluded.includes(share.grape_name))) return false;
+  if (grapes.length === 0 && !filter.singleVarietal) return true;
+
+  const matching = shares.filter(share =>
+    (grapes.length === 0 || grapes.includes(share.grape_name)) &&
+    (grapes.length === 0 || filter.grapeMinShare == null || (share.percentage ?? -1) >= filter.grapeMinShare) &&
+    (!filter.singleVarietal || share.grape_count === 1));
+  return filter.grapeMatch === 'all' && grapes.length >= 2
+    ? new Set(matching.map(share => share.grape_name)).size === grapes.length
+    : matching.length > 0;
+};
+
+/**
+ * JS equivalents of the SQL functions in supabase/migrations/*_wine_grape_filter.sql
+ */
+export const catalogueFunctions = {
+  unrated_wines_for_user: (tables: CatalogueTables, args: Record<string, unknown>) =>
+    shuffled(tables.wines_with_core_details.filter(wine =>
+      matchesGrapeFilter(tables, wine.id, filterArg(args.p_filter)) && !tables.user_wine_matches.some(
+        match => match.wine_id === wine.id && match.user_id === textArg(args.p_user_id),
+      )), textArg(args.p_seed)),
+  filtered_wines: (tables: CatalogueTables, args: Record<string, unknown>) =>
+    shuffled(tables.wines_with_core_details.filter(wine =>
+      matchesGrapeFilter(tables, wine.id, filterArg(args.p_filter))), textArg(args.p_seed)),
+};
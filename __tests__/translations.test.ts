@@ -0,0 +1,68 @@
+/**
+ * Translation files - every language has the keys of English, and i18n.t
+ * fills in placeholders and plural forms
+ */
+
+import en from '../src/locales/en.json';
+import de from '../src/locales/de.json';
+import fr from '../src/locales/fr.json';
+import it from '../src/locales/it.json';
+import { i18n } from '../src/utils/i18n';
+
+const locales = { de, fr, it };
+
+// Dotted key of every text, e.g. 'filters.winesMatching.one'
+const flatten = (node: object, prefix = ''): Record<string, string> =>
+  Object.entries(node).reduce<Record<string, string>>((texts, [key, value]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    return typeof value === 'string' ? { ...texts, [path]: value } : { ...texts, ...flatten(value, path) };
+  }, {});
+
+const placeholders = (text: string): string[] => (text.match(/\{\w+\}/g) ?? []).sort();
+
+const english = flatten(en);
+
+describe.each(Object.entries(locales))('%s', (_language, locale) => {
+  const texts = flatten(locale);
+
+  test('has every English key and no others', () => {
+    const missing = Object.keys(english).filter(key => !(key in texts));
+    const extra = Object.keys(texts).filter(key => !(key in english));
+    expect({ missing, extra }).toEqual({ missing: [], extra: [] });
+  });
+
+  test('uses the placeholders of English', () => {
+    const mismatched = Object.keys(english).filter(
+      key => key in texts && placeholders(texts[key]).join() !== placeholders(english[key]).join()
+    );
+    expect(mismatched).toEqual([]);
+  });
+});
+
+describe('i18n.t', () => {
+  const initialLanguage = i18n.getCurrentLanguage();
+
+  afterEach(() => {
+    i18n.setLanguage(initialLanguage);
+  });
+
+  test('fills in placeholders and keeps unknown ones', () => {
+    i18n.setLanguage('de');
+    expect(i18n.t('deck.position', { position: 3, total: 12 })).toBe('3 von 12');
+    expect(i18n.t('deck.position', { position: 3 })).toBe('3 von {total}');
+  });
+
+  test('picks the plural form of the language', () => {
+    i18n.setLanguage('en');
+    expect(i18n.t('filters.winesMatching', { count: 1 })).toBe(en.filters.winesMatching.one.replace('{count}', '1'));
+    expect(i18n.t('filters.winesMatching', { count: 0 })).toBe(en.filters.winesMatching.other.replace('{count}', '0'));
+
+    // French counts zero as singular
+    i18n.setLanguage('fr');
+    expect(i18n.t('filters.winesMatching', { count: 0 })).toBe(fr.filters.winesMatching.one.replace('{count}', '0'));
+  });
+
+  test('returns the key when no language has it', () => {
+    expect(i18n.t('deck.doesNotExist')).toBe('deck.doesNotExist');
+  });
+});
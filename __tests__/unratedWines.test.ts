@@ -0,0 +1,79 @@
+/**
+ * Server-side exclusion of rated wines, run against the in-memory database stand-in
+ */
+
+import { userPreferenceService } from '../src/services/userPreferenceService';
+import { fetchWines } from '../src/services/wineQueries';
+import { wineCatalogueTables } from './support/wineCatalogueSeed';
+
+// The factory and the tests share one module instance, so both see the same tables
+jest.mock('../src/lib/supabase', () => {
+  const { createInMemorySupabase } = require('./support/inMemorySupabase');
+  const seed = require('./support/wineCatalogueSeed');
+  return {
+    supabase: createInMemorySupabase({
+      tables: seed.wineCatalogueTables,
+      functions: seed.catalogueFunctions,
+    }),
+  };
+});
+
+const USER_ID = 'user-1';
+const OTHER_USER_ID = 'user-2';
+
+const referenceIds = (wines: Array<{ id: string }>) => wines.map(wine => wine.id).sort();
+
+const catalogueWine = async (id: string) => {
+  const { wines } = await fetchWines();
+  return wines.find(wine => wine.id === id)!;
+};
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+beforeEach(() => {
+  wineCatalogueTables.user_wine_matches.length = 0;
+});
+
+test('liked wines do not come back into the deck', async () => {
+  await userPreferenceService.likeWine(USER_ID, await catalogueWine('W-002'));
+
+  const page = await userPreferenceService.getUnratedWinesWithFilters(USER_ID);
+
+  expect(referenceIds(page.wines)).toEqual(['W-001', 'W-003', 'W-004', 'W-005']);
+});
+
+test('likes of other users do not exclude wines', async () => {
+  await userPreferenceService.likeWine(OTHER_USER_ID, await catalogueWine('W-001'));
+
+  const page = await userPreferenceService.getUnratedWinesWithFilters(USER_ID);
+
+  expect(page.wines).toHaveLength(5);
+});
+
+test('uses the same filter semantics as fetchWines', async () => {
+  const filter = { countries: ['CH'], grape: ['Chasselas', 'Pinot Noir'] };
+  await userPreferenceService.likeWine(USER_ID, await catalogueWine('W-003'));
+
+  const allWines = await fetchWines(filter);
+  const unrated = await userPreferenceService.getUnratedWinesWithFilters(USER_ID, filter);
+
+  expect(referenceIds(allWines.wines)).toEqual(['W-001', 'W-003']);
+  expect(referenceIds(unrated.wines)).toEqual(['W-001']);
+});
+
+test('pages through all unrated wines with the cursor', async () => {
+  await userPreferenceService.likeWine(USER_ID, await catalogueWine('W-001'));
+
+  const firstPage = await userPreferenceService.getUnratedWinesWithFilters(USER_ID, undefined, { pageSize: 3 });
+  const secondPage = await userPreferenceService.getUnratedWinesWithFilters(USER_ID, undefined, {
+    pageSize: 3,
+    cursor: firstPage.nextCursor,
+  });
+
+  expect(firstPage.wines).toHaveLength(3);
+  expect(firstPage.nextCursor).not.toBeNull();
+  expect(secondPage.nextCursor).toBeNull();
+  expect(referenceIds([...firstPage.wines, ...secondPage.wines])).toEqual(['W-002', 'W-003', 'W-004', 'W-005']);
+});
@@ -0,0 +1,93 @@
+/**
+ * Excluded values, "all grapes" and minimum grape shares, colours named in the
+ * app language
+ *
+ * Every case runs against the database query (applyWineFilters and filtered_wines
+ * on the in-memory database stand-in) and the on-device filter (matchesWineFilter),
+ * which must agree.
+ */
+
+import type { DatabaseWineFilter, WineGrape } from '../src/types';
+import type { WinesWithCoreDetailsRow } from '../src/types/database';
+import { fetchWines } from '../src/services/wineQueries';
+import { matchesWineFilter } from '../src/services/inMemoryRepository';
+import { convertToDBFilter, createDefaultFilter, cycleFilterOption } from '../src/utils/filterUtils';
+import { wineCatalogueTables } from './support/wineCatalogueSeed';
+
+jest.mock('../src/lib/supabase', () => {
+  const { createInMemorySupabase } = require('./support/inMemorySupabase');
+  const seed = require('./support/wineCatalogueSeed');
+  return {
+    supabase: createInMemorySupabase({
+      tables: seed.wineCatalogueTables,
+      functions: seed.catalogueFunctions,
+    }),
+  };
+});
+
+const referenceIds = (wines: Array<{ id: string }>) => wines.map(wine => wine.id).sort();
+
+// Blend per wine UUID, as the on-device catalogue keeps it - unknown shares stay null
+const grapesOf = (wineId: string): WineGrape[] =>
+  wineCatalogueTables.wine_grapes
+    .filter(wineGrape => wineGrape.wine_id === wineId)
+    .map(wineGrape => ({
+      name: wineCatalogueTables.grapes.find(grape => grape.id === wineGrape.grape_id)!.name,
+      percentage: wineGrape.percentage,
+    }));
+
+const matchingOnDevice = (filter: DatabaseWineFilter): string[] =>
+  (wineCatalogueTables.wines_with_core_details as WinesWithCoreDetailsRow[])
+    .filter(row => matchesWineFilter(row, grapesOf(row.id), filter))
+    .map(row => row.reference_id!)
+    .sort();
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe.each<[string, DatabaseWineFilter, string[]]>([
+  ['excluding a value keeps wines without one', { exclude: { body: ['full'] } }, ['W-001', 'W-003', 'W-005']],
+  ['selecting a value never matches wines without one', { body: ['light'] }, ['W-001']],
+  ['exclusions of several categories all apply', { exclude: { countries: ['IT'], body: ['light'] } }, ['W-003', 'W-005']],
+  ['selections and exclusions of different categories combine', { body: ['full'], exclude: { countries: ['IT'] } }, []],
+  ['excluded grapes hide every blend containing them', { exclude: { grape: ['Barbera'] } }, ['W-001', 'W-002', 'W-003', 'W-005']],
+  ['wines need any of the selected grapes', { grape: ['Nebbiolo', 'Barbera'] }, ['W-002', 'W-004']],
+  ['"all grapes" needs every selected grape', { grape: ['Nebbiolo', 'Barbera'], grapeMatch: 'all' }, ['W-004']],
+  ['the minimum share applies to the selected grape', { grape: ['Nebbiolo'], grapeMinShare: 90 }, ['W-002']],
+  ['with any grape one of them needs the share', { grape: ['Nebbiolo', 'Barbera'], grapeMinShare: 50 }, ['W-002', 'W-004']],
+  ['with "all grapes" every one needs the share', { grape: ['Nebbiolo', 'Barbera'], grapeMatch: 'all', grapeMinShare: 50 }, []],
+  ['a single grape without a known share counts as 100%', { grape: ['Chasselas'], grapeMinShare: 100 }, ['W-001']],
+])('%s', (_description, filter, expected) => {
+  test('in the database', async () => {
+    const { wines } = await fetchWines(filter);
+    expect(referenceIds(wines)).toEqual(expected);
+  });
+
+  test('on the device', () => {
+    expect(matchingOnDevice(filter)).toEqual(expected);
+  });
+});
+
+test('an option cycles through included, excluded and off', async () => {
+  const included = cycleFilterOption(createDefaultFilter(), 'body', 'full');
+  const excluded = cycleFilterOption(included, 'body', 'full');
+  const off = cycleFilterOption(excluded, 'body', 'full');
+
+  expect(included.body).toEqual(['full']);
+  expect(excluded.body).toEqual([]);
+  expect(excluded.excluded?.body).toEqual(['full']);
+  expect(off.body).toEqual([]);
+  expect(off.excluded?.body).toEqual([]);
+
+  const dbFilter = await convertToDBFilter(excluded);
+  expect(dbFilter.body).toBeUndefined();
+  expect(dbFilter.exclude).toEqual({ body: ['full'] });
+});
+
+test('a colour named in the app language filters the deck before the reference data has loaded', async () => {
+  const dbFilter = await convertToDBFilter({ ...createDefaultFilter(), color: ['Weiss'] });
+  const { wines } = await fetchWines(dbFilter);
+
+  expect(referenceIds(wines)).toEqual(['W-001']);
+});
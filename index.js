@@ -5,5 +5,9 @@
 import { AppRegistry } from 'react-native';
 import App from './App';
 import { name as appName } from './app.json';
+import { DATA_BACKEND, OFFLINE_FIRST } from './src/lib/dataBackend';
+import { configureRepositories } from './src/services/repositories';
+
+configureRepositories(DATA_BACKEND, { offlineFirst: OFFLINE_FIRST });
 
 AppRegistry.registerComponent(appName, () => App);
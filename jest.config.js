@@ -4,4 +4,5 @@ module.exports = {
     'node_modules/(?!(react-native|@react-native|react-native-url-polyfill|@supabase|react-native-touch-id|react-native-keychain|react-native-safe-area-context)/)',
   ],
   setupFilesAfterEnv: ['<rootDir>/jest.setup.js'],
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/support/'],
 };
@@ -1,4 +1,5 @@
 // Jest setup file
+/* eslint-env jest */
 
 // Mock react-native-url-polyfill
 jest.mock('react-native-url-polyfill/auto', () => {});
@@ -52,4 +53,19 @@ jest.mock('react-native-keychain', () => ({
   setInternetCredentials: jest.fn(() => Promise.resolve()),
   getInternetCredentials: jest.fn(() => Promise.resolve({ username: 'test', password: 'test' })),
   resetInternetCredentials: jest.fn(() => Promise.resolve()),
-}));
\ No newline at end of file
+}));
+// Mock AsyncStorage with the in-memory mock shipped by the package
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Mock react-native-fs (image cache) - the cache directory starts empty
+jest.mock('react-native-fs', () => ({
+  CachesDirectoryPath: '/tmp/caches',
+  mkdir: jest.fn(() => Promise.resolve()),
+  readDir: jest.fn(() => Promise.resolve([])),
+  exists: jest.fn(() => Promise.resolve(false)),
+  unlink: jest.fn(() => Promise.resolve()),
+  moveFile: jest.fn(() => Promise.resolve()),
+  downloadFile: jest.fn(() => ({ jobId: 1, promise: Promise.resolve({ jobId: 1, statusCode: 200, bytesWritten: 0 }) })),
+}));
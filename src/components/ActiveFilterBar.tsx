@@ -0,0 +1,79 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { FilterChip } from '../utils/filterSummary';
+import { i18n } from '../utils/i18n';
+
+interface ActiveFilterBarProps {
+  chips: FilterChip[];
+  onRemove: (chip: FilterChip) => void;
+}
+
+/**
+ * Constraints of the active filter as chips below the header
+ * A tap removes the constraint, excluded values are struck through. Nothing
+ * is shown while the filter matches every wine.
+ */
+const ActiveFilterBar: React.FC<ActiveFilterBarProps> = ({ chips, onRemove }) => {
+  if (chips.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {chips.map(chip => (
+          <TouchableOpacity
+            key={chip.key}
+            style={styles.chip}
+            onPress={() => onRemove(chip)}
+            accessibilityRole="button"
+            accessibilityLabel={`${i18n.t('ui.clearFilterChip')}: ${chip.label}`}
+          >
+            <Text style={[styles.chipText, chip.excluded && styles.excludedText]} numberOfLines={1}>
+              {chip.label}
+            </Text>
+            <Text style={styles.removeIcon}>✕</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f8f9fa',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  chips: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#721c24',
+    maxWidth: 220,
+  },
+  chipText: {
+    flexShrink: 1,
+    fontSize: 13,
+    color: '#721c24',
+    fontWeight: '500',
+  },
+  excludedText: {
+    textDecorationLine: 'line-through',
+  },
+  removeIcon: {
+    fontSize: 11,
+    color: '#721c24',
+  },
+});
+
+export default ActiveFilterBar;
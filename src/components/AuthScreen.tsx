@@ -16,6 +16,9 @@ import TouchID from 'react-native-touch-id';
 import * as Keychain from 'react-native-keychain';
 import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
 import { supabase } from '../lib/supabase';
+import { i18n } from '../utils/i18n';
+
+const MIN_PASSWORD_LENGTH = 6;
 
 interface AuthScreenProps {
   onAuthSuccess?: () => void;
@@ -66,14 +69,14 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
   const showBiometricPrompt = async () => {
     try {
-      const biometricResult = await TouchID.authenticate('Authentifizieren Sie sich mit Face ID', {
-        title: 'Winder Login',
+      const biometricResult = await TouchID.authenticate(i18n.t('auth.biometricPrompt'), {
+        title: i18n.t('auth.biometricTitle'),
         imageColor: '#8B0000',
         imageErrorColor: '#ff0000',
-        sensorDescription: 'Touch sensor',
-        sensorErrorDescription: 'Failed',
-        cancelText: 'Abbrechen',
-        fallbackLabel: 'Passwort verwenden',
+        sensorDescription: i18n.t('auth.biometricSensor'),
+        sensorErrorDescription: i18n.t('auth.biometricFailed'),
+        cancelText: i18n.t('ui.cancel'),
+        fallbackLabel: i18n.t('auth.usePassword'),
         unifiedErrors: false,
         passcodeFallback: false,
       });
@@ -88,7 +91,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
             onAuthSuccess?.();
           } catch (authError) {
             console.error('Auto-login failed:', authError);
-            Alert.alert('Fehler', 'Automatischer Login fehlgeschlagen');
+            Alert.alert(i18n.t('common.error'), i18n.t('auth.autoLoginFailed'));
           } finally {
             setLoading(false);
           }
@@ -101,17 +104,17 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
   const handleAuth = async () => {
     if (!email || !password) {
-      Alert.alert('Fehler', 'Bitte füllen Sie alle Felder aus');
+      Alert.alert(i18n.t('common.error'), i18n.t('auth.fillAllFields'));
       return;
     }
 
     if (!isLogin && password !== confirmPassword) {
-      Alert.alert('Fehler', 'Passwörter stimmen nicht überein');
+      Alert.alert(i18n.t('common.error'), i18n.t('auth.passwordsDontMatch'));
       return;
     }
 
-    if (!isLogin && password.length < 6) {
-      Alert.alert('Fehler', 'Passwort muss mindestens 6 Zeichen lang sein');
+    if (!isLogin && password.length < MIN_PASSWORD_LENGTH) {
+      Alert.alert(i18n.t('common.error'), i18n.t('auth.passwordTooShort', { count: MIN_PASSWORD_LENGTH }));
       return;
     }
 
@@ -130,23 +133,23 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
       } else {
         await signUp(email, password);
         Alert.alert(
-          'Registrierung erfolgreich',
-          'Bitte überprüfen Sie Ihre E-Mail für den Bestätigungslink.',
-          [{ text: 'OK', onPress: () => setIsLogin(true) }]
+          i18n.t('auth.signUpSuccessTitle'),
+          i18n.t('auth.signUpSuccessMessage'),
+          [{ text: i18n.t('common.ok'), onPress: () => setIsLogin(true) }]
         );
       }
     } catch (error: any) {
-      let errorMessage = 'Ein Fehler ist aufgetreten';
+      let errorMessage = i18n.t('auth.genericError');
       
       if (error.message?.includes('Invalid login credentials')) {
-        errorMessage = 'Ungültige Anmeldedaten';
+        errorMessage = i18n.t('auth.invalidCredentials');
       } else if (error.message?.includes('User already registered')) {
-        errorMessage = 'Benutzer bereits registriert';
+        errorMessage = i18n.t('auth.alreadyRegistered');
       } else if (error.message?.includes('Email not confirmed')) {
-        errorMessage = 'E-Mail noch nicht bestätigt';
+        errorMessage = i18n.t('auth.emailNotConfirmed');
       }
       
-      Alert.alert('Fehler', errorMessage);
+      Alert.alert(i18n.t('common.error'), errorMessage);
     } finally {
       setLoading(false);
     }
@@ -154,7 +157,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
   const sendMagicLink = async () => {
     if (!email) {
-      Alert.alert('Fehler', 'Bitte geben Sie Ihre E-Mail-Adresse ein');
+      Alert.alert(i18n.t('common.error'), i18n.t('auth.enterEmail'));
       return;
     }
 
@@ -171,11 +174,11 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
       if (error) throw error;
 
       Alert.alert(
-        'Magic Link gesendet',
-        'Überprüfen Sie Ihre E-Mail für den Login-Link'
+        i18n.t('auth.magicLinkSentTitle'),
+        i18n.t('auth.magicLinkSentMessage')
       );
     } catch (error: any) {
-      Alert.alert('Fehler', error.message || 'Magic Link konnte nicht gesendet werden');
+      Alert.alert(i18n.t('common.error'), error.message || i18n.t('auth.magicLinkFailed'));
     } finally {
       setLoading(false);
     }
@@ -184,11 +187,11 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
   const getBiometricButtonText = () => {
     switch (biometricType) {
       case 'FaceID':
-        return '🪪 Mit Face ID anmelden';
+        return `🪪 ${i18n.t('auth.signInWithFaceId')}`;
       case 'TouchID':
-        return '👆 Mit Touch ID anmelden';
+        return `👆 ${i18n.t('auth.signInWithTouchId')}`;
       default:
-        return '🔐 Mit Biometrie anmelden';
+        return `🔐 ${i18n.t('auth.signInWithBiometrics')}`;
     }
   };
 
@@ -205,7 +208,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
           <Text style={styles.logo}>🍷</Text>
           <Text style={styles.title}>Winder</Text>
           <Text style={styles.subtitle}>
-            Entdecken Sie Ihre perfekten Weine
+            {i18n.t('auth.tagline')}
           </Text>
         </View>
 
@@ -216,7 +219,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
               onPress={() => setIsLogin(true)}
             >
               <Text style={[styles.tabText, isLogin && styles.activeTabText]}>
-                Anmelden
+                {i18n.t('auth.signIn')}
               </Text>
             </TouchableOpacity>
             <TouchableOpacity
@@ -224,7 +227,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
               onPress={() => setIsLogin(false)}
             >
               <Text style={[styles.tabText, !isLogin && styles.activeTabText]}>
-                Registrieren
+                {i18n.t('auth.signUp')}
               </Text>
             </TouchableOpacity>
           </View>
@@ -232,7 +235,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
           <View style={styles.inputContainer}>
             <TextInput
               style={styles.input}
-              placeholder="E-Mail-Adresse"
+              placeholder={i18n.t('auth.email')}
               value={email}
               onChangeText={setEmail}
               keyboardType="email-address"
@@ -242,7 +245,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
             <TextInput
               style={styles.input}
-              placeholder="Passwort"
+              placeholder={i18n.t('auth.password')}
               value={password}
               onChangeText={setPassword}
               secureTextEntry
@@ -252,7 +255,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
             {!isLogin && (
               <TextInput
                 style={styles.input}
-                placeholder="Passwort bestätigen"
+                placeholder={i18n.t('auth.confirmPassword')}
                 value={confirmPassword}
                 onChangeText={setConfirmPassword}
                 secureTextEntry
@@ -270,7 +273,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
               <ActivityIndicator color="white" />
             ) : (
               <Text style={styles.primaryButtonText}>
-                {isLogin ? 'Anmelden' : 'Registrieren'}
+                {isLogin ? i18n.t('auth.signIn') : i18n.t('auth.signUp')}
               </Text>
             )}
           </TouchableOpacity>
@@ -283,7 +286,7 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
                 disabled={loading}
               >
                 <Text style={styles.secondaryButtonText}>
-                  🔗 Magic Link senden
+                  🔗 {i18n.t('auth.sendMagicLink')}
                 </Text>
               </TouchableOpacity>
 
@@ -304,15 +307,12 @@ export const AuthScreen: React.FC<AuthScreenProps> = ({ onAuthSuccess }) => {
 
         <View style={styles.footer}>
           <Text style={styles.footerText}>
-            {isLogin 
-              ? 'Noch kein Konto? ' 
-              : 'Bereits ein Konto? '
-            }
+            {isLogin ? i18n.t('auth.noAccount') : i18n.t('auth.haveAccount')}
             <Text 
               style={styles.linkText}
               onPress={() => setIsLogin(!isLogin)}
             >
-              {isLogin ? 'Registrieren' : 'Anmelden'}
+              {isLogin ? i18n.t('auth.signUp') : i18n.t('auth.signIn')}
             </Text>
           </Text>
         </View>
@@ -0,0 +1,118 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { WineGrape } from '../types';
+import { i18n } from '../utils/i18n';
+
+interface BlendBarProps {
+  grapes: WineGrape[];
+}
+
+// Segment colours, in blend order
+const SEGMENT_COLORS = ['#721c24', '#b03a48', '#d4770b', '#8e9b3a', '#4a6fa5', '#7d5ba6', '#95a5a6'];
+
+/**
+ * Width of each grape's segment - grapes without a known share split what the others leave
+ */
+const segmentWeights = (grapes: WineGrape[]): number[] => {
+  const knownTotal = grapes.reduce((sum, grape) => sum + (grape.percentage ?? 0), 0);
+  const unknownCount = grapes.filter(grape => grape.percentage === null).length;
+  const unknownShare = unknownCount > 0 ? Math.max(100 - knownTotal, unknownCount) / unknownCount : 0;
+
+  return grapes.map(grape => grape.percentage ?? unknownShare);
+};
+
+/**
+ * Blend of a wine as a stacked bar with a legend of grapes and their shares
+ * Renders nothing for wines without grapes
+ */
+const BlendBar: React.FC<BlendBarProps> = ({ grapes }) => {
+  if (grapes.length === 0) {
+    return null;
+  }
+
+  const weights = segmentWeights(grapes);
+  const colorAt = (index: number) => SEGMENT_COLORS[index % SEGMENT_COLORS.length];
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{i18n.t('ui.grapeBlend')}</Text>
+
+      <View style={styles.bar}>
+        {grapes.map((grape, index) => (
+          <View
+            key={grape.name}
+            style={[
+              styles.segment,
+              { flex: weights[index], backgroundColor: colorAt(index) },
+              grape.percentage === null && styles.unknownSegment,
+            ]}
+          />
+        ))}
+      </View>
+
+      <View style={styles.legend}>
+        {grapes.map((grape, index) => (
+          <View key={grape.name} style={styles.legendItem}>
+            <View style={[styles.swatch, { backgroundColor: colorAt(index) }]} />
+            <Text style={styles.legendText}>
+              {grape.name}{' '}
+              <Text style={styles.share}>
+                {grape.percentage !== null ? `${grape.percentage}%` : i18n.t('ui.grapeShareUnknown')}
+              </Text>
+            </Text>
+          </View>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#34495e',
+    marginBottom: 6,
+  },
+  bar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    backgroundColor: '#ecf0f1',
+  },
+  segment: {
+    height: '100%',
+  },
+  unknownSegment: {
+    opacity: 0.5,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: 8,
+    gap: 12,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  swatch: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+  legendText: {
+    fontSize: 13,
+    color: '#2c3e50',
+  },
+  share: {
+    color: '#7f8c8d',
+  },
+});
+
+export default BlendBar;
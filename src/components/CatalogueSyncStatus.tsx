@@ -0,0 +1,65 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useCatalogueSync } from '../hooks/useCatalogueSync';
+import { i18n } from '../utils/i18n';
+
+/**
+ * "Last synced" line of the local wine catalogue with a button to sync now
+ * Renders nothing when the backend has no local catalogue
+ */
+const CatalogueSyncStatus: React.FC = () => {
+  const { enabled, syncing, lastSyncedAt, error, syncNow } = useCatalogueSync();
+
+  if (!enabled) {
+    return null;
+  }
+
+  let label = i18n.t('ui.catalogueNeverSynced');
+  if (syncing) {
+    label = i18n.t('ui.catalogueSyncing');
+  } else if (error) {
+    label = i18n.t('ui.catalogueSyncFailed');
+  } else if (lastSyncedAt) {
+    label = `${i18n.t('ui.catalogueLastSynced')}: ${new Date(lastSyncedAt).toLocaleString(i18n.getCurrentLanguage())}`;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={[styles.label, error && !syncing ? styles.errorLabel : null]}>{label}</Text>
+      <TouchableOpacity onPress={syncNow} disabled={syncing} hitSlop={8}>
+        <Text style={[styles.syncButton, syncing && styles.syncButtonDisabled]}>
+          {i18n.t('ui.catalogueSyncNow')}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    paddingHorizontal: 4,
+    gap: 12,
+  },
+  label: {
+    flex: 1,
+    fontSize: 13,
+    color: '#666',
+  },
+  errorLabel: {
+    color: '#B00020',
+  },
+  syncButton: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#721C24',
+  },
+  syncButtonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default CatalogueSyncStatus;
@@ -2,33 +2,57 @@ import React, { useState, useEffect } from 'react';
 import {
   Modal,
   ScrollView,
+  Share,
   StyleSheet,
+  Text,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { WineFilter } from '../types';
-import { createDefaultFilter } from '../utils/filterUtils';
+import { FilterPreset, OptionFilterCategory, WineFilter } from '../types';
+import { createDefaultFilter, cycleFilterOption, localizeFilter } from '../utils/filterUtils';
+import { toggleRegionExclusion, toggleRegionNode } from '../utils/regionTree';
+import { i18n, Language } from '../utils/i18n';
+import { buildDeepLink } from '../utils/deepLinks';
 
 // Import filter options service
 import { 
   getAllFilterOptions, 
-  fetchCountryOptions
+  fetchRegionTree,
+  fetchVintageBounds,
+  fetchPriceDistribution,
+  RegionNode
 } from '../services/filterOptionsService';
+import { countsForOptions } from '../services/facetCountService';
+import type { NumberRange, PriceDistribution } from '../services/repositories';
 
 // Import filter components
 import FilterHeader from './filters/FilterHeader';
 import FilterActions from './filters/FilterActions';
+import FilterPreview from './filters/FilterPreview';
+import FilterPresetBar from './filters/FilterPresetBar';
 import GrapeFilter from './filters/GrapeFilter';
-import CountryFilter from './filters/CountryFilter';
+import GrapeBlendFilter from './filters/GrapeBlendFilter';
+import VintageFilter from './filters/VintageFilter';
+import PriceRangeFilter from './PriceRangeFilter';
+import CurrencySelector from './filters/CurrencySelector';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
+import { useLanguage } from '../hooks/useLanguage';
+import { useFilterPreview } from '../hooks/useFilterPreview';
+import { useFilterPresets } from '../hooks/useFilterPresets';
+import HierarchicalRegionFilter from './filters/HierarchicalRegionFilter';
 import WineTypeFilter from './filters/WineTypeFilter';
 import CharacteristicFilter from './filters/CharacteristicFilter';
+import SensoryProfileFilter from './filters/SensoryProfileFilter';
+import DeckOrderSelector from './filters/DeckOrderSelector';
 import CollapsibleCard from './filters/CollapsibleCard';
 import ProducerFilter from './filters/ProducerFilter';
+import CatalogueSyncStatus from './CatalogueSyncStatus';
 
 interface FilterMenuProps {
   isVisible: boolean;
   onClose: () => void;
   currentFilter: WineFilter;
   onFilterChange: (filter: WineFilter) => void;
+  userId?: string;  // Owner of the presets, seeds the random order of the preview like the deck
 }
 
 const FilterMenu: React.FC<FilterMenuProps> = ({
@@ -36,12 +60,11 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
   onClose,
   currentFilter,
   onFilterChange,
+  userId,
 }) => {
   const [filter, setFilter] = useState<WineFilter>({ ...currentFilter });
   const [filterOptions, setFilterOptions] = useState<Record<string, string[]>>({
     grape: [],
-    country: [],
-    region: [],
     wineType: [],
     color: [],
     sweetness: [],      // ADD - wie Web App
@@ -50,8 +73,16 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
     alcohol: [],
     price: []           // ADD - wie Web App
   });
-  const [countryLabels, setCountryLabels] = useState<Record<string, string>>({});
-  const [hasLoadedOptions, setHasLoadedOptions] = useState(false); // Track if we've loaded options
+  const [regionTree, setRegionTree] = useState<RegionNode[] | null>(null);
+  const [vintageBounds, setVintageBounds] = useState<NumberRange | null>(null);
+  const [priceDistribution, setPriceDistribution] = useState<PriceDistribution | null>(null);
+  const [displayCurrency, setDisplayCurrency] = useDisplayCurrency();
+  const [language] = useLanguage();
+  const [loadedLanguage, setLoadedLanguage] = useState<Language | null>(null); // Language the options were loaded in
+  // Live count, preview and counts per option of the filter being edited
+  const preview = useFilterPreview(filter, isVisible, userId);
+  const { facetCounts } = preview;
+  const presets = useFilterPresets(userId, isVisible);
 
   // Update local filter when currentFilter changes
   useEffect(() => {
@@ -63,28 +94,18 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
     const loadFilterOptions = async () => {
       
       try {
-        // Load dynamic options and countries in parallel
-        const [dynamicOptions, countries] = await Promise.all([
-          getAllFilterOptions('de'),
-          fetchCountryOptions('de')
+        // Load dynamic options and the region tree in parallel
+        const [dynamicOptions, tree, bounds] = await Promise.all([
+          getAllFilterOptions(language),
+          // Without the tree only the origin filter is empty
+          fetchRegionTree(language).catch(() => []),
+          // Without bounds only the vintage slider is missing
+          fetchVintageBounds().catch(() => null)
         ]);
-
-        // Extract country codes and create label mapping
-        const countryCodes = countries
-          .map(c => c.country_code.toUpperCase())
-          .filter((code): code is string => code.length > 0);
-        
-        const labelMap = countries.reduce<Record<string, string>>((acc, country) => {
-          const code = country.country_code.toUpperCase();
-          acc[code] = country.name;
-          return acc;
-        }, {});
         
         // Update filter options with database values
         const newFilterOptions = {
           grape: dynamicOptions.grape,
-          country: countryCodes,
-          region: [],
           wineType: dynamicOptions.wineType,
           color: dynamicOptions.color,
           sweetness: dynamicOptions.sweetness,
@@ -95,25 +116,59 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
         };
         
         setFilterOptions(newFilterOptions);
-        setCountryLabels(labelMap);
-        setHasLoadedOptions(true);
+        setRegionTree(tree);
+        setVintageBounds(bounds);
+        setLoadedLanguage(language);
       } catch (error) {
         console.error('FilterMenu: Failed to load filter options:', error);
         throw error;
       }
     };
 
-    // Load options when visible AND not yet loaded
-    if (isVisible && !hasLoadedOptions) {
+    // Load options when visible AND not yet loaded in the app language
+    if (isVisible && loadedLanguage !== language) {
       loadFilterOptions();
     }
-  }, [isVisible, hasLoadedOptions]);
+  }, [isVisible, loadedLanguage, language]);
+
+  // Price histogram in the display currency - reloaded when the currency changes
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let active = true;
+    setPriceDistribution(null);
+    fetchPriceDistribution(displayCurrency)
+      .then(distribution => {
+        if (active) setPriceDistribution(distribution);
+      })
+      .catch(() => {
+        // Without a distribution only the price slider is missing
+      });
+    return () => {
+      active = false;
+    };
+  }, [isVisible, displayCurrency]);
 
   const handleApplyFilter = () => {
     onFilterChange(filter);
     onClose();
   };
 
+  // A preset is applied right away, like picking it from a menu - its wine types
+  // and colors may be named in the language it was saved in
+  const handleApplyPreset = (preset: FilterPreset) => {
+    const presetFilter = localizeFilter(preset.filter, language);
+    setFilter(presetFilter);
+    onFilterChange(presetFilter);
+    onClose();
+  };
+
+  // The filter being edited, so it can be shared before applying it
+  const handleShare = () => {
+    Share.share({ message: buildDeepLink({ route: 'deck', filter }) })
+      .catch(error => console.error('FilterMenu: Failed to share filter:', error));
+  };
+
   const handleReset = () => {
     const resetFilter = createDefaultFilter();
     setFilter(resetFilter);
@@ -125,23 +180,9 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
 
 
 
-  // Handle new-style filter toggles (exactly like Web App)
-  const handleToggleOption = (
-    category: keyof Pick<WineFilter, 'grape' | 'country' | 'region' | 'wineType' | 'color' | 'sweetness' | 'productionType' | 'unit' | 'alcohol' | 'price'>, 
-    value: string
-  ) => {
-    setFilter(prev => {
-      const updated = { ...prev };
-      const currentArray = updated[category] || [];
-      
-      if (currentArray.includes(value)) {
-        updated[category] = currentArray.filter((item: string) => item !== value) as any;
-      } else {
-        updated[category] = [...currentArray, value] as any;
-      }
-      
-      return updated;
-    });
+  // Options cycle through not selected -> included -> excluded
+  const handleToggleOption = (category: OptionFilterCategory, value: string) => {
+    setFilter(prev => cycleFilterOption(prev, category, value));
   };
 
   return (
@@ -152,94 +193,179 @@ const FilterMenu: React.FC<FilterMenuProps> = ({
       onRequestClose={onClose}
     >
       <SafeAreaView style={styles.container}>
-        <FilterHeader onClose={onClose} />
+        <FilterHeader onClose={onClose} onShare={handleShare} />
         
         <ScrollView 
           style={{ flex: 1 }}
           contentContainerStyle={{ padding: 16, paddingBottom: 120 }}
           showsVerticalScrollIndicator={true}
         >
+          {/* Saved filters */}
+          <FilterPresetBar
+            presets={presets.presets}
+            onApply={handleApplyPreset}
+            onSave={(name) => presets.savePreset(name, filter)}
+            onRename={(preset, name) => presets.renamePreset(preset.id, name)}
+            onDelete={(preset) => presets.deletePreset(preset.id)}
+            onMove={(preset, offset) => presets.movePreset(preset.id, offset)}
+            onToggleDefault={(preset) => presets.setDefaultPreset(preset.isDefault ? null : preset.id)}
+          />
+
           {/* NEW: COLLAPSIBLE CARD LAYOUT */}
+          <Text style={styles.hint}>{i18n.t('ui.filterOptionHint')}</Text>
+          
+          {/* Deck Order */}
+          <CollapsibleCard title={i18n.t('ui.deckOrder')} defaultExpanded={false}>
+            <DeckOrderSelector
+              order={filter.order}
+              onOrderChange={(order) => setFilter(prev => ({ ...prev, order }))}
+            />
+          </CollapsibleCard>
           
           {/* Grape Filter */}
-          <CollapsibleCard title={`Grapes (${filterOptions.grape.length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.grapes')} (${filterOptions.grape.length})`} defaultExpanded={false}>
             <GrapeFilter
               options={filterOptions.grape}
               selectedOptions={filter.grape || []}
+              excludedOptions={filter.excluded?.grape}
+              counts={countsForOptions(facetCounts, 'grape', filterOptions.grape)}
               onToggleOption={(value) => handleToggleOption('grape', value)}
             />
+            <GrapeBlendFilter
+              selectedGrapeCount={(filter.grape || []).length}
+              grapeMatch={filter.grapeMatch}
+              minShare={filter.grapeMinShare}
+              singleVarietal={filter.singleVarietal}
+              onGrapeMatchChange={(grapeMatch) => setFilter(prev => ({ ...prev, grapeMatch }))}
+              onMinShareChange={(grapeMinShare) => setFilter(prev => ({ ...prev, grapeMinShare }))}
+              onSingleVarietalChange={(singleVarietal) => setFilter(prev => ({ ...prev, singleVarietal }))}
+            />
           </CollapsibleCard>
           
-          {/* Country Filter */}
-          <CollapsibleCard title={`Countries (${(filterOptions.country || []).length})`} defaultExpanded={false}>
-            <CountryFilter
-              options={filterOptions.country || []}
-              selectedOptions={filter.country || []}
-              onToggleOption={(value) => handleToggleOption('country', value)}
-              labelMap={countryLabels}
+          {/* Origin Filter - countries, regions and sub-regions */}
+          <CollapsibleCard title={`${i18n.t('ui.origin')} (${(regionTree || []).length})`} defaultExpanded={false}>
+            <HierarchicalRegionFilter
+              tree={regionTree}
+              selection={filter}
+              counts={facetCounts}
+              onToggleNode={(node, ancestors) => setFilter(prev => toggleRegionNode(prev, node, ancestors))}
+              onToggleExcluded={(node, ancestors) => setFilter(prev => toggleRegionExclusion(prev, node, ancestors))}
             />
           </CollapsibleCard>
           
           {/* Producer Filter */}
-          <CollapsibleCard title={`Produzenten (${(filter.producer || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.producers')} (${(filter.producer || []).length})`} defaultExpanded={false}>
             <ProducerFilter
               selectedProducerIds={filter.producer || []}
-              onProducersChange={(producerIds) => {
-                setFilter(prev => ({ ...prev, producer: producerIds }));
+              excludedProducerIds={filter.excluded?.producer || []}
+              onProducersChange={(producerIds, excludedProducerIds) => {
+                setFilter(prev => ({
+                  ...prev,
+                  producer: producerIds,
+                  excluded: { ...prev.excluded, producer: excludedProducerIds },
+                }));
               }}
             />
           </CollapsibleCard>
           
+          {/* Vintage Filter */}
+          <CollapsibleCard title={i18n.t('filters.vintage')} defaultExpanded={false}>
+            <VintageFilter
+              bounds={vintageBounds}
+              vintageRange={filter.vintageRange}
+              includeNonVintage={filter.includeNonVintage}
+              onVintageRangeChange={(vintageRange) => setFilter(prev => ({ ...prev, vintageRange }))}
+              onIncludeNonVintageChange={(includeNonVintage) => setFilter(prev => ({ ...prev, includeNonVintage }))}
+            />
+          </CollapsibleCard>
+          
           {/* Wine Type Filter */}
-          <CollapsibleCard title={`Wine Types (${(filterOptions.wineType || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.wineTypes')} (${(filterOptions.wineType || []).length})`} defaultExpanded={false}>
             <WineTypeFilter
               options={filterOptions.wineType || []}
               selectedOptions={filter.wineType || []}
+              excludedOptions={filter.excluded?.wineType}
+              counts={countsForOptions(facetCounts, 'wineType', filterOptions.wineType || [])}
               onToggleOption={(value) => handleToggleOption('wineType', value)}
             />
           </CollapsibleCard>
           
           {/* Color Filter */}
-          <CollapsibleCard title={`Colors (${(filterOptions.color || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.colors')} (${(filterOptions.color || []).length})`} defaultExpanded={false}>
             <CharacteristicFilter
               type="color"
               options={filterOptions.color || []}
               selectedOptions={filter.color || []}
+              excludedOptions={filter.excluded?.color}
+              counts={countsForOptions(facetCounts, 'color', filterOptions.color || [])}
               onToggleOption={(value) => handleToggleOption('color', value)}
             />
           </CollapsibleCard>
           
           {/* Sweetness Filter */}
-          <CollapsibleCard title={`Sweetness (${(filterOptions.sweetness || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.sweetness')} (${(filterOptions.sweetness || []).length})`} defaultExpanded={false}>
             <CharacteristicFilter
               type="sweetness"
               options={filterOptions.sweetness || []}
               selectedOptions={filter.sweetness || []}
+              excludedOptions={filter.excluded?.sweetness}
+              counts={countsForOptions(facetCounts, 'sweetness', filterOptions.sweetness || [])}
               onToggleOption={(value) => handleToggleOption('sweetness', value)}
             />
           </CollapsibleCard>
           
+          {/* Sensory Profile Filter */}
+          <CollapsibleCard
+            title={`${i18n.t('filters.profile')} (${(filter.body || []).length + (filter.acidity || []).length + (filter.tannin || []).length})`}
+            defaultExpanded={false}
+          >
+            <SensoryProfileFilter
+              body={filter.body || []}
+              acidity={filter.acidity || []}
+              tannin={filter.tannin || []}
+              excluded={filter.excluded || {}}
+              counts={facetCounts}
+              onToggleOption={handleToggleOption}
+            />
+          </CollapsibleCard>
+          
           {/* Alcohol Filter */}
-          <CollapsibleCard title={`Alcohol (${(filterOptions.alcohol || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.alcohol')} (${(filterOptions.alcohol || []).length})`} defaultExpanded={false}>
             <CharacteristicFilter
               type="alcohol"
               options={filterOptions.alcohol || []}
               selectedOptions={filter.alcohol || []}
+              excludedOptions={filter.excluded?.alcohol}
+              counts={countsForOptions(facetCounts, 'alcohol', filterOptions.alcohol || [])}
               onToggleOption={(value) => handleToggleOption('alcohol', value)}
             />
           </CollapsibleCard>
           
           {/* Price Filter */}
-          <CollapsibleCard title={`Price (${(filterOptions.price || []).length})`} defaultExpanded={false}>
+          <CollapsibleCard title={`${i18n.t('filters.price')} (${(filterOptions.price || []).length})`} defaultExpanded={false}>
+            <CurrencySelector currency={displayCurrency} onCurrencyChange={setDisplayCurrency} />
+            <PriceRangeFilter
+              distribution={priceDistribution}
+              currency={displayCurrency}
+              priceRange={filter.priceRange}
+              priceCurrency={filter.priceCurrency}
+              onPriceRangeChange={(priceRange, priceCurrency) => setFilter(prev => ({ ...prev, priceRange, priceCurrency }))}
+            />
             <CharacteristicFilter
               type="price"
               options={filterOptions.price || []}
               selectedOptions={filter.price || []}
+              excludedOptions={filter.excluded?.price}
+              counts={countsForOptions(facetCounts, 'price', filterOptions.price || [])}
               onToggleOption={(value) => handleToggleOption('price', value)}
             />
           </CollapsibleCard>
+
+          <CatalogueSyncStatus />
         </ScrollView>
 
+        <FilterPreview count={preview.count} wines={preview.wines} loading={preview.loading} />
+
         <FilterActions
           onReset={handleReset}
           onApply={handleApplyFilter}
@@ -261,6 +387,12 @@ const styles = StyleSheet.create({
   bottomPadding: {
     height: 100,
   },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontStyle: 'italic',
+    marginBottom: 12,
+  },
 });
 
 export default FilterMenu;
\ No newline at end of file
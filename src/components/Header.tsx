@@ -1,9 +1,12 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { i18n } from '../utils/i18n';
 
 interface HeaderProps {
   onOpenFilter: () => void;
+  onOpenSearch?: () => void;
+  onOpenSettings?: () => void;
   onLogout?: () => void;
   onLogin?: () => void;
   filterCount?: number;
@@ -12,6 +15,8 @@ interface HeaderProps {
 
 const Header: React.FC<HeaderProps> = ({ 
   onOpenFilter, 
+  onOpenSearch,
+  onOpenSettings,
   onLogout, 
   onLogin, 
   filterCount = 0,
@@ -38,7 +43,25 @@ const Header: React.FC<HeaderProps> = ({
               style={styles.loginButton} 
               onPress={onLogin}
             >
-              <Text style={styles.loginText}>Login</Text>
+              <Text style={styles.loginText}>{i18n.t('auth.signIn')}</Text>
+            </TouchableOpacity>
+          )}
+          
+          {onOpenSettings && (
+            <TouchableOpacity 
+              style={styles.settingsButton} 
+              onPress={onOpenSettings}
+            >
+              <Text style={styles.settingsIcon}>⚙</Text>
+            </TouchableOpacity>
+          )}
+          
+          {onOpenSearch && (
+            <TouchableOpacity 
+              style={styles.searchButton} 
+              onPress={onOpenSearch}
+            >
+              <Text style={styles.searchIcon}>⌕</Text>
             </TouchableOpacity>
           )}
           
@@ -107,6 +130,30 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  settingsButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  settingsIcon: {
+    fontSize: 18,
+    color: '#fff',
+  },
+  searchButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  searchIcon: {
+    fontSize: 20,
+    color: '#fff',
+  },
   filterButton: {
     width: 36,
     height: 36,
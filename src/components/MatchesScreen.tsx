@@ -3,7 +3,6 @@ import {
   View,
   Text,
   FlatList,
-  Image,
   StyleSheet,
   TouchableOpacity,
   Dimensions,
@@ -13,7 +12,9 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Wine } from '../types';
 import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
 import { userPreferenceService } from '../services/userPreferenceService';
+import { currencyService } from '../services/currencyService';
 import { i18n } from '../utils/i18n';
+import WineImage from './WineImage';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 
@@ -63,11 +64,18 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
     const sampleWines: Wine[] = [
       {
         id: '1',
+        reference_id: '1',
+        uuid: '1',
         name: 'Château Margaux 2015',
         vintage: 2015,
         price: 450.00,
+        price_currency: 'CHF',
         region: 'Bordeaux, France',
         grape_variety: 'Cabernet Sauvignon, Merlot',
+        grapes: [
+          { name: 'Cabernet Sauvignon', percentage: 90 },
+          { name: 'Merlot', percentage: 10 },
+        ],
         description: 'Ein außergewöhnlicher Bordeaux mit komplexen Aromen.',
         image_url: 'https://images.unsplash.com/photo-1506377247377-2a5b3b417ebb?w=400&h=600&fit=crop',
         wine_tags: ['Premium', 'Sammlerwein', 'Lagerfähig'],
@@ -80,11 +88,18 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
       },
       {
         id: '2',
+        reference_id: '2',
+        uuid: '2',
         name: 'Dom Pérignon 2012',
         vintage: 2012,
         price: 180.00,
+        price_currency: 'CHF',
         region: 'Champagne, France',
         grape_variety: 'Chardonnay, Pinot Noir',
+        grapes: [
+          { name: 'Chardonnay', percentage: null },
+          { name: 'Pinot Noir', percentage: null },
+        ],
         description: 'Eleganter Champagner mit feinen Perlen.',
         image_url: 'https://images.unsplash.com/photo-1547595628-c61a29f496f0?w=400&h=600&fit=crop',
         wine_tags: ['Prestige', 'Feier', 'Elegant'],
@@ -92,6 +107,7 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
         body: 'medium',
         sweetness: 'dry',
         acidity: 'high',
+        tannin: null,
         alcohol_content: 12.5,
       }
     ];
@@ -103,13 +119,13 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
     if (!user) return;
 
     try {
-      await userPreferenceService.removeLike(user.id, wine.id);
+      await userPreferenceService.removeLike(user.id, wine);
       // Remove from local state immediately
       const updatedMatches = matches.filter(m => m.id !== wine.id);
       setMatches(updatedMatches);
     } catch (error) {
       console.error('Error removing match:', error);
-      Alert.alert('Fehler', 'Match konnte nicht entfernt werden');
+      Alert.alert(i18n.t('common.error'), i18n.t('matches.removeFailed'));
     }
   };
 
@@ -121,12 +137,18 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
       tags.push(...wine.wine_tags);
     }
     
-    // Generate tags from wine characteristics
-    tags.push(i18n.translateWineProperty('body', wine.body));
-    tags.push(i18n.translateWineProperty('sweetness', wine.sweetness));
+    // Generate tags from wine characteristics - unassessed ones are left out
+    if (wine.body) {
+      tags.push(i18n.translateWineProperty('body', wine.body));
+    }
+    if (wine.sweetness) {
+      tags.push(i18n.translateWineProperty('sweetness', wine.sweetness));
+    }
     
     // Add acidity tag
-    tags.push(i18n.translateWineProperty('acidity', wine.acidity));
+    if (wine.acidity) {
+      tags.push(i18n.translateWineProperty('acidity', wine.acidity));
+    }
     
     // Add tannin tag for red wines
     if (wine.wine_type === 'red' && wine.tannin) {
@@ -142,25 +164,9 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
   const renderMatchItem = ({ item }: { item: Wine }) => {
     const wineTags = generateWineTags(item);
     
-    // Handle different image field names and provide better fallback
-    const imageUri = item.image_url || item.image || 'https://images.unsplash.com/photo-1506377247377-2a5b3b417ebb?w=400&h=600&fit=crop';
-    
-    // Debug logging
-    console.log('Rendering wine:', item.name, 'Image URI:', imageUri);
-    
     return (
       <View style={styles.matchCard}>
-        <Image 
-          source={{ uri: imageUri }}
-          style={styles.wineImage}
-          resizeMode="cover"
-          onError={(error) => {
-            console.log('Image failed to load for wine:', item.name, 'URI:', imageUri, 'Error:', error.nativeEvent.error);
-          }}
-          onLoad={() => {
-            console.log('Image loaded successfully for wine:', item.name);
-          }}
-        />
+        <WineImage wine={item} style={styles.wineImage} resizeMode="cover" />
         
         <View style={styles.wineInfo}>
           <Text style={styles.wineName} numberOfLines={2}>{item.name}</Text>
@@ -176,7 +182,7 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
           </View>
           
           {item.price && (
-            <Text style={styles.price}>CHF {item.price.toFixed(2)}</Text>
+            <Text style={styles.price}>{currencyService.formatPrice(item.price, item.price_currency)}</Text>
           )}
           
           {item.description && (
@@ -200,7 +206,7 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
     if (loading) {
       return (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading matches...</Text>
+          <Text style={styles.loadingText}>{i18n.t('matches.loading')}</Text>
         </View>
       );
     }
@@ -208,8 +214,8 @@ export const MatchesScreen: React.FC<MatchesScreenProps> = ({ onClose }) => {
     if (matches.length === 0) {
       return (
         <View style={styles.emptyContainer}>
-          <Text style={styles.emptyText}>Keine Matches gefunden</Text>
-          <Text style={styles.emptySubtext}>Swipe weiter, um Weine zu finden die dir gefallen!</Text>
+          <Text style={styles.emptyText}>{i18n.t('matches.empty')}</Text>
+          <Text style={styles.emptySubtext}>{i18n.t('matches.emptyHint')}</Text>
         </View>
       );
     }
@@ -1,137 +1,87 @@
-import React, { useState } from 'react';
-import { View, Text, StyleSheet, TextInput } from 'react-native';
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import RangeSlider from './filters/RangeSlider';
+import type { PriceDistribution } from '../services/repositories';
+import { currencyService, CurrencyCode } from '../services/currencyService';
+import { i18n } from '../utils/i18n';
 
 interface PriceRangeFilterProps {
-  minPrice: number;
-  maxPrice: number;
-  onPriceChange: (min: number, max: number) => void;
+  distribution: PriceDistribution | null;  // Prices in the catalogue in `currency`, null while loading
+  currency: CurrencyCode;                  // Display currency
+  priceRange: [number, number] | null;
+  priceCurrency: string;                   // Currency of priceRange
+  onPriceRangeChange: (priceRange: [number, number] | null, priceCurrency: string) => void;
 }
 
+// Coarser steps for wider ranges, so the thumbs don't have to hit single francs
+const stepForRange = (range: number): number => {
+  if (range <= 100) return 1;
+  if (range <= 500) return 5;
+  return 10;
+};
+
+/**
+ * Price range slider over the catalogue's price distribution, in the display currency
+ * A range covering all prices is stored as null, so wines without a price are not hidden
+ */
 const PriceRangeFilter: React.FC<PriceRangeFilterProps> = ({
-  minPrice,
-  maxPrice,
-  onPriceChange,
+  distribution,
+  currency,
+  priceRange,
+  priceCurrency,
+  onPriceRangeChange,
 }) => {
-  const [localMinPrice, setLocalMinPrice] = useState(minPrice.toString());
-  const [localMaxPrice, setLocalMaxPrice] = useState(maxPrice.toString());
+  if (!distribution) {
+    return <Text style={styles.loadingText}>{i18n.t('filters.loadingPrices')}</Text>;
+  }
 
-  const handleMinPriceChange = (text: string) => {
-    setLocalMinPrice(text);
-    const numValue = Number.parseFloat(text) || 0;
-    onPriceChange(numValue, maxPrice);
-  };
+  const step = stepForRange(distribution.max - distribution.min);
+  const lower = Math.floor(distribution.min / step) * step;
+  const upper = Math.ceil(distribution.max / step) * step;
 
-  const handleMaxPriceChange = (text: string) => {
-    setLocalMaxPrice(text);
-    const numValue = Number.parseFloat(text) || 1000;
-    onPriceChange(minPrice, numValue);
+  const handleChange = ([from, to]: [number, number]) => {
+    onPriceRangeChange(from <= lower && to >= upper ? null : [from, to], currency);
   };
 
+  // A range picked in another currency is shown converted
+  const values: [number, number] = priceRange
+    ? [
+        Math.round(currencyService.convert(priceRange[0], priceCurrency, currency)),
+        Math.round(currencyService.convert(priceRange[1], priceCurrency, currency)),
+      ]
+    : [lower, upper];
+
   return (
     <View style={styles.container}>
-      <View style={styles.priceInputContainer}>
-        <View style={styles.inputGroup}>
-          <Text style={styles.label}>Min Price</Text>
-          <View style={styles.inputWrapper}>
-            <Text style={styles.currency}>€</Text>
-            <TextInput
-              style={styles.input}
-              value={localMinPrice}
-              onChangeText={handleMinPriceChange}
-              keyboardType="numeric"
-              placeholder="0"
-            />
-          </View>
-        </View>
-
-        <View style={styles.separator}>
-          <Text style={styles.separatorText}>—</Text>
-        </View>
-
-        <View style={styles.inputGroup}>
-          <Text style={styles.label}>Max Price</Text>
-          <View style={styles.inputWrapper}>
-            <Text style={styles.currency}>€</Text>
-            <TextInput
-              style={styles.input}
-              value={localMaxPrice}
-              onChangeText={handleMaxPriceChange}
-              keyboardType="numeric"
-              placeholder="1000"
-            />
-          </View>
-        </View>
-      </View>
-
-      <View style={styles.priceDisplay}>
-        <Text style={styles.priceDisplayText}>
-          Range: €{minPrice} - €{maxPrice}
-        </Text>
-      </View>
+      <RangeSlider
+        min={lower}
+        max={upper}
+        step={step}
+        values={values}
+        onChange={handleChange}
+        formatLabel={price => currencyService.format(price, currency)}
+        histogram={distribution.counts}
+      />
+      {!priceRange && <Text style={styles.hint}>{i18n.t('ui.priceAny')}</Text>}
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
-  },
-  priceInputContainer: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
-    gap: 12,
-  },
-  inputGroup: {
-    flex: 1,
+    gap: 8,
+    marginBottom: 16,
   },
-  label: {
+  hint: {
     fontSize: 12,
     color: '#6c757d',
-    marginBottom: 4,
-    fontWeight: '500',
+    fontStyle: 'italic',
   },
-  inputWrapper: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    backgroundColor: '#f8f9fa',
-    borderRadius: 8,
-    borderWidth: 1,
-    borderColor: '#e9ecef',
-    paddingHorizontal: 12,
-    height: 44,
-  },
-  currency: {
-    fontSize: 16,
-    color: '#495057',
-    marginRight: 4,
-    fontWeight: '500',
-  },
-  input: {
-    flex: 1,
-    fontSize: 16,
-    color: '#212529',
-    padding: 0,
-  },
-  separator: {
-    paddingBottom: 12,
-  },
-  separatorText: {
-    fontSize: 16,
-    color: '#6c757d',
-    fontWeight: '500',
-  },
-  priceDisplay: {
-    marginTop: 12,
-    padding: 8,
-    backgroundColor: '#f8f9fa',
-    borderRadius: 6,
-    alignItems: 'center',
-  },
-  priceDisplayText: {
+  loadingText: {
     fontSize: 14,
-    color: '#721c24',
-    fontWeight: '500',
+    color: '#6c757d',
+    fontStyle: 'italic',
   },
 });
 
-export default PriceRangeFilter;
\ No newline at end of file
+export default PriceRangeFilter;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import {
+  Modal,
+  View,
+  Text,
+  TextInput,
+  FlatList,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Wine } from '../types';
+import { useWineSearch } from '../hooks/useWineSearch';
+import { MIN_SEARCH_QUERY_LENGTH } from '../services/wineSearchService';
+import WineDetailScreen from './WineDetailScreen';
+import WineImage from './WineImage';
+import { i18n } from '../utils/i18n';
+
+interface SearchScreenProps {
+  isVisible: boolean;
+  onClose: () => void;
+  onAddToMatches: (wine: Wine) => Promise<void>;
+}
+
+/**
+ * Full-text wine search with paged result list
+ * Selecting a result opens its details within the same modal
+ */
+const SearchScreen: React.FC<SearchScreenProps> = ({ isVisible, onClose, onAddToMatches }) => {
+  const [query, setQuery] = useState('');
+  const [selectedWine, setSelectedWine] = useState<Wine | null>(null);
+  const { results, loading, loadingMore, hasMore, error, loadMore } = useWineSearch(query);
+
+  const handleClose = () => {
+    setSelectedWine(null);
+    onClose();
+  };
+
+  const renderResult = ({ item }: { item: Wine }) => (
+    <TouchableOpacity style={styles.resultItem} onPress={() => setSelectedWine(item)}>
+      <WineImage wine={item} style={styles.resultImage} resizeMode="contain" />
+      <View style={styles.resultInfo}>
+        <Text style={styles.resultName} numberOfLines={2}>{item.name}</Text>
+        <Text style={styles.resultDetails} numberOfLines={1}>
+          {item.vintage && item.vintage > 0 ? item.vintage : i18n.t('ui.noVintage')}
+          {item.region ? ` · ${item.region}` : ''}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.statusIndicator} color="#721c24" />;
+    }
+    if (error) {
+      return <Text style={styles.statusText}>{i18n.t('search.failed')}</Text>;
+    }
+    if (query.trim().length < MIN_SEARCH_QUERY_LENGTH) {
+      return <Text style={styles.statusText}>{i18n.t('search.prompt')}</Text>;
+    }
+    return <Text style={styles.statusText}>{i18n.t('search.noResults')}</Text>;
+  };
+
+  return (
+    <Modal
+      visible={isVisible}
+      animationType="slide"
+      presentationStyle="pageSheet"
+      onRequestClose={selectedWine ? () => setSelectedWine(null) : handleClose}
+    >
+      <SafeAreaView style={styles.container}>
+        {selectedWine ? (
+          <WineDetailScreen
+            wine={selectedWine}
+            onBack={() => setSelectedWine(null)}
+            onAddToMatches={onAddToMatches}
+          />
+        ) : (
+          <>
+            <View style={styles.header}>
+              <TouchableOpacity onPress={handleClose} style={styles.closeButton}>
+                <Text style={styles.closeButtonText}>✕</Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.searchInput}
+                value={query}
+                onChangeText={setQuery}
+                placeholder={i18n.t('search.placeholder')}
+                placeholderTextColor="#999"
+                autoFocus
+                autoCorrect={false}
+                returnKeyType="search"
+                clearButtonMode="while-editing"
+              />
+            </View>
+
+            <FlatList
+              data={loading ? [] : results}
+              keyExtractor={item => item.id}
+              renderItem={renderResult}
+              ListEmptyComponent={renderEmpty}
+              ListFooterComponent={loadingMore ? <ActivityIndicator style={styles.statusIndicator} color="#721c24" /> : null}
+              onEndReached={hasMore ? loadMore : undefined}
+              onEndReachedThreshold={0.5}
+              keyboardShouldPersistTaps="handled"
+              contentContainerStyle={styles.listContent}
+            />
+          </>
+        )}
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(114, 28, 36, 0.1)',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(114, 28, 36, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: '#721c24',
+    fontWeight: '600',
+  },
+  searchInput: {
+    flex: 1,
+    height: 40,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    backgroundColor: '#f0f0f0',
+    fontSize: 16,
+    color: '#2c3e50',
+  },
+  listContent: {
+    padding: 16,
+  },
+  resultItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 10,
+  },
+  resultImage: {
+    width: 48,
+    height: 64,
+    marginRight: 12,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 4,
+  },
+  resultDetails: {
+    fontSize: 14,
+    color: '#7f8c8d',
+  },
+  statusIndicator: {
+    marginVertical: 24,
+  },
+  statusText: {
+    textAlign: 'center',
+    marginTop: 40,
+    fontSize: 16,
+    color: '#7f8c8d',
+  },
+});
+
+export default SearchScreen;
@@ -0,0 +1,132 @@
+import React from 'react';
+import { Modal, View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useLanguage } from '../hooks/useLanguage';
+import { i18n, Language, LANGUAGES } from '../utils/i18n';
+
+interface SettingsScreenProps {
+  isVisible: boolean;
+  onClose: () => void;
+}
+
+// Every language is named in itself, so it can be found whatever language is active
+const LANGUAGE_NAMES: Record<Language, string> = {
+  de: 'Deutsch',
+  en: 'English',
+  fr: 'Français',
+  it: 'Italiano',
+};
+
+/**
+ * App settings - the language of the app, its wines and filter options
+ */
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ isVisible, onClose }) => {
+  const [language, setLanguage] = useLanguage();
+
+  return (
+    <Modal visible={isVisible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <SafeAreaView style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Text style={styles.closeButtonText}>✕</Text>
+          </TouchableOpacity>
+          <Text style={styles.title}>{i18n.t('ui.settings')}</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{i18n.t('ui.language')}</Text>
+          <Text style={styles.sectionHint}>{i18n.t('ui.languageHint')}</Text>
+          {LANGUAGES.map(code => (
+            <TouchableOpacity
+              key={code}
+              style={styles.option}
+              onPress={() => setLanguage(code)}
+              accessibilityRole="radio"
+              accessibilityState={{ selected: code === language }}
+            >
+              <Text style={[styles.optionText, code === language && styles.selectedOptionText]}>
+                {LANGUAGE_NAMES[code]}
+              </Text>
+              {code === language && <Text style={styles.checkmark}>✓</Text>}
+            </TouchableOpacity>
+          ))}
+        </View>
+      </SafeAreaView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 12,
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(114, 28, 36, 0.1)',
+  },
+  closeButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(114, 28, 36, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButtonText: {
+    fontSize: 16,
+    color: '#721c24',
+    fontWeight: '600',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#721c24',
+  },
+  section: {
+    margin: 20,
+    padding: 16,
+    borderRadius: 12,
+    backgroundColor: '#fff',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sectionHint: {
+    fontSize: 13,
+    color: '#6c757d',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+  },
+  optionText: {
+    fontSize: 15,
+    color: '#495057',
+  },
+  selectedOptionText: {
+    color: '#721c24',
+    fontWeight: '600',
+  },
+  checkmark: {
+    fontSize: 16,
+    color: '#721c24',
+    fontWeight: '700',
+  },
+});
+
+export default SettingsScreen;
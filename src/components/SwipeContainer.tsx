@@ -9,115 +9,73 @@ import {
   Modal,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { Wine, WineFilter } from '../types';
+import { Wine } from '../types';
 import { WineCard } from './WineCard';
 import { MatchesScreen } from './MatchesScreen';
-import { useSupabaseAuth } from '../hooks/useSupabaseAuth';
 import { i18n } from '../utils/i18n';
+import { getWineImageUrl } from '../utils/wineImages';
+import { imageCacheService, ImageRequest } from '../services/imageCacheService';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+// Request the next page when only this many cards are left in the deck
+const PREFETCH_THRESHOLD = 5;
+
+// Download the images of the current and the next few cards ahead of time
+const IMAGE_PREFETCH_COUNT = 5;
+
 interface SwipeContainerProps {
   wines: Wine[];
-  filter?: WineFilter;
+  generation?: number;  // Changes whenever the deck is loaded again from the first page
   onMatch?: (wine: Wine) => void;
   loading?: boolean;
+  loadingMore?: boolean;
+  hasMore?: boolean;
+  onLoadMore?: () => void;
 }
 
 export const SwipeContainer: React.FC<SwipeContainerProps> = ({ 
   wines, 
-  filter, 
+  generation = 0,
   onMatch,
-  loading = false 
+  loading = false,
+  loadingMore = false,
+  hasMore = false,
+  onLoadMore,
 }) => {
   const [currentIndex, setCurrentIndex] = useState(0);
-  const [filteredWines, setFilteredWines] = useState<Wine[]>([]);
   const [isAnimating, setIsAnimating] = useState(false);
   const [showMatches, setShowMatches] = useState(false);
-  const { user } = useSupabaseAuth();
   const insets = useSafeAreaInsets();
 
-  // Filter wines based on the provided filter
-  const filterWines = useCallback((wineList: Wine[], wineFilter: WineFilter) => {
-    return wineList.filter(wine => {
-      // Wine type filter
-      if (wineFilter.wineTypes.length > 0 && !wineFilter.wineTypes.includes(wine.wine_type)) {
-        return false;
-      }
-      
-      // Price filter
-      if (wine.price !== null && wine.price !== undefined) {
-        if (wine.price < wineFilter.minPrice || wine.price > wineFilter.maxPrice) {
-          return false;
-        }
-      }
-      
-      // Region filter
-      if (wineFilter.regions.length > 0 && !wineFilter.regions.includes(wine.region)) {
-        return false;
-      }
-      
-      // Vintage filter
-      if (wine.vintage !== null && wine.vintage !== undefined) {
-        if (wine.vintage < wineFilter.vintageRange[0] || wine.vintage > wineFilter.vintageRange[1]) {
-          return false;
-        }
-      }
-      
-      return true;
-    });
-  }, []);
+  // Start from the first card whenever the deck starts over (filter, user or language)
+  useEffect(() => {
+    setCurrentIndex(0);
+  }, [generation]);
 
-  // Shuffle wines for user-specific randomization
-  const shuffleWines = useCallback((wineList: Wine[], userId?: string) => {
-    const shuffled = [...wineList];
-    // Simple shuffle algorithm - you can improve this with user-specific seeding
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  // Refill the deck before it runs out
+  useEffect(() => {
+    const remainingWines = wines.length - currentIndex;
+    if (hasMore && !loadingMore && remainingWines <= PREFETCH_THRESHOLD) {
+      onLoadMore?.();
     }
-    return shuffled;
-  }, []);
+  }, [wines.length, currentIndex, hasMore, loadingMore, onLoadMore]);
 
-  // Helper function to get default filter
-  const getDefaultFilter = (): WineFilter => ({
-    // New-style filters matching Web App
-    grape: [],
-    country: [],
-    region: [],
-    producer: [],
-    wineType: [],
-    color: [],
-    sweetness: [],
-    productionType: [],
-    unit: [],
-    alcohol: [],
-    price: [],
-    
-    // Legacy compatibility
-    wineTypes: [],
-    maxPrice: 1000,
-    minPrice: 0,
-    regions: [],
-    grapeVarieties: [],
-    vintageRange: [1990, new Date().getFullYear()],
-    alcoholRange: [0, 20],
-  });
-
-  // Update filtered wines when wines or filter changes
+  // Keep the images of the upcoming cards in the image cache
   useEffect(() => {
-    const filtered = filterWines(wines, filter || getDefaultFilter());
-    const shuffled = shuffleWines(filtered, user?.id);
-    setFilteredWines(shuffled);
-    setCurrentIndex(0);
-  }, [wines, filter, user?.id, filterWines, shuffleWines]);
+    const requests = wines
+      .slice(currentIndex, currentIndex + IMAGE_PREFETCH_COUNT)
+      .map(wine => ({ wineId: wine.id, url: getWineImageUrl(wine) }))
+      .filter((request): request is ImageRequest => request.url !== null);
+    imageCacheService.prefetch(requests);
+  }, [wines, currentIndex]);
 
   const handleSwipe = useCallback((direction: 'left' | 'right') => {
     if (isAnimating) return;
     
     setIsAnimating(true);
     
-    const currentWine = filteredWines[currentIndex];
+    const currentWine = wines[currentIndex];
     
     if (direction === 'right' && currentWine && onMatch) {
       // Wine liked - trigger match
@@ -129,9 +87,20 @@ export const SwipeContainer: React.FC<SwipeContainerProps> = ({
       setCurrentIndex(prev => prev + 1);
       setIsAnimating(false);
     }, 300);
-  }, [currentIndex, filteredWines, onMatch, isAnimating]);
+  }, [currentIndex, wines, onMatch, isAnimating]);
 
-  const currentWine = filteredWines[currentIndex];
+  const currentWine = wines[currentIndex];
+
+  if (!currentWine && (loading || hasMore || loadingMore)) {
+    return (
+      <View style={[styles.container, { paddingTop: insets.top }]}>
+        <View style={styles.emptyContainer}>
+          <Text style={styles.emptyTitle}>🍷</Text>
+          <Text style={styles.emptySubtext}>{i18n.t(loading ? 'deck.loading' : 'deck.loadingMore')}</Text>
+        </View>
+      </View>
+    );
+  }
 
   if (!currentWine) {
     return (
@@ -139,14 +108,9 @@ export const SwipeContainer: React.FC<SwipeContainerProps> = ({
         <View style={styles.emptyContainer}>
           <Text style={styles.emptyTitle}>🍷</Text>
           <Text style={styles.emptyText}>
-            {filteredWines.length === 0 
-              ? "Keine Weine gefunden.\nPassen Sie Ihre Filter an."
-              : "Alle Weine angesehen!\nGlückwunsch! 🎉"
-            }
-          </Text>
-          <Text style={styles.emptySubtext}>
-            Swipe right für Weine die Ihnen gefallen
+            {wines.length === 0 ? i18n.t('deck.noWines') : i18n.t('deck.allSeen')}
           </Text>
+          <Text style={styles.emptySubtext}>{i18n.t('deck.swipeRightHint')}</Text>
         </View>
       </View>
     );
@@ -158,14 +122,14 @@ export const SwipeContainer: React.FC<SwipeContainerProps> = ({
       
       {loading && (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading wines...</Text>
+          <Text style={styles.loadingText}>{i18n.t('deck.loading')}</Text>
         </View>
       )}
       
       {/* Wine Progress */}
       <View style={styles.progressContainer}>
         <Text style={styles.progressText}>
-          {currentIndex + 1} von {filteredWines.length}
+          {i18n.t('deck.position', { position: currentIndex + 1, total: wines.length })}
         </Text>
         <TouchableOpacity 
           style={styles.matchesButton}
@@ -185,9 +149,7 @@ export const SwipeContainer: React.FC<SwipeContainerProps> = ({
 
       {/* Instructions */}
       <View style={styles.instructions}>
-        <Text style={styles.instructionText}>
-          Swipe right um zu liken ♥ • Swipe left um zu skippen ✕
-        </Text>
+        <Text style={styles.instructionText}>{i18n.t('deck.instructions')}</Text>
       </View>
 
       {/* Matches Modal */}
@@ -2,7 +2,6 @@ import React from 'react';
 import {
   View,
   Text,
-  Image,
   StyleSheet,
   Dimensions,
   TouchableOpacity,
@@ -12,6 +11,7 @@ import { Wine } from '../types';
 import { useSwipeGestures } from '../hooks/useSwipeGestures';
 import { i18n } from '../utils/i18n';
 import WineTag from './WineTag';
+import WineImage from './WineImage';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -42,36 +42,11 @@ export const WineCard: React.FC<WineCardProps> = ({ wine, onSwipe }) => {
 
   const formatVintage = (vintage: number | null | undefined) => {
     if (vintage === null || vintage === undefined || Number.isNaN(vintage) || vintage <= 0) {
-      return 'N.V.';
+      return i18n.t('ui.noVintage');
     }
     return vintage.toString();
   };
 
-  // Helper function to get wine image URL from various possible fields
-  const getWineImageUrl = (wine: Wine): string | null => {
-    // Try different possible field names for wine images
-    const possibleImageFields = [
-      wine.image_url,
-      wine.image,
-      (wine as any).imageUrl,
-      (wine as any).photo,
-      (wine as any).picture,
-      (wine as any).image_path,
-      (wine as any).photo_url
-    ];
-    
-    for (const imageUrl of possibleImageFields) {
-      if (imageUrl && typeof imageUrl === 'string' && imageUrl.trim() !== '') {
-        return imageUrl;
-      }
-    }
-    
-    // Use the same placeholder image as the web application
-    return 'https://www.exklusive-weine.ch/wp-content/uploads/2025/04/application-image-original.png';
-  };
-
-  const imageUrl = getWineImageUrl(wine);
-
   return (
     <Animated.View 
       style={[styles.container, animatedStyle]}
@@ -82,11 +57,7 @@ export const WineCard: React.FC<WineCardProps> = ({ wine, onSwipe }) => {
       <View style={styles.card}>
           {/* Wine Image */}
           <View style={styles.imageContainer}>
-            <Image 
-              source={{ uri: imageUrl || 'https://www.exklusive-weine.ch/wp-content/uploads/2025/04/application-image-original.png' }} 
-              style={styles.image}
-              resizeMode="cover"
-            />
+            <WineImage wine={wine} style={styles.image} resizeMode="cover" />
           </View>
 
           {/* Wine Info */}
@@ -101,7 +72,7 @@ export const WineCard: React.FC<WineCardProps> = ({ wine, onSwipe }) => {
             </View>
 
             <Text style={styles.region} numberOfLines={1}>
-              {wine.region || 'Unknown Region'}
+              {wine.region || i18n.t('wine.unknownRegion')}
             </Text>
 
             {/* Wine Tags */}
@@ -119,6 +90,13 @@ export const WineCard: React.FC<WineCardProps> = ({ wine, onSwipe }) => {
                 {wine.description}
               </Text>
             )}
+
+            {/* Description is not available in the active language */}
+            {wine.description && wine.description_is_fallback && wine.description_language && (
+              <Text style={styles.descriptionLanguage}>
+                {i18n.t('ui.originalLanguage')}: {wine.description_language.toUpperCase()}
+              </Text>
+            )}
           </View>
 
           {/* Action Buttons */}
@@ -252,6 +230,12 @@ const styles = StyleSheet.create({
     color: '#7f8c8d',
     lineHeight: 20,
   },
+  descriptionLanguage: {
+    fontSize: 12,
+    color: '#95a5a6',
+    fontStyle: 'italic',
+    marginTop: 4,
+  },
   actionButtons: {
     flexDirection: 'row',
     justifyContent: 'space-around',
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Share,
+  StyleSheet,
+} from 'react-native';
+import { Wine } from '../types';
+import { i18n } from '../utils/i18n';
+import { buildDeepLink } from '../utils/deepLinks';
+import WineTag from './WineTag';
+import WineImage from './WineImage';
+import BlendBar from './BlendBar';
+
+interface WineDetailScreenProps {
+  wine: Wine;
+  onBack: () => void;
+  onAddToMatches: (wine: Wine) => Promise<void>;
+}
+
+/**
+ * Full details of a single wine, opened from the search results or a wine link
+ */
+const WineDetailScreen: React.FC<WineDetailScreenProps> = ({ wine, onBack, onAddToMatches }) => {
+  const [adding, setAdding] = useState(false);
+
+  const handleAddToMatches = async () => {
+    setAdding(true);
+    try {
+      await onAddToMatches(wine);
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleShare = () => {
+    Share.share({ message: `${wine.name}\n${buildDeepLink({ route: 'wine', wineId: wine.id })}` })
+      .catch(error => console.error('Error sharing wine:', error));
+  };
+
+  const vintage = wine.vintage && wine.vintage > 0 ? wine.vintage.toString() : i18n.t('ui.noVintage');
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={styles.backButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.headerTitle} numberOfLines={1}>{wine.name}</Text>
+        <TouchableOpacity onPress={handleShare} style={styles.backButton} accessibilityLabel={i18n.t('ui.share')}>
+          <Text style={styles.shareButtonText}>↗</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        <WineImage wine={wine} style={styles.image} resizeMode="contain" />
+
+        <Text style={styles.wineName}>{wine.name}</Text>
+
+        <View style={styles.detailsRow}>
+          <Text style={styles.vintage}>{vintage}</Text>
+          <Text style={styles.wineType}>{i18n.translateWineProperty('wine_type', wine.wine_type)}</Text>
+        </View>
+
+        {!!wine.region && <Text style={styles.region}>{wine.region}</Text>}
+        {!!wine.grape_variety && <Text style={styles.grapes}>{wine.grape_variety}</Text>}
+
+        <BlendBar grapes={wine.grapes} />
+
+        {wine.tags && wine.tags.length > 0 && (
+          <View style={styles.tagsContainer}>
+            {wine.tags.map((tag, index) => (
+              <WineTag key={`detail-${wine.id}-tag-${index}-${tag.type}`} tag={tag} />
+            ))}
+          </View>
+        )}
+
+        {!!wine.description && (
+          <Text style={styles.description}>{wine.description}</Text>
+        )}
+
+        {!!wine.description && wine.description_is_fallback && wine.description_language && (
+          <Text style={styles.descriptionLanguage}>
+            {i18n.t('ui.originalLanguage')}: {wine.description_language.toUpperCase()}
+          </Text>
+        )}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.addButton, adding && styles.addButtonDisabled]}
+          onPress={handleAddToMatches}
+          disabled={adding}
+        >
+          {adding ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <Text style={styles.addButtonText}>♥ {i18n.t('wine.addToMatches')}</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f5f5f5',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(114, 28, 36, 0.1)',
+  },
+  backButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: 'rgba(114, 28, 36, 0.1)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  backButtonText: {
+    fontSize: 22,
+    color: '#721c24',
+    fontWeight: '600',
+    marginTop: -2,
+  },
+  headerTitle: {
+    flex: 1,
+    marginHorizontal: 12,
+    textAlign: 'center',
+    fontSize: 18,
+    fontWeight: 'bold',
+    color: '#721c24',
+    fontFamily: 'serif',
+  },
+  shareButtonText: {
+    fontSize: 16,
+    color: '#721c24',
+    fontWeight: '600',
+  },
+  content: {
+    padding: 20,
+    paddingBottom: 40,
+  },
+  image: {
+    width: '100%',
+    height: 280,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    marginBottom: 20,
+  },
+  wineName: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#2c3e50',
+    marginBottom: 8,
+  },
+  detailsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  vintage: {
+    fontSize: 16,
+    color: '#7f8c8d',
+    fontWeight: '500',
+  },
+  wineType: {
+    fontSize: 16,
+    fontWeight: 'bold',
+    color: '#8B0000',
+  },
+  region: {
+    fontSize: 16,
+    color: '#34495e',
+    marginBottom: 4,
+  },
+  grapes: {
+    fontSize: 14,
+    color: '#7f8c8d',
+    marginBottom: 12,
+  },
+  tagsContainer: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginBottom: 16,
+  },
+  description: {
+    fontSize: 15,
+    color: '#2c3e50',
+    lineHeight: 22,
+  },
+  descriptionLanguage: {
+    fontSize: 12,
+    color: '#95a5a6',
+    fontStyle: 'italic',
+    marginTop: 6,
+  },
+  footer: {
+    padding: 16,
+    backgroundColor: '#fff',
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(114, 28, 36, 0.1)',
+  },
+  addButton: {
+    backgroundColor: '#721c24',
+    borderRadius: 12,
+    paddingVertical: 14,
+    alignItems: 'center',
+  },
+  addButtonDisabled: {
+    opacity: 0.6,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: 'bold',
+  },
+});
+
+export default WineDetailScreen;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+import { Image, ImageResizeMode, ImageStyle, StyleProp } from 'react-native';
+import { Wine } from '../types';
+import { imageCacheService } from '../services/imageCacheService';
+import { getPlaceholderImage, getWineImageUrl } from '../utils/wineImages';
+
+interface WineImageProps {
+  wine: Wine;
+  style?: StyleProp<ImageStyle>;
+  resizeMode?: ImageResizeMode;
+}
+
+/**
+ * Bottle photo of a wine - from the image cache when it was prefetched, the
+ * bundled placeholder for its colour when it has no photo or the photo fails
+ */
+const WineImage: React.FC<WineImageProps> = ({ wine, style, resizeMode = 'cover' }) => {
+  const url = getWineImageUrl(wine);
+  const [failed, setFailed] = useState(false);
+
+  // A new wine gets a new chance
+  useEffect(() => {
+    setFailed(false);
+  }, [url]);
+
+  const source = url && !failed
+    ? { uri: imageCacheService.getCachedUri(url) ?? url }
+    : getPlaceholderImage(wine.wine_type);
+
+  return (
+    <Image
+      source={source}
+      style={style}
+      resizeMode={resizeMode}
+      onError={event => {
+        imageCacheService.reportFailure(wine.id, url, event.nativeEvent.error);
+        setFailed(true);
+      }}
+    />
+  );
+};
+
+export default WineImage;
@@ -1,11 +1,11 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
+import type { WineTag as WineTagData } from '../types';
+import { currencyService } from '../services/currencyService';
+import { useDisplayCurrency } from '../hooks/useDisplayCurrency';
 
 interface WineTagProps {
-  tag: {
-    type: string;
-    value: string;
-  };
+  tag: WineTagData;
 }
 
 /**
@@ -13,6 +13,12 @@ interface WineTagProps {
  * Replicates the colored badge system from the web app
  */
 export const WineTag: React.FC<WineTagProps> = ({ tag }) => {
+  // Price tags follow the display currency
+  const [displayCurrency] = useDisplayCurrency();
+  const displayValue = tag.price
+    ? currencyService.formatPriceRange(tag.price.min, tag.price.max, tag.price.currency, displayCurrency)
+    : tag.value;
+
   // Get color scheme based on tag type (matching web app colors)
   const getTagColors = (tagType: string) => {
     switch (tagType) {
@@ -101,7 +107,7 @@ export const WineTag: React.FC<WineTagProps> = ({ tag }) => {
   return (
     <View style={[styles.tagContainer, { backgroundColor: colors.backgroundColor }]}>
       <Text style={[styles.tagText, { color: colors.textColor }]}>
-        {formatTagType(tag.type)}: {formatTagValue(tag.value)}
+        {formatTagType(tag.type)}: {formatTagValue(displayValue)}
       </Text>
     </View>
   );
@@ -1,11 +1,14 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import FilterOptionButtons from './FilterOptionButtons';
+import { i18n } from '../../utils/i18n';
 
 interface CharacteristicFilterProps {
   type: 'color' | 'productionType' | 'sweetness' | 'alcohol' | 'price';  // ADD all types like Web App
   options: string[];
   selectedOptions: string[];
+  excludedOptions?: string[];
+  counts?: Record<string, number> | null;
   onToggleOption: (value: string) => void;
 }
 
@@ -13,16 +16,18 @@ const CharacteristicFilter: React.FC<CharacteristicFilterProps> = ({
   type,
   options,
   selectedOptions,
+  excludedOptions,
+  counts,
   onToggleOption,
 }) => {
   const getLoadingText = () => {
     switch (type) {
-      case 'color': return 'Loading colors...';
-      case 'productionType': return 'Loading production types...';
-      case 'sweetness': return 'Loading sweetness levels...';
-      case 'alcohol': return 'Loading alcohol levels...';
-      case 'price': return 'Loading price ranges...';
-      default: return 'Loading options...';
+      case 'color': return i18n.t('filters.loadingColors');
+      case 'productionType': return i18n.t('filters.loadingProductionTypes');
+      case 'sweetness': return i18n.t('filters.loadingSweetness');
+      case 'alcohol': return i18n.t('filters.loadingAlcohol');
+      case 'price': return i18n.t('filters.loadingPriceRanges');
+      default: return i18n.t('filters.loadingOptions');
     }
   };
   
@@ -32,6 +37,8 @@ const CharacteristicFilter: React.FC<CharacteristicFilterProps> = ({
         <FilterOptionButtons
           options={options}
           selectedOptions={selectedOptions}
+          excludedOptions={excludedOptions}
+          counts={counts}
           onToggleOption={onToggleOption}
           category={type}
         />
@@ -1,10 +1,12 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import FilterOptionButtons from './FilterOptionButtons';
+import { i18n } from '../../utils/i18n';
 
 interface CountryFilterProps {
   options: string[];
   selectedOptions: string[];
+  excludedOptions?: string[];
   onToggleOption: (value: string) => void;
   labelMap?: Record<string, string>;
 }
@@ -12,6 +14,7 @@ interface CountryFilterProps {
 const CountryFilter: React.FC<CountryFilterProps> = ({
   options,
   selectedOptions,
+  excludedOptions,
   onToggleOption,
   labelMap,
 }) => {
@@ -21,13 +24,14 @@ const CountryFilter: React.FC<CountryFilterProps> = ({
         <FilterOptionButtons
           options={options}
           selectedOptions={selectedOptions}
+          excludedOptions={excludedOptions}
           onToggleOption={onToggleOption}
           category="country"
           labelMap={labelMap}
         />
       ) : (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading countries...</Text>
+          <Text style={styles.loadingText}>{i18n.t('filters.loadingCountries')}</Text>
         </View>
       )}
     </View>
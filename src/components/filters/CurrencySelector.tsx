@@ -0,0 +1,46 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import FilterOptionButtons from './FilterOptionButtons';
+import { SUPPORTED_CURRENCIES, CurrencyCode } from '../../services/currencyService';
+import { i18n } from '../../utils/i18n';
+
+interface CurrencySelectorProps {
+  currency: CurrencyCode;
+  onCurrencyChange: (currency: CurrencyCode) => void;
+}
+
+/**
+ * Choice of the currency prices are shown in
+ */
+const CurrencySelector: React.FC<CurrencySelectorProps> = ({ currency, onCurrencyChange }) => {
+  // Currency codes are shown as they are, not capitalized like other options
+  const labelMap = SUPPORTED_CURRENCIES.reduce<Record<string, string>>((acc, code) => {
+    acc[code] = code;
+    return acc;
+  }, {});
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>{i18n.t('ui.displayCurrency')}</Text>
+      <FilterOptionButtons
+        options={[...SUPPORTED_CURRENCIES]}
+        selectedOptions={[currency]}
+        onToggleOption={value => onCurrencyChange(value as CurrencyCode)}
+        labelMap={labelMap}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    color: '#495057',
+    marginBottom: 8,
+  },
+});
+
+export default CurrencySelector;
@@ -0,0 +1,49 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import FilterOptionButtons from './FilterOptionButtons';
+import { DECK_ORDERS } from '../../services/deckOrder';
+import type { DeckOrder } from '../../types';
+import { i18n } from '../../utils/i18n';
+
+interface DeckOrderSelectorProps {
+  order: DeckOrder;
+  onOrderChange: (order: DeckOrder) => void;
+}
+
+const ORDER_LABEL_KEYS: Record<DeckOrder, string> = {
+  random: 'ui.deckOrderRandom',
+  'price-asc': 'ui.deckOrderPriceAsc',
+  'price-desc': 'ui.deckOrderPriceDesc',
+  'vintage-desc': 'ui.deckOrderVintageDesc',
+  newest: 'ui.deckOrderNewest',
+  popular: 'ui.deckOrderPopular',
+};
+
+/**
+ * Choice of the order the deck is dealt in - exactly one is always selected
+ */
+const DeckOrderSelector: React.FC<DeckOrderSelectorProps> = ({ order, onOrderChange }) => {
+  const labelMap = DECK_ORDERS.reduce<Record<string, string>>((acc, option) => {
+    acc[option] = i18n.t(ORDER_LABEL_KEYS[option]);
+    return acc;
+  }, {});
+
+  return (
+    <View style={styles.container}>
+      <FilterOptionButtons
+        options={[...DECK_ORDERS]}
+        selectedOptions={[order]}
+        onToggleOption={value => onOrderChange(value as DeckOrder)}
+        labelMap={labelMap}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+});
+
+export default DeckOrderSelector;
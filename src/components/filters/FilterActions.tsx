@@ -1,5 +1,6 @@
 import React from 'react';
 import { View, TouchableOpacity, Text, StyleSheet } from 'react-native';
+import { i18n } from '../../utils/i18n';
 
 interface FilterActionsProps {
   onReset: () => void;
@@ -14,14 +15,14 @@ const FilterActions: React.FC<FilterActionsProps> = ({ onReset, onApply }) => {
           style={[styles.button, styles.resetButton]}
           onPress={onReset}
         >
-          <Text style={styles.resetButtonText}>Reset</Text>
+          <Text style={styles.resetButtonText}>{i18n.t('filters.reset')}</Text>
         </TouchableOpacity>
         
         <TouchableOpacity
           style={[styles.button, styles.applyButton]}
           onPress={onApply}
         >
-          <Text style={styles.applyButtonText}>Apply Filters</Text>
+          <Text style={styles.applyButtonText}>{i18n.t('filters.apply')}</Text>
         </TouchableOpacity>
       </View>
     </View>
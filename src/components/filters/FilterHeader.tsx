@@ -1,18 +1,26 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { i18n } from '../../utils/i18n';
 
 interface FilterHeaderProps {
   onClose: () => void;
+  onShare?: () => void;  // Share the filter as a link
 }
 
-const FilterHeader: React.FC<FilterHeaderProps> = ({ onClose }) => {
+const FilterHeader: React.FC<FilterHeaderProps> = ({ onClose, onShare }) => {
   return (
     <View style={styles.header}>
       <TouchableOpacity onPress={onClose} style={styles.closeButton}>
         <Text style={styles.closeButtonText}>✕</Text>
       </TouchableOpacity>
-      <Text style={styles.title}>Filter Wines</Text>
-      <View style={styles.placeholder} />
+      <Text style={styles.title}>{i18n.t('filters.title')}</Text>
+      {onShare ? (
+        <TouchableOpacity onPress={onShare} style={styles.closeButton} accessibilityLabel={i18n.t('ui.share')}>
+          <Text style={styles.closeButtonText}>↗</Text>
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.placeholder} />
+      )}
     </View>
   );
 };
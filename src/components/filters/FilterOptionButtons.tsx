@@ -4,6 +4,8 @@ import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 interface FilterOptionButtonsProps {
   options: string[];
   selectedOptions: string[];
+  excludedOptions?: string[];  // Shown struck through - options are tri-state when given
+  counts?: Record<string, number> | null;  // Wines per option, options without any are greyed out
   onToggleOption: (value: string) => void;
   category?: string;
   labelMap?: Record<string, string>;
@@ -12,6 +14,8 @@ interface FilterOptionButtonsProps {
 const FilterOptionButtons: React.FC<FilterOptionButtonsProps> = ({
   options,
   selectedOptions,
+  excludedOptions,
+  counts,
   onToggleOption,
   category,
   labelMap,
@@ -40,22 +44,34 @@ const FilterOptionButtons: React.FC<FilterOptionButtonsProps> = ({
       {filteredOptions.map((option) => {
         const stringOption = String(option);
         const isSelected = selectedOptions.includes(stringOption);
+        const isExcluded = !isSelected && (excludedOptions?.includes(stringOption) ?? false);
+        const count = counts?.[stringOption];
+        // Selected options stay active so they can still be removed
+        const isEmpty = count === 0 && !isSelected && !isExcluded;
         return (
           <TouchableOpacity
             key={stringOption}
             style={[
               styles.option,
               isSelected && styles.selectedOption,
+              isExcluded && styles.excludedOption,
+              isEmpty && styles.emptyOption,
             ]}
             onPress={() => onToggleOption(stringOption)}
+            disabled={isEmpty}
+            accessibilityState={{ selected: isSelected, disabled: isEmpty }}
           >
             <Text
               style={[
                 styles.optionText,
                 isSelected && styles.selectedOptionText,
+                isExcluded && styles.excludedOptionText,
               ]}
             >
-              {getDisplayLabel(stringOption)}
+              {isExcluded ? `− ${getDisplayLabel(stringOption)}` : getDisplayLabel(stringOption)}
+              {count !== undefined && (
+                <Text style={[styles.countText, isSelected && styles.selectedCountText]}> {count}</Text>
+              )}
             </Text>
           </TouchableOpacity>
         );
@@ -85,6 +101,11 @@ const styles = StyleSheet.create({
     backgroundColor: '#721c24',
     borderColor: '#721c24',
   },
+  excludedOption: {
+    backgroundColor: '#fff',
+    borderColor: '#dc3545',
+    borderStyle: 'dashed',
+  },
   optionText: {
     fontSize: 14,
     color: '#495057',
@@ -95,6 +116,21 @@ const styles = StyleSheet.create({
     color: '#fff',
     fontWeight: '600',
   },
+  excludedOptionText: {
+    color: '#dc3545',
+    textDecorationLine: 'line-through',
+  },
+  emptyOption: {
+    opacity: 0.4,
+  },
+  countText: {
+    fontSize: 12,
+    fontWeight: '400',
+    color: '#6c757d',
+  },
+  selectedCountText: {
+    color: 'rgba(255, 255, 255, 0.8)',
+  },
 });
 
 export default FilterOptionButtons;
\ No newline at end of file
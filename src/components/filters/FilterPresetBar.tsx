@@ -0,0 +1,249 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, Alert, StyleSheet } from 'react-native';
+import { FilterPreset } from '../../types';
+import { MAX_PRESET_NAME_LENGTH } from '../../services/filterPresetService';
+import { i18n } from '../../utils/i18n';
+
+interface FilterPresetBarProps {
+  presets: FilterPreset[];
+  onApply: (preset: FilterPreset) => void;
+  onSave: (name: string) => Promise<void>;  // Save the filter being edited
+  onRename: (preset: FilterPreset, name: string) => Promise<void>;
+  onDelete: (preset: FilterPreset) => Promise<void>;
+  onMove: (preset: FilterPreset, offset: -1 | 1) => Promise<void>;
+  onToggleDefault: (preset: FilterPreset) => Promise<void>;
+}
+
+// Name being entered - for a new preset or to rename one
+type NameEditor = { presetId: string | null; name: string };
+
+/**
+ * Saved filters as chips - a tap applies the preset, a long-press shows the
+ * actions to rename, move, delete it or use it on launch. The default preset
+ * is marked with a star.
+ */
+const FilterPresetBar: React.FC<FilterPresetBarProps> = ({
+  presets,
+  onApply,
+  onSave,
+  onRename,
+  onDelete,
+  onMove,
+  onToggleDefault,
+}) => {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editor, setEditor] = useState<NameEditor | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const selected = presets.find(preset => preset.id === selectedId) ?? null;
+  const selectedIndex = selected ? presets.indexOf(selected) : -1;
+
+  const run = async (operation: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await operation();
+      return true;
+    } catch {
+      Alert.alert(i18n.t('ui.presetSaveFailed'));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSubmitName = async () => {
+    if (!editor || !editor.name.trim()) return;
+
+    const { presetId, name } = editor;
+    const preset = presets.find(p => p.id === presetId);
+    const saved = await run(() => (preset ? onRename(preset, name) : onSave(name)));
+    if (saved) setEditor(null);
+  };
+
+  const confirmDelete = (preset: FilterPreset) => {
+    Alert.alert(preset.name, i18n.t('ui.deletePresetConfirm'), [
+      { text: i18n.t('ui.cancel'), style: 'cancel' },
+      {
+        text: i18n.t('ui.deletePreset'),
+        style: 'destructive',
+        onPress: () => {
+          setSelectedId(null);
+          run(() => onDelete(preset));
+        },
+      },
+    ]);
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{i18n.t('ui.presets')}</Text>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {presets.map(preset => (
+          <TouchableOpacity
+            key={preset.id}
+            style={[styles.chip, preset.id === selectedId && styles.selectedChip]}
+            onPress={() => onApply(preset)}
+            onLongPress={() => setSelectedId(preset.id === selectedId ? null : preset.id)}
+          >
+            <Text style={[styles.chipText, preset.id === selectedId && styles.selectedChipText]} numberOfLines={1}>
+              {preset.isDefault ? `★ ${preset.name}` : preset.name}
+            </Text>
+          </TouchableOpacity>
+        ))}
+        <TouchableOpacity
+          style={[styles.chip, styles.addChip]}
+          onPress={() => {
+            setSelectedId(null);
+            setEditor({ presetId: null, name: '' });
+          }}
+        >
+          <Text style={styles.addChipText}>+ {i18n.t('ui.savePreset')}</Text>
+        </TouchableOpacity>
+      </ScrollView>
+
+      {selected && !editor && (
+        <View style={styles.actions}>
+          <TouchableOpacity onPress={() => setEditor({ presetId: selected.id, name: selected.name })}>
+            <Text style={styles.actionText}>{i18n.t('ui.renamePreset')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => run(() => onMove(selected, -1))}
+            disabled={saving || selectedIndex === 0}
+            accessibilityLabel={i18n.t('ui.movePresetLeft')}
+          >
+            <Text style={[styles.actionText, selectedIndex === 0 && styles.disabledText]}>◀</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => run(() => onMove(selected, 1))}
+            disabled={saving || selectedIndex === presets.length - 1}
+            accessibilityLabel={i18n.t('ui.movePresetRight')}
+          >
+            <Text style={[styles.actionText, selectedIndex === presets.length - 1 && styles.disabledText]}>▶</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => run(() => onToggleDefault(selected))} disabled={saving}>
+            <Text style={styles.actionText}>
+              {i18n.t(selected.isDefault ? 'ui.unsetDefaultPreset' : 'ui.setDefaultPreset')}
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => confirmDelete(selected)} disabled={saving}>
+            <Text style={[styles.actionText, styles.deleteText]}>{i18n.t('ui.deletePreset')}</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {editor && (
+        <View style={styles.editor}>
+          <TextInput
+            style={styles.nameInput}
+            value={editor.name}
+            onChangeText={name => setEditor({ ...editor, name })}
+            placeholder={i18n.t('ui.presetNamePlaceholder')}
+            placeholderTextColor="#6c757d"
+            maxLength={MAX_PRESET_NAME_LENGTH}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={handleSubmitName}
+          />
+          <TouchableOpacity onPress={() => setEditor(null)}>
+            <Text style={styles.actionText}>{i18n.t('ui.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={handleSubmitName} disabled={saving || !editor.name.trim()}>
+            <Text style={[styles.actionText, styles.saveText, !editor.name.trim() && styles.disabledText]}>
+              {i18n.t('ui.save')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      )}
+
+      {presets.length === 0 && !editor && <Text style={styles.hint}>{i18n.t('ui.presetsHint')}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 12,
+    gap: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 20,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    maxWidth: 220,
+  },
+  selectedChip: {
+    borderColor: '#721c24',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#495057',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#721c24',
+  },
+  addChip: {
+    borderStyle: 'dashed',
+    borderColor: '#721c24',
+  },
+  addChipText: {
+    fontSize: 14,
+    color: '#721c24',
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 16,
+  },
+  actionText: {
+    fontSize: 13,
+    color: '#721c24',
+    fontWeight: '500',
+  },
+  deleteText: {
+    color: '#dc3545',
+  },
+  saveText: {
+    fontWeight: '700',
+  },
+  disabledText: {
+    opacity: 0.4,
+  },
+  editor: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  nameInput: {
+    flex: 1,
+    height: 40,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    backgroundColor: '#fff',
+    fontSize: 14,
+    color: '#495057',
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontStyle: 'italic',
+  },
+});
+
+export default FilterPresetBar;
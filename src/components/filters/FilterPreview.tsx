@@ -0,0 +1,73 @@
+import React from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { Wine } from '../../types';
+import WineImage from '../WineImage';
+import { i18n } from '../../utils/i18n';
+
+interface FilterPreviewProps {
+  count: number | null;  // null until the first result
+  wines: Wine[];
+  loading: boolean;
+}
+
+/**
+ * Live result of the filter being edited: the number of matching wines and
+ * the first bottles of the deck it would give
+ */
+const FilterPreview: React.FC<FilterPreviewProps> = ({ count, wines, loading }) => {
+  const countText = count === null
+    ? i18n.t('ui.countingWines')
+    : i18n.t('filters.winesMatching', { count });
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.countRow}>
+        <Text style={[styles.countText, count === 0 && styles.noResultsText]}>{countText}</Text>
+        {loading && <ActivityIndicator size="small" color="#721c24" />}
+      </View>
+      {wines.length > 0 && (
+        <View style={styles.strip}>
+          {wines.map(wine => (
+            <WineImage key={wine.id} wine={wine} style={styles.bottle} resizeMode="contain" />
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingTop: 12,
+    gap: 8,
+    backgroundColor: 'rgba(255, 255, 255, 0.95)',
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(114, 28, 36, 0.1)',
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  countText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  noResultsText: {
+    color: '#dc3545',
+  },
+  strip: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  bottle: {
+    width: 40,
+    height: 64,
+    borderRadius: 6,
+    backgroundColor: '#f8f9fa',
+  },
+});
+
+export default FilterPreview;
@@ -0,0 +1,103 @@
+import React from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import FilterOptionButtons from './FilterOptionButtons';
+import type { GrapeMatchMode } from '../../types';
+import { i18n } from '../../utils/i18n';
+
+interface GrapeBlendFilterProps {
+  selectedGrapeCount: number;
+  grapeMatch: GrapeMatchMode;
+  minShare: number | null;
+  singleVarietal: boolean;
+  onGrapeMatchChange: (grapeMatch: GrapeMatchMode) => void;
+  onMinShareChange: (minShare: number | null) => void;
+  onSingleVarietalChange: (singleVarietal: boolean) => void;
+}
+
+// Minimum shares offered for the selected grapes, in percent
+const MIN_SHARE_STEPS = [25, 50, 75, 85];
+
+/**
+ * Blend options below the grape list: single-varietal wines only, whether a wine
+ * needs all selected grapes (from two grapes on), and a minimum share that the
+ * selected grapes must make up (only shown once grapes are selected)
+ */
+const GrapeBlendFilter: React.FC<GrapeBlendFilterProps> = ({
+  selectedGrapeCount,
+  grapeMatch,
+  minShare,
+  singleVarietal,
+  onGrapeMatchChange,
+  onMinShareChange,
+  onSingleVarietalChange,
+}) => {
+  const options = MIN_SHARE_STEPS.map(step => step.toString());
+  const labelMap = options.reduce<Record<string, string>>((acc, option) => {
+    acc[option] = `≥ ${option}%`;
+    return acc;
+  }, {});
+
+  // Tapping the selected share again removes the minimum
+  const handleToggleShare = (value: string) => {
+    const share = Number(value);
+    onMinShareChange(share === minShare ? null : share);
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>{i18n.t('ui.singleVarietalOnly')}</Text>
+        <Switch
+          value={singleVarietal}
+          onValueChange={onSingleVarietalChange}
+          trackColor={{ true: '#721c24' }}
+        />
+      </View>
+
+      {selectedGrapeCount > 1 && (
+        <View style={styles.switchRow}>
+          <Text style={styles.label}>{i18n.t('ui.grapeMatchAll')}</Text>
+          <Switch
+            value={grapeMatch === 'all'}
+            onValueChange={matchAll => onGrapeMatchChange(matchAll ? 'all' : 'any')}
+            trackColor={{ true: '#721c24' }}
+          />
+        </View>
+      )}
+
+      {selectedGrapeCount > 0 && (
+        <View>
+          <Text style={styles.label}>{i18n.t('ui.grapeMinShare')}</Text>
+          <FilterOptionButtons
+            options={options}
+            selectedOptions={minShare !== null ? [minShare.toString()] : []}
+            onToggleOption={handleToggleShare}
+            labelMap={labelMap}
+          />
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 16,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#e9ecef',
+    gap: 12,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    color: '#495057',
+    marginBottom: 8,
+  },
+});
+
+export default GrapeBlendFilter;
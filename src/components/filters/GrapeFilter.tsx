@@ -1,16 +1,21 @@
 import React, { useState, useMemo } from 'react';
 import { View, Text, TextInput, StyleSheet } from 'react-native';
 import FilterOptionButtons from './FilterOptionButtons';
+import { i18n } from '../../utils/i18n';
 
 interface GrapeFilterProps {
   options: string[];
   selectedOptions: string[];
+  excludedOptions?: string[];
+  counts?: Record<string, number> | null;
   onToggleOption: (value: string) => void;
 }
 
 const GrapeFilter: React.FC<GrapeFilterProps> = ({
   options,
   selectedOptions,
+  excludedOptions,
+  counts,
   onToggleOption,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -25,17 +30,19 @@ const GrapeFilter: React.FC<GrapeFilterProps> = ({
       );
     }
     
-    // Sort selected options first, then alphabetically
+    // Sort selected and excluded options first, then alphabetically
+    const isActive = (grape: string) =>
+      selectedOptions.includes(grape) || (excludedOptions?.includes(grape) ?? false);
     return filtered.sort((a, b) => {
-      const aSelected = selectedOptions.includes(a);
-      const bSelected = selectedOptions.includes(b);
+      const aSelected = isActive(a);
+      const bSelected = isActive(b);
       
       if (aSelected && !bSelected) return -1;
       if (!aSelected && bSelected) return 1;
       
       return a.localeCompare(b);
     });
-  }, [options, selectedOptions, searchTerm]);
+  }, [options, selectedOptions, excludedOptions, searchTerm]);
 
   return (
     <View style={styles.container}>
@@ -44,7 +51,7 @@ const GrapeFilter: React.FC<GrapeFilterProps> = ({
         <View style={styles.searchContainer}>
           <TextInput
             style={styles.searchInput}
-            placeholder="Search grape varieties..."
+            placeholder={i18n.t('filters.searchGrapes')}
             value={searchTerm}
             onChangeText={setSearchTerm}
             placeholderTextColor="#6c757d"
@@ -57,12 +64,14 @@ const GrapeFilter: React.FC<GrapeFilterProps> = ({
         <FilterOptionButtons
           options={filteredAndSortedOptions}
           selectedOptions={selectedOptions}
+          excludedOptions={excludedOptions}
+          counts={counts}
           onToggleOption={onToggleOption}
           category="grape"
         />
       ) : (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading grape varieties...</Text>
+          <Text style={styles.loadingText}>{i18n.t('filters.loadingGrapes')}</Text>
         </View>
       )}
     </View>
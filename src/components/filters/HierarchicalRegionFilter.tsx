@@ -1,78 +1,150 @@
 import React, { useState } from 'react';
-import { View, TextInput, StyleSheet } from 'react-native';
-import { AccordionItem } from './Accordion';
-import FilterOptionButtons from './FilterOptionButtons';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import type { RegionNode } from '../../services/filterOptionsService';
+import type { FacetCounts } from '../../services/repositories';
+import type { WineFilter } from '../../types';
+import { getRegionSelectionState, isRegionExcluded, regionNamesBelow } from '../../utils/regionTree';
+import { i18n } from '../../utils/i18n';
 
 interface HierarchicalRegionFilterProps {
-  selectedOptions: string[];
-  onToggleOption: (value: string) => void;
+  tree: RegionNode[] | null;  // null while loading
+  selection: Pick<WineFilter, 'country' | 'region' | 'excluded'>;
+  counts?: FacetCounts | null;  // Wines per country and region, rows without any are greyed out
+  onToggleNode: (node: RegionNode, ancestors: RegionNode[]) => void;      // Checkbox tapped
+  onToggleExcluded: (node: RegionNode, ancestors: RegionNode[]) => void;  // Row long-pressed
 }
 
-// Common wine regions - in production this would be fetched from database
-const COMMON_REGIONS = [
-  'Bordeaux', 'Burgundy', 'Champagne', 'Loire Valley', 'Rhône Valley',
-  'Tuscany', 'Piedmont', 'Veneto', 'Sicily', 'Marche',
-  'Rioja', 'Ribera del Duero', 'Priorat', 'Rías Baixas',
-  'Napa Valley', 'Sonoma', 'Willamette Valley', 'Columbia Valley',
-  'Barossa Valley', 'Hunter Valley', 'Margaret River',
-  'Mosel', 'Rheingau', 'Pfalz', 'Baden',
-  'Mendoza', 'Casablanca Valley', 'Stellenbosch',
-];
+// Lower case without accents, so "valle" finds "Vallée"
+const normalize = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
 
+const nodeKey = (node: RegionNode) => `${node.kind}:${node.countryCode}:${node.value}`;
+
+const matchesSearch = (node: RegionNode, term: string): boolean =>
+  normalize(node.label).includes(term) || normalize(node.value).includes(term);
+
+const hasMatchBelow = (node: RegionNode, term: string): boolean =>
+  node.children.some(child => matchesSearch(child, term) || hasMatchBelow(child, term));
+
+// A wine has one region, so a region's wines are the sum over its subtree
+const countOf = (node: RegionNode, counts: FacetCounts | null | undefined): number | undefined => {
+  if (node.kind === 'country') return counts?.countries ? counts.countries[node.value] ?? 0 : undefined;
+
+  const regionCounts = counts?.regions;
+  if (!regionCounts) return undefined;
+  return regionNamesBelow(node).reduce((sum, name) => sum + (regionCounts[name] ?? 0), 0);
+};
+
+/**
+ * Country → region → sub-region tree with tri-state checkboxes
+ * A parent is checked when it is selected as a whole, partly checked when only
+ * some of its regions are. While searching, only matching rows and their
+ * parents are shown, with the branches leading to a match expanded.
+ */
 const HierarchicalRegionFilter: React.FC<HierarchicalRegionFilterProps> = ({
-  selectedOptions,
-  onToggleOption,
+  tree,
+  selection,
+  counts,
+  onToggleNode,
+  onToggleExcluded,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
 
-  // Filter regions based on search term
-  const filteredRegions = COMMON_REGIONS.filter(region =>
-    region.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  if (!tree) {
+    return <Text style={styles.loadingText}>{i18n.t('ui.regionsLoading')}</Text>;
+  }
 
-  // Sort selected regions first
-  const sortedRegions = [...filteredRegions].sort((a, b) => {
-    const aSelected = selectedOptions.includes(a);
-    const bSelected = selectedOptions.includes(b);
-    
-    if (aSelected && !bSelected) return -1;
-    if (!aSelected && bSelected) return 1;
-    
-    return a.localeCompare(b);
-  });
+  const term = normalize(searchTerm.trim());
 
-  return (
-    <AccordionItem value="region" title="Regions">
-      <View style={styles.container}>
-        {/* Search Input */}
-        <View style={styles.searchContainer}>
-          <TextInput
-            style={styles.searchInput}
-            placeholder="Search regions..."
-            value={searchTerm}
-            onChangeText={setSearchTerm}
-            placeholderTextColor="#6c757d"
-          />
-        </View>
-        
-        {/* Filter Options */}
-        <FilterOptionButtons
-          options={sortedRegions}
-          selectedOptions={selectedOptions}
-          onToggleOption={onToggleOption}
-          category="region"
-        />
+  const toggleExpanded = (node: RegionNode) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      const key = nodeKey(node);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: RegionNode, ancestors: RegionNode[], parentMatches: boolean): React.ReactNode => {
+    const matches = term === '' || parentMatches || matchesSearch(node, term);
+    const matchBelow = term !== '' && hasMatchBelow(node, term);
+    if (!matches && !matchBelow) return null;
+
+    const isExpanded = matchBelow || expanded.has(nodeKey(node));
+    const state = getRegionSelectionState(node, selection);
+    const excluded = isRegionExcluded(node, selection);
+    const count = countOf(node, counts);
+    const isEmpty = count === 0 && state === 'unchecked' && !excluded;
+    const path = [...ancestors, node];
+
+    return (
+      <View key={nodeKey(node)}>
+        <TouchableOpacity
+          style={[styles.row, { paddingLeft: ancestors.length * 20 }, isEmpty && styles.emptyRow]}
+          onPress={() => onToggleNode(node, ancestors)}
+          onLongPress={() => onToggleExcluded(node, ancestors)}
+          disabled={isEmpty}
+        >
+          <View
+            style={[
+              styles.checkbox,
+              state !== 'unchecked' && styles.checkboxActive,
+              excluded && styles.checkboxExcluded,
+            ]}
+          >
+            {state === 'checked' && <Text style={styles.checkmark}>✓</Text>}
+            {state === 'partial' && <Text style={styles.checkmark}>–</Text>}
+          </View>
+          <Text
+            style={[
+              styles.label,
+              node.kind === 'country' && styles.countryLabel,
+              excluded && styles.excludedLabel,
+            ]}
+            numberOfLines={1}
+          >
+            {node.label}
+          </Text>
+          {count !== undefined && <Text style={styles.countText}>{count}</Text>}
+          {node.children.length > 0 && (
+            <TouchableOpacity style={styles.expander} onPress={() => toggleExpanded(node)} hitSlop={8}>
+              <Text style={[styles.expanderIcon, isExpanded && styles.expanderIconExpanded]}>▼</Text>
+            </TouchableOpacity>
+          )}
+        </TouchableOpacity>
+
+        {isExpanded && node.children.map(child => renderNode(child, path, term !== '' && matches))}
       </View>
-    </AccordionItem>
+    );
+  };
+
+  const rows = tree.map(country => renderNode(country, [], false)).filter(Boolean);
+
+  return (
+    <View style={styles.container}>
+      <TextInput
+        style={styles.searchInput}
+        placeholder={i18n.t('ui.searchRegions')}
+        value={searchTerm}
+        onChangeText={setSearchTerm}
+        autoCapitalize="none"
+        autoCorrect={false}
+        placeholderTextColor="#6c757d"
+      />
+      {rows.length > 0 ? rows : <Text style={styles.emptyText}>{i18n.t('ui.noRegionsFound')}</Text>}
+      <Text style={styles.hint}>{i18n.t('ui.regionTreeHint')}</Text>
+    </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    gap: 16,
-  },
-  searchContainer: {
-    marginBottom: 8,
+    gap: 4,
   },
   searchInput: {
     height: 40,
@@ -80,10 +152,86 @@ const styles = StyleSheet.create({
     borderColor: '#e9ecef',
     borderRadius: 8,
     paddingHorizontal: 12,
+    marginBottom: 8,
     backgroundColor: '#f8f9fa',
     fontSize: 14,
     color: '#495057',
   },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    minHeight: 40,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 4,
+    borderWidth: 2,
+    borderColor: '#ced4da',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: 10,
+  },
+  checkboxActive: {
+    borderColor: '#721c24',
+    backgroundColor: '#721c24',
+  },
+  checkboxExcluded: {
+    borderColor: '#dc3545',
+    borderStyle: 'dashed',
+  },
+  checkmark: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#fff',
+  },
+  label: {
+    flex: 1,
+    fontSize: 14,
+    color: '#495057',
+  },
+  emptyRow: {
+    opacity: 0.4,
+  },
+  countText: {
+    fontSize: 12,
+    color: '#6c757d',
+    marginLeft: 8,
+  },
+  countryLabel: {
+    fontWeight: '600',
+  },
+  excludedLabel: {
+    color: '#dc3545',
+    textDecorationLine: 'line-through',
+  },
+  expander: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  expanderIcon: {
+    fontSize: 12,
+    color: '#666',
+    transform: [{ rotate: '-90deg' }],
+  },
+  expanderIconExpanded: {
+    transform: [{ rotate: '0deg' }],
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontStyle: 'italic',
+    marginTop: 8,
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontStyle: 'italic',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#6c757d',
+  },
 });
 
-export default HierarchicalRegionFilter;
\ No newline at end of file
+export default HierarchicalRegionFilter;
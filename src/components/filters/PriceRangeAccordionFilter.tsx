@@ -1,27 +1,36 @@
 import React from 'react';
 import { AccordionItem } from './Accordion';
 import PriceRangeFilter from '../PriceRangeFilter';
+import type { PriceDistribution } from '../../services/repositories';
+import type { CurrencyCode } from '../../services/currencyService';
+import { i18n } from '../../utils/i18n';
 
 interface PriceRangeAccordionFilterProps {
-  minPrice: number;
-  maxPrice: number;
-  onPriceChange: (min: number, max: number) => void;
+  distribution: PriceDistribution | null;
+  currency: CurrencyCode;
+  priceRange: [number, number] | null;
+  priceCurrency: string;
+  onPriceRangeChange: (priceRange: [number, number] | null, priceCurrency: string) => void;
 }
 
 const PriceRangeAccordionFilter: React.FC<PriceRangeAccordionFilterProps> = ({
-  minPrice,
-  maxPrice,
-  onPriceChange,
+  distribution,
+  currency,
+  priceRange,
+  priceCurrency,
+  onPriceRangeChange,
 }) => {
   return (
-    <AccordionItem value="priceRange" title="Price Range">
+    <AccordionItem value="priceRange" title={i18n.t('filters.priceRange')}>
       <PriceRangeFilter
-        minPrice={minPrice}
-        maxPrice={maxPrice}
-        onPriceChange={onPriceChange}
+        distribution={distribution}
+        currency={currency}
+        priceRange={priceRange}
+        priceCurrency={priceCurrency}
+        onPriceRangeChange={onPriceRangeChange}
       />
     </AccordionItem>
   );
 };
 
-export default PriceRangeAccordionFilter;
\ No newline at end of file
+export default PriceRangeAccordionFilter;
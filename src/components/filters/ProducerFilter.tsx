@@ -7,8 +7,9 @@
 
 import React, { useState, useEffect, useCallback } from 'react';
 import { View, Text, TextInput, TouchableOpacity, FlatList, StyleSheet, ActivityIndicator } from 'react-native';
-import { supabase } from '../../lib/supabase';
+import { getWineRepository } from '../../services/repositories';
 import { logger } from '../../utils/logger';
+import { i18n } from '../../utils/i18n';
 
 interface Producer {
   id: string;
@@ -17,7 +18,8 @@ interface Producer {
 
 interface ProducerFilterProps {
   selectedProducerIds: string[];
-  onProducersChange: (producerIds: string[]) => void;
+  excludedProducerIds: string[];
+  onProducersChange: (producerIds: string[], excludedProducerIds: string[]) => void;
 }
 
 /**
@@ -30,37 +32,24 @@ const searchProducers = async (searchTerm: string): Promise<Producer[]> => {
 
   const term = searchTerm.trim();
 
-  const { data, error } = await supabase
-    .from('producers')
-    .select('id, name')
-    .ilike('name', `%${term}%`)
-    .order('name', { ascending: true })
-    .limit(50);
-
-  if (error) {
+  try {
+    return await getWineRepository().searchProducers(term, 50);
+  } catch (error) {
     logger.filterOptions.error('Error searching producers:', error);
     return [];
   }
-
-  return data || [];
 };
 
 /**
  * Get producer by ID
  */
 const getProducerById = async (id: string): Promise<Producer | null> => {
-  const { data, error } = await supabase
-    .from('producers')
-    .select('id, name')
-    .eq('id', id)
-    .maybeSingle();
-
-  if (error) {
+  try {
+    return await getWineRepository().fetchProducerById(id);
+  } catch (error) {
     logger.filterOptions.error('Error fetching producer by ID:', error);
     return null;
   }
-
-  return data;
 };
 
 /**
@@ -82,8 +71,13 @@ const useDebounce = (value: string, delay: number) => {
   return debouncedValue;
 };
 
+/**
+ * Producer search - found producers are added as included, tapping a chip
+ * switches it between included and excluded
+ */
 const ProducerFilter: React.FC<ProducerFilterProps> = ({
   selectedProducerIds,
+  excludedProducerIds,
   onProducersChange,
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
@@ -106,9 +100,9 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
       setIsSearching(true);
       try {
         const results = await searchProducers(debouncedSearchTerm);
-        // Filter out already selected producers
+        // Filter out already selected or excluded producers
         const filtered = results.filter(
-          producer => !selectedProducerIds.includes(producer.id)
+          producer => !selectedProducerIds.includes(producer.id) && !excludedProducerIds.includes(producer.id)
         );
         setSearchResults(filtered);
         setShowResults(filtered.length > 0);
@@ -122,19 +116,20 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
     };
 
     performSearch();
-  }, [debouncedSearchTerm, selectedProducerIds]);
+  }, [debouncedSearchTerm, selectedProducerIds, excludedProducerIds]);
 
-  // Load selected producers' details when IDs change
+  // Load selected and excluded producers' details when IDs change
+  const chosenProducerIds = [...selectedProducerIds, ...excludedProducerIds];
   useEffect(() => {
     const loadSelectedProducers = async () => {
-      if (selectedProducerIds.length === 0) {
+      if (chosenProducerIds.length === 0) {
         setSelectedProducers([]);
         return;
       }
 
       // Only reload if IDs have actually changed
       const currentIds = selectedProducers.map(p => p.id).sort().join(',');
-      const newIds = [...selectedProducerIds].sort().join(',');
+      const newIds = [...chosenProducerIds].sort().join(',');
       
       if (currentIds === newIds) {
         return; // No change, skip reload
@@ -142,7 +137,7 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
       
       // Load all selected producers from database
       const loadedProducers: Producer[] = [];
-      for (const id of selectedProducerIds) {
+      for (const id of chosenProducerIds) {
         try {
           const producer = await getProducerById(id);
           if (producer) {
@@ -157,22 +152,38 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
 
     loadSelectedProducers();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [selectedProducerIds.join(',')]);
+  }, [chosenProducerIds.join(',')]);
 
   const handleSelectProducer = useCallback((producer: Producer) => {
     const newIds = [...selectedProducerIds, producer.id];
-    onProducersChange(newIds);
+    onProducersChange(newIds, excludedProducerIds);
     setSearchTerm('');
     setShowResults(false);
-  }, [selectedProducerIds, onProducersChange]);
+  }, [selectedProducerIds, excludedProducerIds, onProducersChange]);
+
+  const handleToggleExcluded = useCallback((producerId: string) => {
+    if (excludedProducerIds.includes(producerId)) {
+      onProducersChange(
+        [...selectedProducerIds, producerId],
+        excludedProducerIds.filter(id => id !== producerId)
+      );
+    } else {
+      onProducersChange(
+        selectedProducerIds.filter(id => id !== producerId),
+        [...excludedProducerIds, producerId]
+      );
+    }
+  }, [selectedProducerIds, excludedProducerIds, onProducersChange]);
 
   const handleRemoveProducer = useCallback((producerId: string) => {
-    const newIds = selectedProducerIds.filter(id => id !== producerId);
-    onProducersChange(newIds);
-  }, [selectedProducerIds, onProducersChange]);
+    onProducersChange(
+      selectedProducerIds.filter(id => id !== producerId),
+      excludedProducerIds.filter(id => id !== producerId)
+    );
+  }, [selectedProducerIds, excludedProducerIds, onProducersChange]);
 
   const handleClearAll = useCallback(() => {
-    onProducersChange([]);
+    onProducersChange([], []);
   }, [onProducersChange]);
 
   return (
@@ -180,7 +191,7 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
       {/* Search Input */}
       <TextInput
         style={styles.searchInput}
-        placeholder="Produzent suchen..."
+        placeholder={i18n.t('filters.searchProducers')}
         value={searchTerm}
         onChangeText={setSearchTerm}
         onFocus={() => searchResults.length > 0 && setShowResults(true)}
@@ -194,7 +205,7 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
           {isSearching ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="small" color="#722F37" />
-              <Text style={styles.loadingText}>Suche läuft...</Text>
+              <Text style={styles.loadingText}>{i18n.t('filters.searching')}</Text>
             </View>
           ) : searchResults.length > 0 ? (
             <View style={styles.searchResultsList}>
@@ -210,7 +221,7 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
             </View>
           ) : (
             <View style={styles.noResultsContainer}>
-              <Text style={styles.noResultsText}>Keine Produzenten gefunden</Text>
+              <Text style={styles.noResultsText}>{i18n.t('filters.noProducers')}</Text>
             </View>
           )}
         </View>
@@ -221,24 +232,31 @@ const ProducerFilter: React.FC<ProducerFilterProps> = ({
         <View style={styles.selectedContainer}>
           <View style={styles.selectedHeader}>
             <Text style={styles.selectedTitle}>
-              Ausgewählt ({selectedProducers.length})
+              {i18n.t('filters.selected')} ({selectedProducers.length})
             </Text>
             <TouchableOpacity onPress={handleClearAll}>
-              <Text style={styles.clearAllText}>Alle löschen</Text>
+              <Text style={styles.clearAllText}>{i18n.t('filters.clearAll')}</Text>
             </TouchableOpacity>
           </View>
           <View style={styles.chipsContainer}>
-            {selectedProducers.map((producer) => (
-              <View key={producer.id} style={styles.chip}>
-                <Text style={styles.chipText}>{producer.name}</Text>
-                <TouchableOpacity
-                  onPress={() => handleRemoveProducer(producer.id)}
-                  style={styles.chipRemoveButton}
-                >
-                  <Text style={styles.chipRemoveText}>×</Text>
-                </TouchableOpacity>
-              </View>
-            ))}
+            {selectedProducers.map((producer) => {
+              const isExcluded = excludedProducerIds.includes(producer.id);
+              return (
+                <View key={producer.id} style={[styles.chip, isExcluded && styles.excludedChip]}>
+                  <TouchableOpacity onPress={() => handleToggleExcluded(producer.id)}>
+                    <Text style={[styles.chipText, isExcluded && styles.excludedChipText]}>
+                      {isExcluded ? `− ${producer.name}` : producer.name}
+                    </Text>
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    onPress={() => handleRemoveProducer(producer.id)}
+                    style={styles.chipRemoveButton}
+                  >
+                    <Text style={styles.chipRemoveText}>×</Text>
+                  </TouchableOpacity>
+                </View>
+              );
+            })}
           </View>
         </View>
       )}
@@ -338,6 +356,16 @@ const styles = StyleSheet.create({
     fontSize: 13,
     color: '#374151',
   },
+  excludedChip: {
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#dc3545',
+    borderStyle: 'dashed',
+  },
+  excludedChipText: {
+    color: '#dc3545',
+    textDecorationLine: 'line-through',
+  },
   chipRemoveButton: {
     width: 20,
     height: 20,
@@ -0,0 +1,182 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, PanResponder, StyleSheet, LayoutChangeEvent } from 'react-native';
+
+interface RangeSliderProps {
+  min: number;
+  max: number;
+  step?: number;
+  values: [number, number];
+  onChange: (values: [number, number]) => void;  // Called when a thumb is released
+  formatLabel?: (value: number) => string;
+  histogram?: number[];  // Counts of equally wide buckets between min and max, drawn above the track
+}
+
+const THUMB_SIZE = 24;
+const HISTOGRAM_HEIGHT = 48;
+
+type Thumb = 0 | 1;
+
+/**
+ * Slider with two thumbs for a lower and an upper bound
+ * The thumbs can't pass each other, values snap to the step. With a histogram,
+ * the buckets inside the selected range are highlighted.
+ */
+const RangeSlider: React.FC<RangeSliderProps> = ({
+  min,
+  max,
+  step = 1,
+  values,
+  onChange,
+  formatLabel = value => value.toString(),
+  histogram,
+}) => {
+  const [current, setCurrent] = useState<[number, number]>(values);
+  const [trackWidth, setTrackWidth] = useState(0);
+
+  // The pan handlers are created once, they read everything through this ref
+  const state = useRef({ current, trackWidth, min, max, step, onChange, dragStart: 0 });
+  state.current = { ...state.current, current, trackWidth, min, max, step, onChange };
+
+  // Follow changes from outside, e.g. a reset of the filter
+  useEffect(() => {
+    setCurrent(values);
+  }, [values]);
+
+  const createResponder = (thumb: Thumb) =>
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => {
+        state.current.dragStart = state.current.current[thumb];
+      },
+      onPanResponderMove: (_, gesture) => {
+        const { trackWidth: width, min: lower, max: upper, step: stepSize, dragStart } = state.current;
+        if (width === 0 || upper <= lower) return;
+
+        const raw = dragStart + (gesture.dx / width) * (upper - lower);
+        const snapped = lower + Math.round((raw - lower) / stepSize) * stepSize;
+        const [low, high] = state.current.current;
+        const value = thumb === 0
+          ? Math.min(Math.max(snapped, lower), high)
+          : Math.max(Math.min(snapped, upper), low);
+
+        const next: [number, number] = thumb === 0 ? [value, high] : [low, value];
+        state.current.current = next;
+        setCurrent(next);
+      },
+      onPanResponderRelease: () => {
+        state.current.onChange(state.current.current);
+      },
+    });
+
+  const lowResponder = useRef(createResponder(0)).current;
+  const highResponder = useRef(createResponder(1)).current;
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackWidth(event.nativeEvent.layout.width - THUMB_SIZE);
+  };
+
+  const offsetOf = (value: number) =>
+    max > min ? ((value - min) / (max - min)) * trackWidth : 0;
+
+  const lowOffset = offsetOf(current[0]);
+  const highOffset = offsetOf(current[1]);
+
+  const highestCount = histogram ? Math.max(...histogram, 1) : 1;
+  const bucketWidth = histogram && histogram.length > 0 ? (max - min) / histogram.length : 0;
+  const isBucketSelected = (index: number) => {
+    const center = min + (index + 0.5) * bucketWidth;
+    return center >= current[0] && center <= current[1];
+  };
+
+  return (
+    <View>
+      <View style={styles.labels}>
+        <Text style={styles.label}>{formatLabel(current[0])}</Text>
+        <Text style={styles.label}>{formatLabel(current[1])}</Text>
+      </View>
+
+      {histogram && histogram.length > 0 && (
+        <View style={styles.histogram}>
+          {histogram.map((count, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                { height: (count / highestCount) * HISTOGRAM_HEIGHT },
+                isBucketSelected(index) && styles.selectedBar,
+              ]}
+            />
+          ))}
+        </View>
+      )}
+
+      <View style={styles.slider} onLayout={handleLayout}>
+        <View style={styles.track} />
+        <View style={[styles.selectedTrack, { left: lowOffset + THUMB_SIZE / 2, width: highOffset - lowOffset }]} />
+        <View style={[styles.thumb, { left: lowOffset }]} {...lowResponder.panHandlers} hitSlop={12} />
+        <View style={[styles.thumb, { left: highOffset }]} {...highResponder.panHandlers} hitSlop={12} />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#495057',
+  },
+  histogram: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: HISTOGRAM_HEIGHT,
+    marginHorizontal: THUMB_SIZE / 2,
+    gap: 1,
+  },
+  bar: {
+    flex: 1,
+    minHeight: 1,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+    backgroundColor: '#dee2e6',
+  },
+  selectedBar: {
+    backgroundColor: 'rgba(114, 28, 36, 0.5)',
+  },
+  slider: {
+    height: THUMB_SIZE,
+    justifyContent: 'center',
+  },
+  track: {
+    position: 'absolute',
+    left: THUMB_SIZE / 2,
+    right: THUMB_SIZE / 2,
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e9ecef',
+  },
+  selectedTrack: {
+    position: 'absolute',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#721c24',
+  },
+  thumb: {
+    position: 'absolute',
+    width: THUMB_SIZE,
+    height: THUMB_SIZE,
+    borderRadius: THUMB_SIZE / 2,
+    backgroundColor: '#fff',
+    borderWidth: 2,
+    borderColor: '#721c24',
+  },
+});
+
+export default RangeSlider;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import FilterOptionButtons from './FilterOptionButtons';
+import { BODY_LEVELS, STRUCTURE_LEVELS } from '../../services/wineMapper';
+import { countsForOptions } from '../../services/facetCountService';
+import type { FacetCounts } from '../../services/repositories';
+import { i18n } from '../../utils/i18n';
+
+type SensoryCategory = 'body' | 'acidity' | 'tannin';
+
+interface SensoryProfileFilterProps {
+  body: string[];
+  acidity: string[];
+  tannin: string[];
+  excluded: Partial<Record<SensoryCategory, string[]>>;
+  counts?: FacetCounts | null;
+  onToggleOption: (category: SensoryCategory, value: string) => void;
+}
+
+const LEVELS: Record<SensoryCategory, readonly string[]> = {
+  body: BODY_LEVELS,
+  acidity: STRUCTURE_LEVELS,
+  tannin: STRUCTURE_LEVELS,
+};
+
+/**
+ * Body, acidity and tannin chips, labelled with the wine property translations
+ */
+const SensoryProfileFilter: React.FC<SensoryProfileFilterProps> = ({
+  body,
+  acidity,
+  tannin,
+  excluded,
+  counts,
+  onToggleOption,
+}) => {
+  const selected: Record<SensoryCategory, string[]> = { body, acidity, tannin };
+
+  return (
+    <View style={styles.container}>
+      {(Object.keys(LEVELS) as SensoryCategory[]).map(category => {
+        const options = [...LEVELS[category]];
+        const labelMap = options.reduce<Record<string, string>>((acc, option) => {
+          acc[option] = i18n.translateWineProperty(category, option);
+          return acc;
+        }, {});
+
+        return (
+          <View key={category}>
+            <Text style={styles.label}>{i18n.t(`ui.${category}`)}</Text>
+            <FilterOptionButtons
+              options={options}
+              selectedOptions={selected[category]}
+              excludedOptions={excluded[category]}
+              counts={countsForOptions(counts ?? null, category, options)}
+              onToggleOption={value => onToggleOption(category, value)}
+              labelMap={labelMap}
+            />
+          </View>
+        );
+      })}
+      <Text style={styles.hint}>{i18n.t('ui.sensoryProfileHint')}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  label: {
+    fontSize: 14,
+    color: '#495057',
+    marginBottom: 8,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontStyle: 'italic',
+  },
+});
+
+export default SensoryProfileFilter;
@@ -0,0 +1,85 @@
+import React from 'react';
+import { View, Text, Switch, StyleSheet } from 'react-native';
+import RangeSlider from './RangeSlider';
+import type { NumberRange } from '../../services/repositories';
+import { i18n } from '../../utils/i18n';
+
+interface VintageFilterProps {
+  bounds: NumberRange | null;  // Oldest and newest vintage in the catalogue
+  vintageRange: [number, number] | null;
+  includeNonVintage: boolean;
+  onVintageRangeChange: (vintageRange: [number, number] | null) => void;
+  onIncludeNonVintageChange: (includeNonVintage: boolean) => void;
+}
+
+/**
+ * Vintage range slider between the catalogue's oldest and newest vintage,
+ * and whether non-vintage wines are shown
+ * A range covering all vintages is stored as null, so new vintages are not cut off
+ */
+const VintageFilter: React.FC<VintageFilterProps> = ({
+  bounds,
+  vintageRange,
+  includeNonVintage,
+  onVintageRangeChange,
+  onIncludeNonVintageChange,
+}) => {
+  const handleRangeChange = ([from, to]: [number, number]) => {
+    const coversAll = bounds !== null && from <= bounds.min && to >= bounds.max;
+    onVintageRangeChange(coversAll ? null : [from, to]);
+  };
+
+  return (
+    <View style={styles.container}>
+      {bounds ? (
+        <>
+          <RangeSlider
+            min={bounds.min}
+            max={bounds.max}
+            values={vintageRange ?? [bounds.min, bounds.max]}
+            onChange={handleRangeChange}
+          />
+          {!vintageRange && <Text style={styles.hint}>{i18n.t('ui.vintageAny')}</Text>}
+        </>
+      ) : (
+        <Text style={styles.loadingText}>{i18n.t('filters.loadingVintages')}</Text>
+      )}
+
+      <View style={styles.switchRow}>
+        <Text style={styles.label}>{i18n.t('ui.includeNonVintage')}</Text>
+        <Switch
+          value={includeNonVintage}
+          onValueChange={onIncludeNonVintageChange}
+          trackColor={{ true: '#721c24' }}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#6c757d',
+    fontStyle: 'italic',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  label: {
+    fontSize: 14,
+    color: '#495057',
+  },
+  loadingText: {
+    fontSize: 14,
+    color: '#6c757d',
+    fontStyle: 'italic',
+  },
+});
+
+export default VintageFilter;
@@ -1,16 +1,21 @@
 import React from 'react';
 import { View, Text, StyleSheet } from 'react-native';
 import FilterOptionButtons from './FilterOptionButtons';
+import { i18n } from '../../utils/i18n';
 
 interface WineTypeFilterProps {
   options: string[];
   selectedOptions: string[];
+  excludedOptions?: string[];
+  counts?: Record<string, number> | null;
   onToggleOption: (value: string) => void;
 }
 
 const WineTypeFilter: React.FC<WineTypeFilterProps> = ({
   options,
   selectedOptions,
+  excludedOptions,
+  counts,
   onToggleOption,
 }) => {
   return (
@@ -19,12 +24,14 @@ const WineTypeFilter: React.FC<WineTypeFilterProps> = ({
         <FilterOptionButtons
           options={options}
           selectedOptions={selectedOptions}
+          excludedOptions={excludedOptions}
+          counts={counts}
           onToggleOption={onToggleOption}
           category="wineType"
         />
       ) : (
         <View style={styles.loadingContainer}>
-          <Text style={styles.loadingText}>Loading wine types...</Text>
+          <Text style={styles.loadingText}>{i18n.t('filters.loadingWineTypes')}</Text>
         </View>
       )}
     </View>
@@ -4,8 +4,12 @@ export { default as FilterHeader } from './FilterHeader';
 export { default as FilterActions } from './FilterActions';
 export { default as FilterOptionButtons } from './FilterOptionButtons';
 export { default as GrapeFilter } from './GrapeFilter';
+export { default as GrapeBlendFilter } from './GrapeBlendFilter';
 export { default as CountryFilter } from './CountryFilter';
 export { default as HierarchicalRegionFilter } from './HierarchicalRegionFilter';
 export { default as WineTypeFilter } from './WineTypeFilter';
 export { default as CharacteristicFilter } from './CharacteristicFilter';
-export { default as PriceRangeAccordionFilter } from './PriceRangeAccordionFilter';
\ No newline at end of file
+export { default as PriceRangeAccordionFilter } from './PriceRangeAccordionFilter';
+export { default as RangeSlider } from './RangeSlider';
+export { default as CurrencySelector } from './CurrencySelector';
+export { default as VintageFilter } from './VintageFilter';
\ No newline at end of file
@@ -0,0 +1,41 @@
+import { useState, useEffect, useCallback } from 'react';
+import { catalogueSyncService, CatalogueSyncStatus } from '../services/catalogueSyncService';
+import { localCatalogue } from '../services/localCatalogue';
+
+interface CatalogueSync extends CatalogueSyncStatus {
+  enabled: boolean;     // False when the backend has no local catalogue
+  syncNow: () => void;
+}
+
+/**
+ * Custom hook for the sync status of the local wine catalogue
+ */
+export const useCatalogueSync = (): CatalogueSync => {
+  const [status, setStatus] = useState<CatalogueSyncStatus>(() => catalogueSyncService.getStatus());
+
+  useEffect(() => {
+    let active = true;
+
+    // lastSyncedAt is known once the stored catalogue is loaded
+    localCatalogue.load().then(() => {
+      if (active) setStatus(catalogueSyncService.getStatus());
+    });
+    const unsubscribe = catalogueSyncService.subscribe(setStatus);
+
+    return () => {
+      active = false;
+      unsubscribe();
+    };
+  }, []);
+
+  const syncNow = useCallback(() => {
+    // Failures are reported through the status
+    catalogueSyncService.sync().catch(() => {});
+  }, []);
+
+  return {
+    ...status,
+    enabled: catalogueSyncService.isEnabled(),
+    syncNow,
+  };
+};
@@ -0,0 +1,22 @@
+import { useState, useEffect, useCallback } from 'react';
+import { currencyService, CurrencyCode } from '../services/currencyService';
+
+/**
+ * Custom hook for the currency prices are shown in
+ * Returns the current display currency and a setter that persists the choice
+ */
+export const useDisplayCurrency = (): [CurrencyCode, (currency: CurrencyCode) => void] => {
+  const [currency, setCurrency] = useState<CurrencyCode>(() => currencyService.getDisplayCurrency());
+
+  useEffect(() => {
+    // The stored choice may have been read before this component subscribed
+    setCurrency(currencyService.getDisplayCurrency());
+    return currencyService.subscribe(setCurrency);
+  }, []);
+
+  const setDisplayCurrency = useCallback((next: CurrencyCode) => {
+    currencyService.setDisplayCurrency(next);
+  }, []);
+
+  return [currency, setDisplayCurrency];
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { FilterPreset, WineFilter } from '../types';
+import { filterPresetService } from '../services/filterPresetService';
+
+interface FilterPresets {
+  presets: FilterPreset[];
+  savePreset: (name: string, filter: WineFilter) => Promise<void>;
+  renamePreset: (presetId: string, name: string) => Promise<void>;
+  deletePreset: (presetId: string) => Promise<void>;
+  movePreset: (presetId: string, offset: -1 | 1) => Promise<void>;
+  setDefaultPreset: (presetId: string | null) => Promise<void>;
+}
+
+/**
+ * Custom hook for the filter presets of the signed-in user or the guest
+ * The list is reloaded after every change - errors of a change are passed on
+ * to the caller, the list then shows what was actually stored.
+ */
+export const useFilterPresets = (userId: string | undefined, enabled: boolean): FilterPresets => {
+  const [presets, setPresets] = useState<FilterPreset[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let active = true;
+    filterPresetService.getPresets(userId).then(loaded => {
+      if (active) setPresets(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [userId, enabled, version]);
+
+  const change = useCallback(async (operation: () => Promise<unknown>) => {
+    try {
+      await operation();
+    } finally {
+      setVersion(v => v + 1);
+    }
+  }, []);
+
+  const savePreset = useCallback(
+    (name: string, filter: WineFilter) => change(() => filterPresetService.createPreset(userId, name, filter)),
+    [change, userId]
+  );
+
+  const renamePreset = useCallback(
+    (presetId: string, name: string) => change(() => filterPresetService.renamePreset(userId, presetId, name)),
+    [change, userId]
+  );
+
+  const deletePreset = useCallback(
+    (presetId: string) => change(() => filterPresetService.deletePreset(userId, presetId)),
+    [change, userId]
+  );
+
+  const movePreset = useCallback(
+    (presetId: string, offset: -1 | 1) => {
+      const ids = presets.map(preset => preset.id);
+      const from = ids.indexOf(presetId);
+      const to = from + offset;
+      if (from < 0 || to < 0 || to >= ids.length) return Promise.resolve();
+
+      [ids[from], ids[to]] = [ids[to], ids[from]];
+      return change(() => filterPresetService.reorderPresets(userId, ids));
+    },
+    [change, userId, presets]
+  );
+
+  const setDefaultPreset = useCallback(
+    (presetId: string | null) => change(() => filterPresetService.setDefaultPreset(userId, presetId)),
+    [change, userId]
+  );
+
+  return { presets, savePreset, renamePreset, deletePreset, movePreset, setDefaultPreset };
+};
@@ -0,0 +1,86 @@
+import { useState, useEffect } from 'react';
+import { Wine, WineFilter } from '../types';
+import { countUnratedWines, countWines, fetchUnratedWines, fetchWines } from '../services/wineQueries';
+import { fetchFacetCounts } from '../services/facetCountService';
+import { getGuestDeckSeed } from '../services/deckOrder';
+import { useLanguage } from './useLanguage';
+import type { FacetCounts } from '../services/repositories';
+import { convertToDBFilter } from '../utils/filterUtils';
+import { logger } from '../utils/logger';
+
+// Wait until the user stops toggling options before querying
+const PREVIEW_DEBOUNCE_MS = 400;
+
+// Bottles shown in the preview strip
+const PREVIEW_SIZE = 5;
+
+interface FilterPreview {
+  count: number | null;             // Matching wines, null until the first result
+  wines: Wine[];                    // First wines of the deck the filter would give
+  facetCounts: FacetCounts | null;  // Wines per filter option
+  loading: boolean;
+}
+
+/**
+ * Custom hook for the live result of a filter that is still being edited
+ * Every change starts a new (debounced) preview and aborts the requests of the
+ * previous one, so the shown numbers always belong to the latest filter. The
+ * last result stays visible until the new one arrives.
+ */
+export const useFilterPreview = (filter: WineFilter, enabled: boolean, userId?: string): FilterPreview => {
+  const [count, setCount] = useState<number | null>(null);
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [facetCounts, setFacetCounts] = useState<FacetCounts | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [language] = useLanguage();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setLoading(true);
+
+    const loadPreview = async () => {
+      const dbFilter = await convertToDBFilter(filter);
+      const seed = userId ?? (await getGuestDeckSeed());
+      const pageOptions = { pageSize: PREVIEW_SIZE, order: filter.order, seed, signal, languageCode: language };
+
+      // Signed-in users only get the wines they have not rated, like in the deck
+      const [wineCount, page, facets] = await Promise.all([
+        userId ? countUnratedWines(userId, dbFilter, signal) : countWines(dbFilter, signal),
+        userId ? fetchUnratedWines(userId, dbFilter, pageOptions) : fetchWines(dbFilter, pageOptions),
+        // Without counts the options are just shown without numbers
+        fetchFacetCounts(dbFilter, userId, signal).catch(() => null),
+      ]);
+      if (signal.aborted) return;
+
+      setCount(wineCount);
+      setWines(page.wines);
+      if (facets) {
+        setFacetCounts(facets);
+      }
+    };
+
+    const timer = setTimeout(() => {
+      loadPreview()
+        .catch(error => {
+          if (!signal.aborted) {
+            logger.filterOptions.error('Error loading filter preview:', error);
+          }
+        })
+        .finally(() => {
+          if (!signal.aborted) {
+            setLoading(false);
+          }
+        });
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [filter, enabled, userId, language]);
+
+  return { count, wines, facetCounts, loading };
+};
@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react';
+import { WineFilter } from '../types';
+import { fetchRegionTree, RegionNode } from '../services/filterOptionsService';
+import { getWineRepository } from '../services/repositories';
+import { useDisplayCurrency } from './useDisplayCurrency';
+import { useLanguage } from './useLanguage';
+import { FilterChip, summarizeFilter } from '../utils/filterSummary';
+import { Language } from '../utils/i18n';
+import { logger } from '../utils/logger';
+
+const hasOrigin = (filter: WineFilter): boolean =>
+  [filter.country, filter.region, filter.excluded?.country, filter.excluded?.region]
+    .some(values => (values || []).length > 0);
+
+/**
+ * Custom hook for the chips of the active filter
+ * The region tree and producer names are only loaded once the filter needs
+ * them. Until then the chips show the raw values (or '…' for producers).
+ * The chips follow the app language and the display currency.
+ */
+export const useFilterSummary = (filter: WineFilter): FilterChip[] => {
+  const [language] = useLanguage();
+  // Tree of the language it was loaded in - the old labels stay until the new ones arrive
+  const [regionTree, setRegionTree] = useState<{ language: Language; nodes: RegionNode[] } | null>(null);
+  const [producerNames, setProducerNames] = useState<Record<string, string>>({});
+  const [displayCurrency] = useDisplayCurrency();
+
+  const needsRegionTree = regionTree?.language !== language && hasOrigin(filter);
+
+  useEffect(() => {
+    if (!needsRegionTree) return;
+
+    let active = true;
+    fetchRegionTree(language)
+      .then(nodes => {
+        if (active) setRegionTree({ language, nodes });
+      })
+      .catch(error => logger.filterOptions.error('Error loading regions for the filter summary:', error));
+    return () => {
+      active = false;
+    };
+  }, [needsRegionTree, language]);
+
+  const missingProducerIds = [...(filter.producer || []), ...(filter.excluded?.producer || [])]
+    .filter(id => !(id in producerNames))
+    .join(',');
+
+  useEffect(() => {
+    if (!missingProducerIds) return;
+
+    let active = true;
+    Promise.all(
+      missingProducerIds.split(',').map(id =>
+        getWineRepository()
+          .fetchProducerById(id)
+          .then(producer => [id, producer?.name ?? '…'] as const)
+          .catch(error => {
+            logger.filterOptions.error('Error fetching producer by ID:', error);
+            return [id, '…'] as const;
+          })
+      )
+    ).then(entries => {
+      if (active) setProducerNames(names => ({ ...names, ...Object.fromEntries(entries) }));
+    });
+    return () => {
+      active = false;
+    };
+  }, [missingProducerIds]);
+
+  // Summarized on every render, labels are translated in the current language
+  return summarizeFilter(filter, { regionTree: regionTree?.nodes, producerNames, currency: displayCurrency });
+};
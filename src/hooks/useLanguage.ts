@@ -0,0 +1,23 @@
+import { useState, useEffect, useCallback } from 'react';
+import { languageService } from '../services/languageService';
+import { Language } from '../utils/i18n';
+
+/**
+ * Custom hook for the app language
+ * Returns the current language and a setter that applies and persists the choice
+ */
+export const useLanguage = (): [Language, (language: Language) => void] => {
+  const [language, setLanguageState] = useState<Language>(() => languageService.getLanguage());
+
+  useEffect(() => {
+    // The stored choice may have been applied before this component subscribed
+    setLanguageState(languageService.getLanguage());
+    return languageService.subscribe(setLanguageState);
+  }, []);
+
+  const setLanguage = useCallback((next: Language) => {
+    languageService.setLanguage(next);
+  }, []);
+
+  return [language, setLanguage];
+};
@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Wine, WineFilter, WinePage } from '../types';
+import { fetchWines } from '../services/wineQueries';
+import { userPreferenceService } from '../services/userPreferenceService';
+import { getGuestDeckSeed } from '../services/deckOrder';
+import { useLanguage } from './useLanguage';
+import { convertToDBFilter } from '../utils/filterUtils';
+import { logger } from '../utils/logger';
+
+interface WineDeck {
+  wines: Wine[];
+  loading: boolean;       // First page is loading
+  loadingMore: boolean;   // A follow-up page is loading
+  hasMore: boolean;
+  loadMore: () => void;
+  generation: number;     // Incremented whenever the deck is loaded from the first page
+}
+
+/**
+ * Custom hook for the paginated swipe deck
+ * Loads the first page whenever the filter, the user or the app language
+ * changes and appends further pages on demand via loadMore - works with or
+ * without user login
+ * The deck comes in the filter's order; the random order is seeded with the
+ * user ID (or a per-device seed for guests), so it survives reloads
+ */
+export const useWineDeck = (filter: WineFilter, userId?: string): WineDeck => {
+  const [wines, setWines] = useState<Wine[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [generation, setGeneration] = useState(0);
+  const [language] = useLanguage();
+
+  // Incremented on every reload so responses for an outdated filter or user are dropped
+  const deckVersion = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  const loadPage = useCallback(async (cursor: string | null): Promise<WinePage> => {
+    // Convert frontend filter to database filter
+    const dbFilter = await convertToDBFilter(filter);
+    const options = {
+      cursor,
+      order: filter.order,
+      seed: userId ?? (await getGuestDeckSeed()),
+      languageCode: language,
+    };
+
+    // If user is logged in, get unrated wines for them
+    if (userId) {
+      return userPreferenceService.getUnratedWinesWithFilters(userId, dbFilter, options);
+    }
+
+    // Guest mode: load wines with filters applied
+    return fetchWines(dbFilter, options);
+  }, [filter, userId, language]);
+
+  // Reload the deck from the first page
+  useEffect(() => {
+    const version = ++deckVersion.current;
+    setGeneration(version);
+    loadingMoreRef.current = false;
+    setLoading(true);
+    setLoadingMore(false);
+    setWines([]);
+    setNextCursor(null);
+
+    loadPage(null)
+      .then(page => {
+        if (version !== deckVersion.current) return;
+        logger.swipe.info('Loaded first deck page:', page.wines.length, 'wines');
+        setWines(page.wines);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => {
+        logger.swipe.error('Error loading wine deck:', error);
+      })
+      .finally(() => {
+        if (version === deckVersion.current) {
+          setLoading(false);
+        }
+      });
+  }, [loadPage]);
+
+  // Append the next page to the deck
+  const loadMore = useCallback(() => {
+    if (!nextCursor || loadingMoreRef.current) return;
+
+    const version = deckVersion.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    loadPage(nextCursor)
+      .then(page => {
+        if (version !== deckVersion.current) return;
+        logger.swipe.info('Loaded next deck page:', page.wines.length, 'wines');
+        setWines(prev => [...prev, ...page.wines]);
+        setNextCursor(page.nextCursor);
+      })
+      .catch(error => {
+        logger.swipe.error('Error loading next deck page:', error);
+        // Stop paging so the deck does not retry the failing request in a loop
+        if (version === deckVersion.current) {
+          setNextCursor(null);
+        }
+      })
+      .finally(() => {
+        if (version === deckVersion.current) {
+          loadingMoreRef.current = false;
+          setLoadingMore(false);
+        }
+      });
+  }, [nextCursor, loadPage]);
+
+  return {
+    wines,
+    loading,
+    loadingMore,
+    hasMore: nextCursor !== null,
+    loadMore,
+    generation,
+  };
+};
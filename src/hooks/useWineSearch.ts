@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Wine } from '../types';
+import { searchWines } from '../services/wineSearchService';
+import { useLanguage } from './useLanguage';
+import { logger } from '../utils/logger';
+
+// Wait until the user stops typing before querying the database
+const SEARCH_DEBOUNCE_MS = 300;
+
+interface WineSearch {
+  results: Wine[];
+  loading: boolean;       // First page is loading
+  loadingMore: boolean;   // A follow-up page is loading
+  hasMore: boolean;
+  error: boolean;
+  loadMore: () => void;
+}
+
+/**
+ * Custom hook for the full-text wine search
+ * Searches (debounced) whenever the query or the app language changes and
+ * appends further result pages on demand via loadMore
+ */
+export const useWineSearch = (query: string): WineSearch => {
+  const [results, setResults] = useState<Wine[]>([]);
+  const [nextOffset, setNextOffset] = useState<number | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState(false);
+  const [language] = useLanguage();
+
+  // Incremented for every new query so responses for an outdated query are dropped
+  const searchVersion = useRef(0);
+  const loadingMoreRef = useRef(false);
+
+  useEffect(() => {
+    const version = ++searchVersion.current;
+    loadingMoreRef.current = false;
+    setLoadingMore(false);
+    setError(false);
+    setNextOffset(null);
+
+    if (query.trim().length === 0) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    const timer = setTimeout(() => {
+      searchWines(query, { languageCode: language })
+        .then(page => {
+          if (version !== searchVersion.current) return;
+          logger.wines.info('Search found', page.wines.length, 'wines');
+          setResults(page.wines);
+          setNextOffset(page.nextOffset);
+        })
+        .catch(searchError => {
+          logger.wines.error('Error searching wines:', searchError);
+          if (version === searchVersion.current) {
+            setResults([]);
+            setError(true);
+          }
+        })
+        .finally(() => {
+          if (version === searchVersion.current) {
+            setLoading(false);
+          }
+        });
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, language]);
+
+  // Append the next page of results
+  const loadMore = useCallback(() => {
+    if (nextOffset === null || loadingMoreRef.current) return;
+
+    const version = searchVersion.current;
+    loadingMoreRef.current = true;
+    setLoadingMore(true);
+
+    searchWines(query, { offset: nextOffset, languageCode: language })
+      .then(page => {
+        if (version !== searchVersion.current) return;
+        setResults(prev => [...prev, ...page.wines]);
+        setNextOffset(page.nextOffset);
+      })
+      .catch(searchError => {
+        logger.wines.error('Error loading more search results:', searchError);
+        // Stop paging so the list does not retry the failing request in a loop
+        if (version === searchVersion.current) {
+          setNextOffset(null);
+        }
+      })
+      .finally(() => {
+        if (version === searchVersion.current) {
+          loadingMoreRef.current = false;
+          setLoadingMore(false);
+        }
+      });
+  }, [query, nextOffset, language]);
+
+  return {
+    results,
+    loading,
+    loadingMore,
+    hasMore: nextOffset !== null,
+    error,
+    loadMore,
+  };
+};
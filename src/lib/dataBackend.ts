@@ -0,0 +1,7 @@
+import type { DataBackend } from '../services/repositories';
+
+// Datenquelle der App - 'memory' für Offline-Demos mit dem Fixture-Katalog (src/data/fixtureCatalogue.json)
+export const DATA_BACKEND: DataBackend = 'supabase';
+
+// Deck aus dem lokalen Katalog laden und im Hintergrund synchronisieren (nur Supabase)
+export const OFFLINE_FIRST = true;
@@ -0,0 +1,162 @@
+import { localCatalogue } from './localCatalogue';
+import { validateWineRows } from './wineRowSchema';
+import type { WineRepository } from './repositories';
+import { logger } from '../utils/logger';
+
+/**
+ * Catalogue Sync Service
+ * Keeps the local catalogue up to date with incremental syncs:
+ * - wines changed since the last sync (by updated_at), in batches - the server
+ *   also bumps updated_at when euro prices, grape names or translations of a
+ *   wine change (see 20261019210000_wine_sync_source_changes.sql); like counts
+ *   stay as they were downloaded
+ * - tombstones of wines deleted since the last sync
+ * - grapes and reference data, which are small and replaced completely
+ *
+ * Progress is stored after every batch, an interrupted sync continues where it stopped.
+ */
+
+// Wines per batch - the UUIDs end up in the URL of the row query
+const SYNC_BATCH_SIZE = 100;
+
+// Background syncs run at most this often
+const BACKGROUND_SYNC_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface CatalogueSyncStatus {
+  syncing: boolean;
+  lastSyncedAt: string | null;  // ISO timestamp, null before the first sync
+  error: unknown;               // Error of the last sync, null if it succeeded
+}
+
+type StatusListener = (status: CatalogueSyncStatus) => void;
+
+class CatalogueSyncService {
+  private source: WineRepository | null = null;
+  private running: Promise<void> | null = null;
+  private lastBackgroundSync = 0;
+  private syncing = false;
+  private lastError: unknown = null;
+  private readonly listeners = new Set<StatusListener>();
+
+  /**
+   * Set the repository the catalogue is synced from - without one, sync does nothing
+   */
+  setSource(source: WineRepository | null): void {
+    this.source = source;
+  }
+
+  isEnabled(): boolean {
+    return this.source !== null;
+  }
+
+  /**
+   * Current status - lastSyncedAt is only known once the local catalogue has been loaded
+   */
+  getStatus(): CatalogueSyncStatus {
+    return { syncing: this.syncing, lastSyncedAt: localCatalogue.getLastSyncedAt(), error: this.lastError };
+  }
+
+  /**
+   * Listen to status changes, returns the unsubscribe function
+   */
+  subscribe(listener: StatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sync now - joins a sync that is already running
+   */
+  sync(): Promise<void> {
+    const source = this.source;
+    if (!source) return Promise.resolve();
+
+    if (!this.running) {
+      this.running = this.run(source).finally(() => {
+        this.running = null;
+      });
+    }
+    return this.running;
+  }
+
+  /**
+   * Sync without waiting, at most every few minutes - errors are only reported in the status
+   */
+  syncInBackground(): void {
+    const now = Date.now();
+    if (!this.source || this.running || now - this.lastBackgroundSync < BACKGROUND_SYNC_INTERVAL_MS) {
+      return;
+    }
+
+    this.lastBackgroundSync = now;
+    this.sync().catch(() => {});
+  }
+
+  private async run(source: WineRepository): Promise<void> {
+    await localCatalogue.load();
+    this.setStatus(true, null);
+
+    try {
+      const changedWines = await this.syncChangedWines(source);
+
+      const tombstones = await source.fetchWineTombstones(localCatalogue.getTombstoneCursor());
+      await localCatalogue.applyTombstones(tombstones);
+
+      const [grapeNames, wineColors, wineTypes] = await Promise.all([
+        source.fetchGrapeNames(),
+        source.fetchReferenceValues('wine_colors'),
+        source.fetchReferenceValues('wine_types'),
+      ]);
+
+      const syncedAt = new Date().toISOString();
+      await localCatalogue.completeSync(grapeNames, { wine_colors: wineColors, wine_types: wineTypes }, syncedAt);
+
+      logger.catalogue.info(`Synced ${changedWines} changed and ${tombstones.length} deleted wines`);
+      this.setStatus(false, null);
+    } catch (error) {
+      logger.catalogue.error('Catalogue sync failed:', error);
+      this.setStatus(false, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Download all wines changed since the last sync, returns their number
+   */
+  private async syncChangedWines(source: WineRepository): Promise<number> {
+    let total = 0;
+    let after = localCatalogue.getChangeCursor();
+
+    for (;;) {
+      const changes = await source.fetchWineChanges(after, SYNC_BATCH_SIZE);
+      if (changes.length === 0) break;
+
+      const wineIds = changes.map(change => change.id);
+      const [rows, grapes] = await Promise.all([
+        source.fetchWineRowsByIds(wineIds),
+        source.fetchGrapesForWines(wineIds),
+      ]);
+      const { rows: validRows } = validateWineRows(rows, 'catalogue sync');
+
+      after = changes[changes.length - 1];
+      await localCatalogue.applyChanges(wineIds, validRows, grapes, after);
+      total += changes.length;
+
+      if (changes.length < SYNC_BATCH_SIZE) break;
+    }
+
+    return total;
+  }
+
+  private setStatus(syncing: boolean, error: unknown): void {
+    this.syncing = syncing;
+    this.lastError = error;
+    const status = this.getStatus();
+    this.listeners.forEach(listener => listener(status));
+  }
+}
+
+// Export singleton instance
+export const catalogueSyncService = new CatalogueSyncService();
@@ -0,0 +1,205 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getWineRepository } from './repositories';
+import { i18n } from '../utils/i18n';
+import { logger } from '../utils/logger';
+
+/**
+ * Currency Service
+ * Converts and formats prices. Every wine is priced in its own currency
+ * (price_currency), amounts are shown in the display currency the user picked.
+ *
+ * Exchange rates come from the exchange_rates table, stored against the euro.
+ * Until the table has been read - or when it can't be - the rates of the last
+ * successful load are used, and before that the bundled FALLBACK_RATES.
+ */
+
+export const SUPPORTED_CURRENCIES = ['CHF', 'EUR', 'USD', 'GBP'] as const;
+export type CurrencyCode = (typeof SUPPORTED_CURRENCIES)[number];
+
+// Currency of the catalogue, the default display currency
+export const CATALOGUE_CURRENCY: CurrencyCode = 'CHF';
+
+// Units per euro, used when no rates have been loaded yet
+const FALLBACK_RATES: Record<string, number> = {
+  EUR: 1,
+  CHF: 0.94,
+  USD: 1.08,
+  GBP: 0.85,
+};
+
+const STORAGE_KEY = '@winder/currency';
+
+interface StoredCurrencySettings {
+  displayCurrency: CurrencyCode;
+  rates: Record<string, number>;
+}
+
+type CurrencyListener = (currency: CurrencyCode) => void;
+
+const isSupportedCurrency = (code: string): code is CurrencyCode =>
+  (SUPPORTED_CURRENCIES as readonly string[]).includes(code);
+
+class CurrencyService {
+  private rates: Record<string, number> = { ...FALLBACK_RATES };
+  private displayCurrency: CurrencyCode = CATALOGUE_CURRENCY;
+  private loading: Promise<void> | null = null;
+  private readonly warnedCurrencies = new Set<string>();
+  private readonly listeners = new Set<CurrencyListener>();
+
+  /**
+   * Read the stored display currency and rates, then refresh the rates -
+   * only the first call does any work
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readSettings().then(() => this.loadRates());
+    }
+    return this.loading;
+  }
+
+  getDisplayCurrency(): CurrencyCode {
+    return this.displayCurrency;
+  }
+
+  async setDisplayCurrency(currency: CurrencyCode): Promise<void> {
+    if (currency === this.displayCurrency) return;
+
+    this.displayCurrency = currency;
+    this.listeners.forEach(listener => listener(currency));
+    await this.writeSettings();
+  }
+
+  /**
+   * Listen to display currency changes, returns the unsubscribe function
+   */
+  subscribe(listener: CurrencyListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Currencies with a known rate - prices in other currencies can't be converted
+   */
+  getKnownCurrencies(): string[] {
+    return Object.keys(this.rates);
+  }
+
+  /**
+   * Convert an amount between currencies
+   * Unknown currencies are not converted (and reported once)
+   */
+  convert(amount: number, from: string, to: string): number {
+    if (from === to) return amount;
+
+    const fromRate = this.rates[from];
+    const toRate = this.rates[to];
+    if (!fromRate || !toRate) {
+      this.warnUnknown(fromRate ? to : from);
+      return amount;
+    }
+    return (amount / fromRate) * toRate;
+  }
+
+  /**
+   * Format an amount for the app language, e.g. "CHF 24.50" or "24,50 €"
+   * Whole amounts are shown without decimals
+   */
+  format(amount: number, currency: string = this.displayCurrency): string {
+    const wholeAmount = Number.isInteger(Math.round(amount * 100) / 100);
+    try {
+      return new Intl.NumberFormat(i18n.getCurrentLanguage(), {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: wholeAmount ? 0 : 2,
+        maximumFractionDigits: wholeAmount ? 0 : 2,
+      }).format(amount);
+    } catch {
+      // Unknown currency code or no Intl support
+      return `${currency} ${amount.toFixed(wholeAmount ? 0 : 2)}`;
+    }
+  }
+
+  /**
+   * Format a price given in its source currency, by default in the display currency
+   */
+  formatPrice(amount: number, sourceCurrency: string, currency: string = this.displayCurrency): string {
+    return this.format(this.roundPrice(this.convert(amount, sourceCurrency, currency)), currency);
+  }
+
+  /**
+   * Format a price span like "CHF 24–30", a single price when both ends are equal
+   */
+  formatPriceRange(
+    min: number,
+    max: number | null,
+    sourceCurrency: string,
+    currency: string = this.displayCurrency
+  ): string {
+    if (max === null || max === min) {
+      return this.formatPrice(min, sourceCurrency, currency);
+    }
+    return `${this.formatPrice(min, sourceCurrency, currency)}–${this.formatPrice(max, sourceCurrency, currency)}`;
+  }
+
+  /**
+   * Converted amounts are rounded to cents, prices from 100 up to whole units
+   */
+  private roundPrice(amount: number): number {
+    return amount >= 100 ? Math.round(amount) : Math.round(amount * 100) / 100;
+  }
+
+  private warnUnknown(currency: string): void {
+    if (this.warnedCurrencies.has(currency)) return;
+
+    this.warnedCurrencies.add(currency);
+    logger.currency.warn(`No exchange rate for ${currency}, prices are shown unconverted`);
+  }
+
+  private async loadRates(): Promise<void> {
+    try {
+      const rows = await getWineRepository().fetchExchangeRates();
+      if (rows.length === 0) return;
+
+      this.rates = rows.reduce<Record<string, number>>(
+        (acc, row) => ({ ...acc, [row.currency_code.trim()]: Number(row.rate_per_eur) }),
+        {}
+      );
+      await this.writeSettings();
+      logger.currency.info(`Loaded ${rows.length} exchange rates`);
+    } catch (error) {
+      logger.currency.warn('Could not load exchange rates, using stored rates:', error);
+    }
+  }
+
+  private async readSettings(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (!stored) return;
+
+      const settings: Partial<StoredCurrencySettings> = JSON.parse(stored);
+      if (settings.displayCurrency && isSupportedCurrency(settings.displayCurrency)) {
+        this.displayCurrency = settings.displayCurrency;
+        this.listeners.forEach(listener => listener(this.displayCurrency));
+      }
+      if (settings.rates && Object.keys(settings.rates).length > 0) {
+        this.rates = settings.rates;
+      }
+    } catch (error) {
+      logger.currency.error('Error reading currency settings:', error);
+    }
+  }
+
+  private async writeSettings(): Promise<void> {
+    const settings: StoredCurrencySettings = { displayCurrency: this.displayCurrency, rates: this.rates };
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (error) {
+      logger.currency.error('Error saving currency settings:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const currencyService = new CurrencyService();
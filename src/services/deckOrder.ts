@@ -0,0 +1,191 @@
+/**
+ * Deck Order
+ *
+ * Sort orders of the swipe deck and their keyset pagination. Every order sorts
+ * by one column of the wines_with_core_details view, with the wine UUID as
+ * tie-breaker, so a page continues exactly after the last row of the previous one:
+ *
+ *   cursor = JSON [sort value, id] of the last row - just the id for the plain id order
+ *
+ * Wines without a sort value (no price, non-vintage) come last in every order.
+ * The random order sorts by shuffle_key, md5(seed || id), which is only filled
+ * by the RPCs taking a seed (see the deck_ordering migration).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DeckOrder } from '../types';
+import type { WinesWithCoreDetailsRow } from '../types/database';
+import type { WineViewQuery } from './wineFilterQuery';
+import { logger } from '../utils/logger';
+
+export const DECK_ORDERS: readonly DeckOrder[] = [
+  'random', 'price-asc', 'price-desc', 'vintage-desc', 'newest', 'popular',
+];
+
+export const DEFAULT_DECK_ORDER: DeckOrder = 'random';
+
+type SortColumn = keyof Pick<WinesWithCoreDetailsRow, 'shuffle_key' | 'price_eur' | 'year' | 'added_at' | 'like_count'>;
+type SortValue = string | number | null;
+
+export interface DeckSort {
+  column: SortColumn;
+  ascending: boolean;
+}
+
+const DECK_SORTS: Record<DeckOrder, DeckSort> = {
+  random: { column: 'shuffle_key', ascending: true },
+  'price-asc': { column: 'price_eur', ascending: true },
+  'price-desc': { column: 'price_eur', ascending: false },
+  'vintage-desc': { column: 'year', ascending: false },
+  newest: { column: 'added_at', ascending: false },
+  popular: { column: 'like_count', ascending: false },
+};
+
+const GUEST_SEED_KEY = '@winder/deck-seed';
+
+let guestSeed: Promise<string> | null = null;
+
+/**
+ * Sort of a deck order, null for the plain id order
+ * Without a seed there is no shuffle key - the random order falls back to the id order
+ */
+export const deckSortFor = (order?: DeckOrder | null, seed?: string | null): DeckSort | null => {
+  if (!order || (order === 'random' && !seed)) return null;
+  return DECK_SORTS[order];
+};
+
+/**
+ * Cursor pointing after a row
+ */
+export const encodeDeckCursor = (row: Partial<Record<SortColumn, SortValue>> & { id: string }, sort: DeckSort | null): string =>
+  sort ? JSON.stringify([row[sort.column] ?? null, row.id]) : row.id;
+
+/**
+ * Sort value and id of a cursor, null when the cursor does not belong to a sorted order
+ */
+const decodeDeckCursor = (cursor: string): [SortValue, string] | null => {
+  try {
+    const parsed = JSON.parse(cursor);
+    return Array.isArray(parsed) && parsed.length === 2 && typeof parsed[1] === 'string'
+      ? [parsed[0], parsed[1]]
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// Strings are quoted - timestamps contain characters PostgREST reserves
+const toFilterValue = (value: string | number): string =>
+  typeof value === 'number' ? value.toString() : `"${value.replace(/"/g, '\\"')}"`;
+
+/**
+ * Apply the sort and the cursor to a wine view query
+ * Synchronous like applyWineFilters - the query builder must never be awaited here
+ */
+export const applyDeckOrder = <Q extends WineViewQuery>(
+  query: Q,
+  sort: DeckSort | null,
+  cursor?: string | null
+): Q => {
+  if (!sort) {
+    return (cursor ? query.gt('id', cursor) : query).order('id', { ascending: true });
+  }
+
+  let winesQuery = query;
+  const position = cursor ? decodeDeckCursor(cursor) : null;
+  if (cursor && !position) {
+    logger.swipe.warn('Ignoring a cursor of another deck order:', cursor);
+  }
+
+  if (position) {
+    const [value, id] = position;
+    const { column } = sort;
+    winesQuery = value === null
+      ? winesQuery.is(column, null).gt('id', id)
+      : winesQuery.or(
+          `${column}.${sort.ascending ? 'gt' : 'lt'}.${toFilterValue(value)},` +
+          `and(${column}.eq.${toFilterValue(value)},id.gt.${id}),` +
+          `${column}.is.null`
+        );
+  }
+
+  return winesQuery
+    .order(sort.column, { ascending: sort.ascending, nullsFirst: false })
+    .order('id', { ascending: true });
+};
+
+/**
+ * Compare two rows in deck order, like the ORDER BY of applyDeckOrder
+ */
+export const compareInDeckOrder = (
+  a: Partial<Record<SortColumn, SortValue>> & { id: string },
+  b: Partial<Record<SortColumn, SortValue>> & { id: string },
+  sort: DeckSort | null
+): number => {
+  // Plain string comparison orders lower-case UUIDs like Postgres
+  const byId = a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+  if (!sort) return byId;
+
+  const valueA = a[sort.column] ?? null;
+  const valueB = b[sort.column] ?? null;
+  if (valueA === valueB) return byId;
+  if (valueA === null) return 1;
+  if (valueB === null) return -1;
+
+  const byValue = valueA < valueB ? -1 : 1;
+  return sort.ascending ? byValue : -byValue;
+};
+
+/**
+ * Position of a cursor as a row to compare against, null when there is none
+ */
+export const cursorPosition = (
+  cursor: string | null | undefined,
+  sort: DeckSort | null
+): (Partial<Record<SortColumn, SortValue>> & { id: string }) | null => {
+  if (!cursor) return null;
+  if (!sort) return { id: cursor };
+
+  const position = decodeDeckCursor(cursor);
+  return position ? { [sort.column]: position[0], id: position[1] } : null;
+};
+
+/**
+ * Shuffle key for backends without md5 (in-memory, on-device catalogue)
+ * A different order than the database, but just as stable for a seed
+ */
+export const localShuffleKey = (seed: string, wineId: string): string => {
+  const MODULUS = 2147483647;
+  let hash = 7;
+  for (const char of seed + wineId) {
+    hash = (hash * 31 + char.charCodeAt(0)) % MODULUS;
+  }
+  // A few Park-Miller rounds, so ids that differ in one character end up far apart
+  for (let round = 0; round < 3; round++) {
+    hash = (hash * 48271) % MODULUS;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+/**
+ * Shuffle seed of a guest - created once and kept on the device, so the random
+ * order stays the same across restarts like it does for signed-in users
+ */
+export const getGuestDeckSeed = (): Promise<string> => {
+  if (!guestSeed) {
+    guestSeed = (async () => {
+      try {
+        const stored = await AsyncStorage.getItem(GUEST_SEED_KEY);
+        if (stored) return stored;
+
+        const seed = Math.random().toString(36).slice(2);
+        await AsyncStorage.setItem(GUEST_SEED_KEY, seed);
+        return seed;
+      } catch (error) {
+        logger.swipe.warn('Could not keep the deck seed, the random order changes on restart:', error);
+        return Math.random().toString(36).slice(2);
+      }
+    })();
+  }
+  return guestSeed;
+};
@@ -0,0 +1,121 @@
+/**
+ * Facet Count Service
+ *
+ * How many wines each filter option would return, given the rest of the
+ * filter. As in faceted search, a category is counted without its own
+ * selection: with "Red" selected the colour chips still show how many wines
+ * "White" or "Rosé" would add, while all other categories are narrowed down
+ * to red wines.
+ *
+ * Categories without a selection share one request, every category with a
+ * selection needs its own. For a signed-in user only the wines they have not
+ * rated count, like in their deck.
+ */
+
+import type { DatabaseWineFilter, OptionFilterCategory } from '../types';
+import { getWineRepository, FacetCategory, FacetCounts } from './repositories';
+import { referenceDataService } from './referenceDataService';
+import { parseUnitVolumes } from './wineFilterQuery';
+import { DB_FILTER_KEYS } from '../utils/filterUtils';
+import { logger } from '../utils/logger';
+
+// Categories relaxed together - countries and regions are one selection in the origin tree
+const FACET_GROUPS: FacetCategory[][] = [
+  ['countries', 'regions'],
+  ['grape'],
+  ['producer'],
+  ['wineType'],
+  ['color'],
+  ['sweetness'],
+  ['body'],
+  ['acidity'],
+  ['tannin'],
+  ['alcohol'],
+  ['unit'],
+  ['price'],
+  ['productionType'],
+];
+
+const hasSelection = (filters: DatabaseWineFilter, facet: FacetCategory): boolean =>
+  Boolean(filters[facet]?.length || filters.exclude?.[facet]?.length);
+
+/**
+ * The filter without the included and excluded values of the given categories
+ */
+const withoutFacets = (filters: DatabaseWineFilter, facets: FacetCategory[]): DatabaseWineFilter => {
+  const exclude = { ...filters.exclude };
+  const relaxed: DatabaseWineFilter = { ...filters, exclude };
+  facets.forEach(facet => {
+    delete relaxed[facet];
+    delete exclude[facet];
+  });
+  // Match mode and minimum share belong to the selected grapes
+  if (facets.includes('grape')) {
+    delete relaxed.grapeMatch;
+    delete relaxed.grapeMinShare;
+  }
+  return relaxed;
+};
+
+/**
+ * Wines per option of every category for the given filter (and user)
+ */
+export const fetchFacetCounts = async (
+  filters?: DatabaseWineFilter,
+  userId?: string,
+  signal?: AbortSignal
+): Promise<FacetCounts> => {
+  const repository = getWineRepository();
+  const activeFilters = filters ?? {};
+  const selectedGroups = FACET_GROUPS.filter(group => group.some(facet => hasSelection(activeFilters, facet)));
+  const unselected = FACET_GROUPS.filter(group => !selectedGroups.includes(group)).flat();
+
+  try {
+    const results = await Promise.all([
+      repository.fetchFacetCounts(filters, unselected, userId, signal),
+      ...selectedGroups.map(group =>
+        repository.fetchFacetCounts(withoutFacets(activeFilters, group), group, userId, signal)),
+    ]);
+    return Object.assign({}, ...results);
+  } catch (error) {
+    if (!signal?.aborted) {
+      logger.filterOptions.error('Error fetching facet counts:', error);
+    }
+    throw error;
+  }
+};
+
+/**
+ * Count of each option value of a filter category, null while the counts are unknown
+ * Options are the values the chips show - translated wine types and colours,
+ * units like "0.75L" - and are mapped to the facet values here.
+ */
+export const countsForOptions = (
+  counts: FacetCounts | null,
+  category: OptionFilterCategory,
+  options: string[]
+): Record<string, number> | null => {
+  const facetCounts = counts?.[DB_FILTER_KEYS[category]];
+  if (!facetCounts) return null;
+
+  const toFacetValue = (option: string): string | null => {
+    switch (category) {
+      case 'wineType':
+        return referenceDataService.getWineTypeName(option);
+      case 'color':
+        return referenceDataService.getWineColorName(option);
+      case 'unit': {
+        const [volume] = parseUnitVolumes([option]);
+        return volume === undefined ? null : String(volume);
+      }
+      default:
+        return option;
+    }
+  };
+
+  return options.reduce<Record<string, number>>((acc, option) => {
+    const value = toFacetValue(option);
+    acc[option] = value === null ? 0 : facetCounts[value] ?? 0;
+    return acc;
+  }, {});
+};
@@ -1,9 +1,11 @@
-import { supabase } from '../lib/supabase';
+import { getWineRepository, NumberRange, PriceDistribution, RegionRow } from './repositories';
+import { normalizeLanguageCode } from './wineMapper';
+import { localizedOrDefault } from '../utils/languageFallback';
 import { logger } from '../utils/logger';
 
 /**
  * Filter Options Service
- * Loads dynamic filter options from the database
+ * Loads dynamic filter options from the wine repository
  * Based on the web app's filterOptionsApi.ts
  */
 
@@ -12,9 +14,17 @@ export interface CountryOption {
   name: string;
 }
 
-export interface RegionOption {
+export interface RegionOption extends RegionRow {
   country_code: string;
-  name: string;
+}
+
+// Node of the country → region → sub-region tree
+export interface RegionNode {
+  kind: 'country' | 'region';
+  value: string;          // Filter value: the country code, or the region's default name
+  label: string;          // Name in the requested language
+  countryCode: string;
+  children: RegionNode[];
 }
 
 // Cache for filter options to avoid repeated API calls
@@ -40,13 +50,6 @@ const getCacheValue = (cacheKey: string): any => {
   return null;
 };
 
-// Normalize language code (same as web app)
-const normalizeLanguageCode = (languageCode: string = 'de'): string => {
-  const supportedLanguages = ['de', 'en', 'fr', 'it'];
-  const baseCode = languageCode.toLowerCase().split('-')[0];
-  return supportedLanguages.includes(baseCode) ? baseCode : 'de';
-};
-
 /**
  * Fetch grape varieties from the grapes table
  */
@@ -54,24 +57,18 @@ const normalizeLanguageCode = (languageCode: string = 'de'): string => {
 export const fetchGrapeOptions = async (): Promise<string[]> => {
   logger.filterOptions.debug('Fetching grape options...');
   
-  const { data, error } = await supabase
-    .from('grapes')
-    .select('name')
-    .order('name', { ascending: true });
-  
-  if (error) {
+  let grapeOptions: string[];
+  try {
+    grapeOptions = await getWineRepository().fetchGrapeNames();
+  } catch (error) {
     logger.filterOptions.error('Error fetching grape options:', error);
     throw error;
   }
   
-  if (!data || data.length === 0) {
+  if (grapeOptions.length === 0) {
     throw new Error('No grape options found in database');
   }
   
-  const grapeOptions = data
-    .map(item => item.name)
-    .filter(Boolean);
-  
   logger.filterOptions.info(`Loaded ${grapeOptions.length} grape options`);
   return grapeOptions;
 };
@@ -79,7 +76,7 @@ export const fetchGrapeOptions = async (): Promise<string[]> => {
 /**
  * Fetch country options with translations
  */
-export const fetchCountryOptions = async (languageCode: string = 'en'): Promise<CountryOption[]> => {
+export const fetchCountryOptions = async (languageCode?: string): Promise<CountryOption[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `countries_${normalizedLanguage}`;
   
@@ -89,30 +86,14 @@ export const fetchCountryOptions = async (languageCode: string = 'en'): Promise<
   console.log(`🌍 [FilterOptions] Fetching countries for language: ${normalizedLanguage}`);
   
   // Step 1: Get unique country codes from wines (to know which countries have wines)
-  const { data: wineData, error: wineError } = await supabase
-    .from('wines')
-    .select('regions!inner(country_code)')
-    .not('regions.country_code', 'is', null);
-
-  if (wineError) {
+  let countryCodes: string[];
+  try {
+    countryCodes = await getWineRepository().fetchCountryCodesWithWines();
+  } catch (wineError) {
     console.error('❌ [FilterOptions] Error fetching wine countries:', wineError);
     throw wineError;
   }
 
-  if (!wineData || wineData.length === 0) {
-    throw new Error('No wines found with country data');
-  }
-
-  // Extract unique country codes
-  const countryCodeSet = new Set<string>();
-  wineData.forEach((wine: any) => {
-    const countryCode = wine.regions?.country_code;
-    if (countryCode) {
-      countryCodeSet.add(countryCode);
-    }
-  });
-
-  const countryCodes = Array.from(countryCodeSet);
   console.log(`📊 [FilterOptions] Found ${countryCodes.length} unique countries with wines:`, countryCodes);
 
   if (countryCodes.length === 0) {
@@ -120,19 +101,15 @@ export const fetchCountryOptions = async (languageCode: string = 'en'): Promise<
   }
 
   // Step 2: Get translated names for these country codes
-  const { data: translations, error: translationError } = await supabase
-    .from('country_translations')
-    .select('country_code, name')
-    .eq('language_code', normalizedLanguage)
-    .in('country_code', countryCodes)
-    .order('name', { ascending: true });
-
-  if (translationError) {
+  let translations: CountryOption[];
+  try {
+    translations = await getWineRepository().fetchCountryNames(normalizedLanguage, countryCodes);
+  } catch (translationError) {
     console.error('❌ [FilterOptions] Error fetching country translations:', translationError);
     throw translationError;
   }
 
-  if (!translations || translations.length === 0) {
+  if (translations.length === 0) {
     throw new Error(`No country translations found for language ${normalizedLanguage}`);
   }
 
@@ -154,23 +131,13 @@ export const fetchRegionOptions = async (): Promise<RegionOption[]> => {
   try {
     console.log('Fetching regions from database');
     
-    const { data: regions, error } = await supabase
-      .from('regions')
-      .select('country_code, name')
-      .order('country_code', { ascending: true })
-      .order('name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching regions:', error);
-      throw error;
-    }
+    const regions = await getWineRepository().fetchRegions();
 
-    if (!regions) {
-      throw new Error('No region data returned from database');
-    }
+    // Regions without a country cannot be grouped by country
+    const regionOptions = regions.filter((region): region is RegionOption => region.country_code !== null);
 
-    setCacheValue(cacheKey, regions);
-    return regions;
+    setCacheValue(cacheKey, regionOptions);
+    return regionOptions;
   } catch (error) {
     console.error('Error fetching regions:', error);
     throw error instanceof Error ? error : new Error(String(error));
@@ -200,11 +167,69 @@ export const fetchRegionsByCountry = async (): Promise<Record<string, string[]>>
   }
 };
 
+/**
+ * Fetch the region tree: countries with their regions, regions with their sub-regions
+ * Labels are localized, siblings sorted by label. Regions whose parent is unknown
+ * or in another country are shown directly below their country.
+ */
+export const fetchRegionTree = async (languageCode?: string): Promise<RegionNode[]> => {
+  const normalizedLanguage = normalizeLanguageCode(languageCode);
+  const cacheKey = `region_tree_${normalizedLanguage}`;
+
+  const cached = getCacheValue(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const regions = await fetchRegionOptions();
+    const countryCodes = [...new Set(regions.map(region => region.country_code))];
+    const countryNames = countryCodes.length > 0
+      ? await getWineRepository().fetchCountryNames(normalizedLanguage, countryCodes)
+      : [];
+    const countryLabels = new Map(countryNames.map(country => [country.country_code, country.name]));
+
+    const regionsById = new Map(regions.map(region => [region.id, region]));
+    const childrenOf = new Map<string, RegionOption[]>();
+    regions.forEach(region => {
+      const parent = region.parent_id ? regionsById.get(region.parent_id) : undefined;
+      const key = parent && parent.country_code === region.country_code ? parent.id : region.country_code;
+      childrenOf.set(key, [...(childrenOf.get(key) || []), region]);
+    });
+
+    const bySortLabel = (a: RegionNode, b: RegionNode) => a.label.localeCompare(b.label, normalizedLanguage);
+
+    // Walking down from the countries leaves out regions in a parent cycle
+    const toNode = (region: RegionOption): RegionNode => ({
+      kind: 'region',
+      value: region.name,
+      label: localizedOrDefault(region.names_by_language, normalizedLanguage, region.name),
+      countryCode: region.country_code,
+      children: (childrenOf.get(region.id) || []).map(toNode).sort(bySortLabel),
+    });
+
+    const tree = countryCodes
+      .map((code): RegionNode => ({
+        kind: 'country',
+        value: code,
+        label: countryLabels.get(code) || code,
+        countryCode: code,
+        children: (childrenOf.get(code) || []).map(toNode).sort(bySortLabel),
+      }))
+      .sort(bySortLabel);
+
+    logger.filterOptions.info(`Loaded region tree with ${tree.length} countries and ${regions.length} regions`);
+    setCacheValue(cacheKey, tree);
+    return tree;
+  } catch (error) {
+    logger.filterOptions.error('Error building region tree:', error);
+    throw error;
+  }
+};
+
 /**
  * Fetch wine type options from wine_types_translations (NOT wine_tag_translations!)
  * Matches Web App implementation exactly
  */
-export const fetchWineTypeOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchWineTypeOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `wineTypes_${normalizedLanguage}`;
   
@@ -213,13 +238,10 @@ export const fetchWineTypeOptions = async (languageCode: string = 'de'): Promise
 
   logger.filterOptions.debug('Fetching wine type options...');
 
-  const { data: wineTypes, error } = await supabase
-    .from('wine_types_translations')
-    .select('translated_name')
-    .eq('language_code', normalizedLanguage)
-    .order('translated_name', { ascending: true });
-
-  if (error) {
+  let wineTypes: string[];
+  try {
+    wineTypes = await getWineRepository().fetchTranslatedOptions('wine_types', normalizedLanguage);
+  } catch (error) {
     logger.filterOptions.error('Error fetching wine type options:', error);
     throw error;
   }
@@ -229,7 +251,7 @@ export const fetchWineTypeOptions = async (languageCode: string = 'de'): Promise
   }
 
   // Return translated names (e.g., 'Stillwein', 'Schaumwein' for DE) - Backend will convert!
-  const uniqueValues = [...new Set(wineTypes.map(wt => wt.translated_name).filter(Boolean))];
+  const uniqueValues = [...new Set(wineTypes)];
   
   if (uniqueValues.length === 0) {
     throw new Error(`No wine type options found for language ${normalizedLanguage}`);
@@ -244,7 +266,7 @@ export const fetchWineTypeOptions = async (languageCode: string = 'de'): Promise
  * Fetch color options from wine_colors_translations (NOT wine_tag_translations!)
  * Matches Web App implementation exactly
  */
-export const fetchColorOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchColorOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `colors_${normalizedLanguage}`;
   
@@ -254,20 +276,10 @@ export const fetchColorOptions = async (languageCode: string = 'de'): Promise<st
   try {
     console.log(`Fetching color options from wine_colors_translations for language: ${normalizedLanguage}`);
 
-    const { data: colors, error } = await supabase
-      .from('wine_colors_translations')
-      .select('translated_name')
-      .eq('language_code', normalizedLanguage)
-      .order('translated_name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching color options:', error);
-      throw error;
-    }
+    const colors = await getWineRepository().fetchTranslatedOptions('wine_colors', normalizedLanguage);
 
     // Return translated names (e.g., 'Rot', 'Weiss' for DE) - Backend will convert!
-    const colorValues = colors?.map((color) => color.translated_name).filter((value): value is string => Boolean(value)) ?? [];
-    const uniqueColors = [...new Set(colorValues)];
+    const uniqueColors = [...new Set(colors)];
     
     console.log(`Fetched ${uniqueColors.length} color options from database:`, uniqueColors);
     
@@ -287,7 +299,7 @@ export const fetchColorOptions = async (languageCode: string = 'de'): Promise<st
  * Fetch production type options from vinification_methods_translations (NOT wine_tag_translations!)
  * Matches Web App implementation exactly
  */
-export const fetchProductionTypeOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchProductionTypeOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `productionTypes_${normalizedLanguage}`;
   
@@ -297,22 +309,13 @@ export const fetchProductionTypeOptions = async (languageCode: string = 'de'): P
   try {
     console.log('Fetching production type options from vinification_methods_translations');
 
-    const { data: productionTypes, error } = await supabase
-      .from('vinification_methods_translations')
-      .select('translated_name')
-      .eq('language_code', normalizedLanguage)
-      .order('translated_name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching production type options:', error);
-      throw error;
-    }
+    const productionTypes = await getWineRepository().fetchTranslatedOptions('vinification_methods', normalizedLanguage);
 
     if (!productionTypes || productionTypes.length === 0) {
       throw new Error(`No production type options found in database for language ${normalizedLanguage}`);
     }
 
-    const uniqueValues = [...new Set(productionTypes.map(pt => pt.translated_name).filter(value => value))];
+    const uniqueValues = [...new Set(productionTypes)];
     
     console.log(`Fetched ${uniqueValues.length} production type options from database`);
     
@@ -332,7 +335,7 @@ export const fetchProductionTypeOptions = async (languageCode: string = 'de'): P
  * Fetch sweetness options from sweetness_levels_translations
  * Matches Web App implementation exactly
  */
-export const fetchSweetnessOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchSweetnessOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `sweetness_${normalizedLanguage}`;
   
@@ -342,22 +345,13 @@ export const fetchSweetnessOptions = async (languageCode: string = 'de'): Promis
   try {
     console.log('Fetching sweetness options from sweetness_levels_translations');
 
-    const { data: sweetness, error } = await supabase
-      .from('sweetness_levels_translations')
-      .select('translated_name')
-      .eq('language_code', normalizedLanguage)
-      .order('translated_name', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching sweetness options:', error);
-      throw error;
-    }
+    const sweetness = await getWineRepository().fetchTranslatedOptions('sweetness_levels', normalizedLanguage);
 
     if (!sweetness || sweetness.length === 0) {
       throw new Error(`No sweetness options found in database for language ${normalizedLanguage}`);
     }
 
-    const uniqueValues = [...new Set(sweetness.map(s => s.translated_name).filter(value => value))];
+    const uniqueValues = [...new Set(sweetness)];
     console.log(`Fetched ${uniqueValues.length} sweetness options from database`);
 
     if (uniqueValues.length === 0) {
@@ -376,7 +370,7 @@ export const fetchSweetnessOptions = async (languageCode: string = 'de'): Promis
  * Fetch alcohol level options from alcohol_levels_translations
  * Matches Web App implementation exactly
  */
-export const fetchAlcoholOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchAlcoholOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `alcohol_${normalizedLanguage}`;
   
@@ -386,22 +380,13 @@ export const fetchAlcoholOptions = async (languageCode: string = 'de'): Promise<
   try {
     console.log('Fetching alcohol options from alcohol_levels_translations');
 
-    const { data: alcohol, error } = await supabase
-      .from('alcohol_levels_translations')
-      .select('translated_label')
-      .eq('language_code', normalizedLanguage)
-      .order('translated_label', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching alcohol options:', error);
-      throw error;
-    }
+    const alcohol = await getWineRepository().fetchTranslatedOptions('alcohol_levels', normalizedLanguage);
 
     if (!alcohol || alcohol.length === 0) {
       throw new Error(`No alcohol options found in database for language ${normalizedLanguage}`);
     }
 
-    const uniqueValues = [...new Set(alcohol.map(a => a.translated_label).filter(value => value))];
+    const uniqueValues = [...new Set(alcohol)];
     console.log(`Fetched ${uniqueValues.length} alcohol options from database`);
 
     if (uniqueValues.length === 0) {
@@ -429,22 +414,14 @@ export const fetchUnitOptions = async (): Promise<string[]> => {
   try {
     console.log('Fetching unit options from units table');
 
-    const { data: units, error } = await supabase
-      .from('units')
-      .select('volume')
-      .order('volume', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching unit options:', error);
-      throw error;
-    }
+    const units = await getWineRepository().fetchUnitVolumes();
 
     if (!units || units.length === 0) {
       throw new Error('No unit options found in database');
     }
 
     // Format volumes as "0.75L" etc
-    const uniqueValues = [...new Set(units.map(u => `${u.volume}L`).filter(value => value))];
+    const uniqueValues = [...new Set(units.map(volume => `${volume}L`))];
     console.log(`Fetched ${uniqueValues.length} unit options from database`);
 
     if (uniqueValues.length === 0) {
@@ -463,7 +440,7 @@ export const fetchUnitOptions = async (): Promise<string[]> => {
  * Fetch price range options from price_ranges_translations
  * Matches Web App implementation exactly
  */
-export const fetchPriceOptions = async (languageCode: string = 'de'): Promise<string[]> => {
+export const fetchPriceOptions = async (languageCode?: string): Promise<string[]> => {
   const normalizedLanguage = normalizeLanguageCode(languageCode);
   const cacheKey = `price_${normalizedLanguage}`;
   
@@ -473,22 +450,13 @@ export const fetchPriceOptions = async (languageCode: string = 'de'): Promise<st
   try {
     console.log('Fetching price options from price_ranges_translations');
 
-    const { data: prices, error } = await supabase
-      .from('price_ranges_translations')
-      .select('translated_label')
-      .eq('language_code', normalizedLanguage)
-      .order('translated_label', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching price options:', error);
-      throw error;
-    }
+    const prices = await getWineRepository().fetchTranslatedOptions('price_ranges', normalizedLanguage);
 
     if (!prices || prices.length === 0) {
       throw new Error(`No price options found in database for language ${normalizedLanguage}`);
     }
 
-    const uniqueValues = [...new Set(prices.map(p => p.translated_label).filter(value => value))];
+    const uniqueValues = [...new Set(prices)];
     console.log(`Fetched ${uniqueValues.length} price options from database`);
 
     if (uniqueValues.length === 0) {
@@ -503,6 +471,54 @@ export const fetchPriceOptions = async (languageCode: string = 'de'): Promise<st
   }
 };
 
+/**
+ * Fetch the oldest and newest vintage, the bounds of the vintage range filter
+ * Returns null when no wine has a vintage
+ */
+export const fetchVintageBounds = async (): Promise<NumberRange | null> => {
+  const cacheKey = 'vintage_bounds';
+
+  const cached = getCacheValue(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const bounds = await getWineRepository().fetchVintageBounds();
+    if (bounds) {
+      setCacheValue(cacheKey, bounds);
+    }
+    logger.filterOptions.debug('Vintage bounds:', bounds);
+    return bounds;
+  } catch (error) {
+    logger.filterOptions.error('Error fetching vintage bounds:', error);
+    throw error;
+  }
+};
+
+/**
+ * Fetch the price histogram shown behind the price slider, in the given currency
+ * Returns null when no wine has a price
+ */
+export const fetchPriceDistribution = async (
+  currency: string,
+  bucketCount: number = 20
+): Promise<PriceDistribution | null> => {
+  const cacheKey = `price_distribution_${currency}_${bucketCount}`;
+
+  const cached = getCacheValue(cacheKey);
+  if (cached) return cached;
+
+  try {
+    const distribution = await getWineRepository().fetchPriceDistribution(bucketCount, currency);
+    if (distribution) {
+      setCacheValue(cacheKey, distribution);
+    }
+    return distribution;
+  } catch (error) {
+    logger.filterOptions.error('Error fetching price distribution:', error);
+    throw error;
+  }
+};
+
 /**
  * Fetch producer options (names and IDs)
  * Returns producers that have at least one wine associated
@@ -516,15 +532,7 @@ export const fetchProducerOptions = async (): Promise<Array<{ id: string; name:
   logger.filterOptions.debug('Fetching producer options...');
 
   try {
-    const { data: producers, error } = await supabase
-      .from('producers')
-      .select('id, name')
-      .order('name', { ascending: true });
-
-    if (error) {
-      logger.filterOptions.error('Error fetching producer options:', error);
-      throw error;
-    }
+    const producers = await getWineRepository().fetchProducers();
 
     if (!producers || producers.length === 0) {
       logger.filterOptions.warn('No producer options found in database');
@@ -541,23 +549,24 @@ export const fetchProducerOptions = async (): Promise<Array<{ id: string; name:
 };
 
 /**
- * Get all filter options for a specific language
+ * Get all filter options for a specific language, the app language without one
  * Matches Web App's getFilterOptions exactly
  * NO FALLBACKS - throws immediately on any error
  */
-export const getAllFilterOptions = async (languageCode: string = 'de'): Promise<Record<string, string[]>> => {
-  logger.filterOptions.debug(`Loading all filter options for language: ${languageCode}`);
+export const getAllFilterOptions = async (languageCode?: string): Promise<Record<string, string[]>> => {
+  const language = normalizeLanguageCode(languageCode);
+  logger.filterOptions.debug(`Loading all filter options for language: ${language}`);
   
   // TEMPORARILY use Promise.allSettled to see which fetches fail
   const results = await Promise.allSettled([
     fetchGrapeOptions(),
-    fetchWineTypeOptions(languageCode),
-    fetchColorOptions(languageCode),
-    fetchSweetnessOptions(languageCode),
-    fetchProductionTypeOptions(languageCode),
+    fetchWineTypeOptions(language),
+    fetchColorOptions(language),
+    fetchSweetnessOptions(language),
+    fetchProductionTypeOptions(language),
     fetchUnitOptions(),
-    fetchAlcoholOptions(languageCode),
-    fetchPriceOptions(languageCode)
+    fetchAlcoholOptions(language),
+    fetchPriceOptions(language)
   ]);
 
   const filterNames = ['grape', 'wineType', 'color', 'sweetness', 'productionType', 'unit', 'alcohol', 'price'];
@@ -0,0 +1,159 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { FilterPreset, WineFilter } from '../types';
+import { getPreferenceRepository, FilterPresetRow, PreferenceRepository } from './repositories';
+import { migrateFilter, WINE_FILTER_VERSION } from '../utils/filterSchema';
+import { logger } from '../utils/logger';
+
+/**
+ * Filter Preset Service
+ * Named filters the user can apply with one tap. Signed-in users keep them in
+ * the filter_presets table (through the preference repository), guests on the
+ * device - the operations are the same for both.
+ *
+ * Filters are saved with WINE_FILTER_VERSION and upgraded by migrateFilter when
+ * read, so presets outlive changes to the WineFilter shape. Presets saved by a
+ * newer app version are left alone and not shown.
+ */
+
+const GUEST_STORAGE_KEY = '@winder/filter-presets';
+
+export const MAX_PRESET_NAME_LENGTH = 60;
+
+type PresetStore = Pick<
+  PreferenceRepository,
+  'fetchFilterPresets' | 'insertFilterPreset' | 'updateFilterPreset' | 'deleteFilterPreset'
+>;
+
+const readGuestPresets = async (): Promise<FilterPresetRow[]> => {
+  const stored = await AsyncStorage.getItem(GUEST_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : [];
+};
+
+const writeGuestPresets = (presets: FilterPresetRow[]): Promise<void> =>
+  AsyncStorage.setItem(GUEST_STORAGE_KEY, JSON.stringify(presets));
+
+// Presets of a guest - the user id is ignored, there is only one guest per device
+const guestPresetStore: PresetStore = {
+  fetchFilterPresets: async () =>
+    (await readGuestPresets()).sort((a, b) => a.position - b.position),
+
+  insertFilterPreset: async (_guest, preset) => {
+    const row: FilterPresetRow = {
+      ...preset,
+      id: `guest-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    };
+    await writeGuestPresets([...(await readGuestPresets()), row]);
+    return row;
+  },
+
+  updateFilterPreset: async (_guest, presetId, changes) => {
+    const presets = await readGuestPresets();
+    await writeGuestPresets(presets.map(preset => (preset.id === presetId ? { ...preset, ...changes } : preset)));
+  },
+
+  deleteFilterPreset: async (_guest, presetId) => {
+    const presets = await readGuestPresets();
+    await writeGuestPresets(presets.filter(preset => preset.id !== presetId));
+  },
+};
+
+const validName = (name: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed || trimmed.length > MAX_PRESET_NAME_LENGTH) {
+    throw new Error(`Preset names need 1 to ${MAX_PRESET_NAME_LENGTH} characters`);
+  }
+  return trimmed;
+};
+
+class FilterPresetService {
+  /**
+   * Presets of a user (or the guest) in their order - empty when they can't be read
+   */
+  async getPresets(userId: string | undefined): Promise<FilterPreset[]> {
+    try {
+      const rows = await this.storeFor(userId).fetchFilterPresets(userId ?? '');
+      return rows.reduce<FilterPreset[]>((presets, row) => {
+        const filter = migrateFilter(row.filter, row.filter_version);
+        if (filter) {
+          presets.push({ id: row.id, name: row.name, filter, isDefault: row.is_default });
+        } else {
+          logger.filterOptions.warn(`Skipping preset "${row.name}" with filter version ${row.filter_version}`);
+        }
+        return presets;
+      }, []);
+    } catch (error) {
+      logger.filterOptions.error('Error loading filter presets:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Save a filter as a new preset after the existing ones
+   */
+  async createPreset(userId: string | undefined, name: string, filter: WineFilter): Promise<FilterPreset> {
+    const store = this.storeFor(userId);
+    const existing = await store.fetchFilterPresets(userId ?? '');
+    const row = await store.insertFilterPreset(userId ?? '', {
+      name: validName(name),
+      filter,
+      filter_version: WINE_FILTER_VERSION,
+      position: existing.reduce((max, preset) => Math.max(max, preset.position + 1), 0),
+      is_default: false,
+    });
+    return { id: row.id, name: row.name, filter, isDefault: false };
+  }
+
+  async renamePreset(userId: string | undefined, presetId: string, name: string): Promise<void> {
+    await this.storeFor(userId).updateFilterPreset(userId ?? '', presetId, { name: validName(name) });
+  }
+
+  async deletePreset(userId: string | undefined, presetId: string): Promise<void> {
+    await this.storeFor(userId).deleteFilterPreset(userId ?? '', presetId);
+  }
+
+  /**
+   * Store the order of the presets - only presets that moved are written
+   */
+  async reorderPresets(userId: string | undefined, presetIds: string[]): Promise<void> {
+    const store = this.storeFor(userId);
+    const rows = await store.fetchFilterPresets(userId ?? '');
+    const positions = new Map(rows.map(row => [row.id, row.position]));
+
+    for (const [position, presetId] of presetIds.entries()) {
+      if (positions.has(presetId) && positions.get(presetId) !== position) {
+        await store.updateFilterPreset(userId ?? '', presetId, { position });
+      }
+    }
+  }
+
+  /**
+   * Make a preset the one applied on launch, null to start with an empty filter
+   * The previous default is cleared first - there can only be one
+   */
+  async setDefaultPreset(userId: string | undefined, presetId: string | null): Promise<void> {
+    const store = this.storeFor(userId);
+    const rows = await store.fetchFilterPresets(userId ?? '');
+
+    for (const row of rows.filter(preset => preset.is_default && preset.id !== presetId)) {
+      await store.updateFilterPreset(userId ?? '', row.id, { is_default: false });
+    }
+    if (presetId && !rows.some(row => row.id === presetId && row.is_default)) {
+      await store.updateFilterPreset(userId ?? '', presetId, { is_default: true });
+    }
+  }
+
+  /**
+   * Filter of the default preset, null when there is none
+   */
+  async getDefaultFilter(userId: string | undefined): Promise<WineFilter | null> {
+    const presets = await this.getPresets(userId);
+    return presets.find(preset => preset.isDefault)?.filter ?? null;
+  }
+
+  private storeFor(userId: string | undefined): PresetStore {
+    return userId ? getPreferenceRepository() : guestPresetStore;
+  }
+}
+
+// Export singleton instance
+export const filterPresetService = new FilterPresetService();
@@ -0,0 +1,194 @@
+import RNFS from 'react-native-fs';
+import { logger } from '../utils/logger';
+
+/**
+ * Image Cache Service
+ * Downloads wine images ahead of time into a bounded on-disk cache, so cards
+ * show their photo as soon as they are swiped in. The least recently used
+ * images are evicted when the cache grows beyond MAX_CACHE_BYTES.
+ *
+ * Failed images are reported once per wine and not retried during the session.
+ */
+
+const CACHE_DIRECTORY = `${RNFS.CachesDirectoryPath}/wine-images`;
+
+const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+
+// Parallel downloads - the current card's image must not wait behind a long queue
+const MAX_CONCURRENT_DOWNLOADS = 2;
+
+export interface ImageRequest {
+  wineId: string;
+  url: string;
+}
+
+interface CacheEntry {
+  path: string;
+  size: number;
+  lastUsed: number;  // Last use in this session, the file time for images from earlier sessions
+}
+
+// Polynomial string hash, kept below 2^31 so it stays exact in floating point
+const hashString = (text: string, multiplier: number): string => {
+  let hash = 7;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * multiplier + text.charCodeAt(i)) % 2147483647;
+  }
+  return hash.toString(36);
+};
+
+/**
+ * Stable file name for a URL - the same image always maps to the same file
+ */
+const fileNameForUrl = (url: string): string => {
+  const extension = /\.(jpe?g|png|webp|gif)(?:[?#]|$)/i.exec(url)?.[1].toLowerCase() ?? 'img';
+  return `${hashString(url, 31)}${hashString(url, 37)}.${extension}`;
+};
+
+class ImageCacheService {
+  private readonly entries = new Map<string, CacheEntry>();  // By file name
+  private readonly queue: ImageRequest[] = [];
+  private readonly queuedUrls = new Set<string>();
+  private readonly failedUrls = new Set<string>();
+  private readonly reportedWineIds = new Set<string>();
+  private activeDownloads = 0;
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Read the cache directory - only the first call touches the file system
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readDirectory();
+    }
+    return this.loading;
+  }
+
+  /**
+   * file:// URI of a cached image, null if it is not cached (yet)
+   */
+  getCachedUri(url: string): string | null {
+    const entry = this.entries.get(fileNameForUrl(url));
+    if (!entry) return null;
+
+    entry.lastUsed = Date.now();
+    return `file://${entry.path}`;
+  }
+
+  /**
+   * Queue images for download, in the given order - cached and failed images are skipped
+   */
+  prefetch(requests: ImageRequest[]): void {
+    requests.forEach(request => {
+      const cached = this.entries.has(fileNameForUrl(request.url));
+      if (cached || this.failedUrls.has(request.url) || this.queuedUrls.has(request.url)) return;
+
+      this.queuedUrls.add(request.url);
+      this.queue.push(request);
+    });
+
+    this.initialize().then(() => this.pump());
+  }
+
+  /**
+   * Log a failed image load - once per wine, repeated renders stay quiet
+   */
+  reportFailure(wineId: string, url: string | null, error?: unknown): void {
+    if (url) this.failedUrls.add(url);
+    if (this.reportedWineIds.has(wineId)) return;
+
+    this.reportedWineIds.add(wineId);
+    logger.images.warn(`Image for wine ${wineId} failed to load:`, url, error ?? '');
+  }
+
+  /**
+   * Delete all cached images
+   */
+  async clear(): Promise<void> {
+    await this.initialize();
+    this.queue.length = 0;
+    this.queuedUrls.clear();
+    this.entries.clear();
+    if (await RNFS.exists(CACHE_DIRECTORY)) {
+      await RNFS.unlink(CACHE_DIRECTORY);
+    }
+    await RNFS.mkdir(CACHE_DIRECTORY);
+  }
+
+  private async readDirectory(): Promise<void> {
+    try {
+      await RNFS.mkdir(CACHE_DIRECTORY);
+      const files = await RNFS.readDir(CACHE_DIRECTORY);
+
+      files
+        .filter(file => file.isFile() && !file.name.endsWith('.download'))
+        .forEach(file => {
+          this.entries.set(file.name, {
+            path: file.path,
+            size: Number(file.size),
+            lastUsed: file.mtime?.getTime() ?? 0,
+          });
+        });
+
+      logger.images.debug(`Image cache holds ${this.entries.size} images`);
+    } catch (error) {
+      logger.images.error('Error reading the image cache:', error);
+    }
+  }
+
+  private pump(): void {
+    while (this.activeDownloads < MAX_CONCURRENT_DOWNLOADS && this.queue.length > 0) {
+      const request = this.queue.shift()!;
+      this.activeDownloads++;
+
+      this.download(request).finally(() => {
+        this.activeDownloads--;
+        this.queuedUrls.delete(request.url);
+        this.pump();
+      });
+    }
+  }
+
+  private async download({ wineId, url }: ImageRequest): Promise<void> {
+    const fileName = fileNameForUrl(url);
+    const path = `${CACHE_DIRECTORY}/${fileName}`;
+    // Downloaded under a temporary name so an interrupted download never looks cached
+    const downloadPath = `${path}.download`;
+
+    try {
+      const { statusCode, bytesWritten } = await RNFS.downloadFile({ fromUrl: url, toFile: downloadPath }).promise;
+      if (statusCode < 200 || statusCode >= 300) {
+        throw new Error(`HTTP ${statusCode}`);
+      }
+
+      await RNFS.moveFile(downloadPath, path);
+      this.entries.set(fileName, { path, size: bytesWritten, lastUsed: Date.now() });
+      await this.evict();
+    } catch (error) {
+      RNFS.unlink(downloadPath).catch(() => {});
+      this.reportFailure(wineId, url, error);
+    }
+  }
+
+  /**
+   * Delete the least recently used images until the cache fits MAX_CACHE_BYTES
+   */
+  private async evict(): Promise<void> {
+    let totalBytes = [...this.entries.values()].reduce((sum, entry) => sum + entry.size, 0);
+    if (totalBytes <= MAX_CACHE_BYTES) return;
+
+    const byLastUse = [...this.entries.entries()].sort(([, a], [, b]) => a.lastUsed - b.lastUsed);
+    for (const [fileName, entry] of byLastUse) {
+      if (totalBytes <= MAX_CACHE_BYTES) break;
+
+      this.entries.delete(fileName);
+      totalBytes -= entry.size;
+      await RNFS.unlink(entry.path).catch(error => {
+        logger.images.error('Error evicting cached image:', error);
+      });
+    }
+  }
+}
+
+// Export singleton instance
+export const imageCacheService = new ImageCacheService();
@@ -0,0 +1,481 @@
+/**
+ * In-Memory Repository
+ *
+ * Wine and preference repositories backed by a fixture catalogue (see
+ * src/data/fixtureCatalogue.json). Filters, pagination and search follow the
+ * semantics of the Supabase backend so the app can be demoed offline and
+ * services can be tested without a live project. Matches are kept in memory
+ * and lost on restart.
+ */
+
+import type { DatabaseWineExclusions, DatabaseWineFilter, WineGrape } from '../types';
+import type { WinesWithCoreDetailsRow } from '../types/database';
+import { referenceDataService } from './referenceDataService';
+import { convertPriceRange, parseUnitVolumes } from './wineFilterQuery';
+import { currencyService } from './currencyService';
+import { compareInDeckOrder, cursorPosition, deckSortFor, localShuffleKey } from './deckOrder';
+import type {
+  FacetCategory,
+  FacetCounts,
+  FilterPresetRow,
+  NamedEntity,
+  NumberRange,
+  PreferenceRepository,
+  PriceDistribution,
+  ReferenceValue,
+  RegionRow,
+  TranslatedReference,
+  WineRepository,
+  WineRowRequest,
+} from './repositories';
+
+export interface FixtureCatalogue {
+  wines: WinesWithCoreDetailsRow[];
+  grapes: NamedEntity[];
+  wineGrapes: Array<{ wine_id: string; grape_id: string; percentage: number | null }>;
+  producers: NamedEntity[];
+  regions: RegionRow[];
+  countryNames: Record<string, Record<string, string>>;  // country_code → { de: 'Schweiz', ... }
+  referenceValues: Record<TranslatedReference, ReferenceValue[]>;
+  units: number[];
+}
+
+interface StoredMatch {
+  user_id: string;
+  wine_id: string;
+  created_at: string;
+}
+
+interface StoredFilterPreset extends FilterPresetRow {
+  user_id: string;
+}
+
+const toPresetRow = ({ id, name, filter, filter_version, position, is_default }: StoredFilterPreset): FilterPresetRow =>
+  ({ id, name, filter, filter_version, position, is_default });
+
+// updated_at of every fixture wine
+const FIXTURE_UPDATED_AT = '2026-01-01T00:00:00.000Z';
+
+const byName = (a: { name: string }, b: { name: string }) => a.name.localeCompare(b.name);
+
+// Lower case without accents, so "Rosé" matches "rose"
+const normalizeText = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+const toWords = (text: string): string[] => normalizeText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+const includes = <T>(values: T[] | undefined, value: T | null) =>
+  !values || values.length === 0 || (value !== null && values.includes(value));
+
+// Wines without a value are never excluded
+const excludes = <T>(values: T[] | undefined, value: T | null) =>
+  !values || value === null || !values.includes(value);
+
+/**
+ * Check a blend against the grape filters, with the semantics of the wine_grape_shares view -
+ * the only grape of a wine counts as 100% when its share is unknown
+ */
+const matchesGrapeFilter = (grapes: WineGrape[], filters: DatabaseWineFilter): boolean => {
+  const selected = filters.grape && filters.grape.length > 0 ? filters.grape : null;
+  const minShare = filters.grapeMinShare ?? null;
+
+  const excluded = filters.exclude?.grape;
+
+  if (filters.singleVarietal && grapes.length !== 1) return false;
+  if (excluded && grapes.some(grape => excluded.includes(grape.name))) return false;
+  if (!selected) return true;
+
+  const hasShare = (grape: WineGrape) => {
+    if (minShare === null) return true;
+
+    const share = grape.percentage ?? (grapes.length === 1 ? 100 : null);
+    return share !== null && share >= minShare;
+  };
+  const matches = (name: string) => grapes.some(grape => grape.name === name && hasShare(grape));
+
+  return filters.grapeMatch === 'all' ? selected.every(matches) : selected.some(matches);
+};
+
+const matchesVintage = (year: number | null, filters: DatabaseWineFilter): boolean => {
+  if (year === null) return filters.includeNonVintage !== false;
+  return !filters.vintageRange || (year >= filters.vintageRange[0] && year <= filters.vintageRange[1]);
+};
+
+// Wines without a price never match a price range
+const matchesPriceRange = (wine: WinesWithCoreDetailsRow, filters: DatabaseWineFilter): boolean => {
+  if (!filters.priceRange) return true;
+  if (wine.price_min === null) return false;
+
+  const [fromPrice, toPrice] = convertPriceRange(filters.priceRange, filters.priceCurrency, wine.price_currency);
+  return wine.price_min <= toPrice && (wine.price_max ?? wine.price_min) >= fromPrice;
+};
+
+// Selected countries and regions add up, like in applyWineFilters
+const matchesOrigin = (wine: WinesWithCoreDetailsRow, filters: DatabaseWineFilter): boolean => {
+  const matchesCountry = includes(filters.countries, wine.country_code);
+  const matchesRegion = includes(filters.regions, wine.region_name_default);
+  return filters.countries?.length && filters.regions?.length
+    ? matchesCountry || matchesRegion
+    : matchesCountry && matchesRegion;
+};
+
+const matchesExclusions = (wine: WinesWithCoreDetailsRow, exclude?: DatabaseWineExclusions): boolean => {
+  if (!exclude) return true;
+
+  const canonical = (values: string[] | undefined, toName: (value: string) => string | null) =>
+    (values || []).map(toName).filter((name): name is string => name !== null);
+
+  return (
+    excludes(exclude.countries, wine.country_code) &&
+    excludes(exclude.regions, wine.region_name_default) &&
+    excludes(exclude.producer, wine.producer_id) &&
+    excludes(canonical(exclude.wineType, v => referenceDataService.getWineTypeName(v)), wine.wine_type) &&
+    excludes(canonical(exclude.color, v => referenceDataService.getWineColorName(v)), wine.wine_color) &&
+    excludes(exclude.sweetness, wine.sweetness_level) &&
+    excludes(exclude.body, wine.body) &&
+    excludes(exclude.acidity, wine.acidity) &&
+    excludes(exclude.tannin, wine.tannin) &&
+    excludes(exclude.alcohol, wine.alcohol_level) &&
+    excludes(exclude.productionType, wine.vinification_method) &&
+    excludes(exclude.price, wine.price_range) &&
+    excludes(exclude.unit ? parseUnitVolumes(exclude.unit) : undefined, wine.unit_volume)
+  );
+};
+
+/**
+ * Check a view row against a filter, with the same semantics as applyWineFilters -
+ * an empty filter category matches everything
+ */
+export const matchesWineFilter = (
+  wine: WinesWithCoreDetailsRow,
+  grapes: WineGrape[],
+  filters?: DatabaseWineFilter
+): boolean => {
+  if (!filters) return true;
+
+  const canonical = (values: string[] | undefined, toName: (value: string) => string | null) => {
+    const names = (values || []).map(toName).filter((name): name is string => name !== null);
+    return names.length > 0 ? names : undefined;
+  };
+
+  return (
+    matchesOrigin(wine, filters) &&
+    includes(canonical(filters.wineType, v => referenceDataService.getWineTypeName(v)), wine.wine_type) &&
+    includes(canonical(filters.color, v => referenceDataService.getWineColorName(v)), wine.wine_color) &&
+    includes(filters.sweetness, wine.sweetness_level) &&
+    includes(filters.body, wine.body) &&
+    includes(filters.acidity, wine.acidity) &&
+    includes(filters.tannin, wine.tannin) &&
+    includes(filters.alcohol, wine.alcohol_level) &&
+    includes(filters.productionType, wine.vinification_method) &&
+    includes(filters.price, wine.price_range) &&
+    includes(filters.unit ? parseUnitVolumes(filters.unit) : undefined, wine.unit_volume) &&
+    includes(filters.producer, wine.producer_id) &&
+    matchesExclusions(wine, filters.exclude) &&
+    matchesVintage(wine.year, filters) &&
+    matchesPriceRange(wine, filters) &&
+    matchesGrapeFilter(grapes, filters)
+  );
+};
+
+// Plain string comparison orders lower-case UUIDs like Postgres
+const compareIds = (a: string, b: string) => (a < b ? -1 : a > b ? 1 : 0);
+
+/**
+ * One page of rows in deck order, like the keyset pagination of the Supabase backend
+ * The random order uses localShuffleKey in place of the database's md5 key
+ */
+export const pageOfWineRows = (
+  wines: WinesWithCoreDetailsRow[],
+  { cursor, limit, order, seed }: WineRowRequest
+): WinesWithCoreDetailsRow[] => {
+  const sort = deckSortFor(order, seed);
+  const position = cursorPosition(cursor, sort);
+  const rows = sort?.column === 'shuffle_key'
+    ? wines.map(wine => ({ ...wine, shuffle_key: localShuffleKey(seed!, wine.id) }))
+    : wines;
+
+  return rows
+    .filter(wine => !position || compareInDeckOrder(wine, position, sort) > 0)
+    .sort((a, b) => compareInDeckOrder(a, b, sort))
+    .slice(0, limit);
+};
+
+/**
+ * Oldest and newest vintage of the rows, null when none has a year
+ */
+export const vintageBoundsOf = (wines: WinesWithCoreDetailsRow[]): NumberRange | null => {
+  const years = wines.map(wine => wine.year).filter((year): year is number => year !== null);
+  return years.length > 0 ? { min: Math.min(...years), max: Math.max(...years) } : null;
+};
+
+/**
+ * Number of wines per price bucket in the given currency, like the
+ * wine_price_histogram function - null when no wine has a price
+ */
+export const priceDistributionOf = (
+  wines: WinesWithCoreDetailsRow[],
+  bucketCount: number,
+  currency: string
+): PriceDistribution | null => {
+  const prices = wines
+    .filter(wine => wine.price_min !== null)
+    .map(wine => currencyService.convert(wine.price_min!, wine.price_currency, currency));
+  if (prices.length === 0) return null;
+
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  const counts: number[] = new Array(bucketCount).fill(0);
+  prices.forEach(price => {
+    const bucket = max > min ? Math.min(Math.floor(((price - min) / (max - min)) * bucketCount), bucketCount - 1) : 0;
+    counts[bucket]++;
+  });
+  return { min, max, counts };
+};
+
+// View column of each facet, grapes come from the blend
+const FACET_COLUMNS: Record<Exclude<FacetCategory, 'grape'>, (wine: WinesWithCoreDetailsRow) => string | number | null> = {
+  countries: wine => wine.country_code,
+  regions: wine => wine.region_name_default,
+  producer: wine => wine.producer_id,
+  wineType: wine => wine.wine_type,
+  color: wine => wine.wine_color,
+  sweetness: wine => wine.sweetness_level,
+  body: wine => wine.body,
+  acidity: wine => wine.acidity,
+  tannin: wine => wine.tannin,
+  alcohol: wine => wine.alcohol_level,
+  productionType: wine => wine.vinification_method,
+  price: wine => wine.price_range,
+  unit: wine => wine.unit_volume,
+};
+
+/**
+ * Number of matching wines per facet value, like the wine_facet_counts function
+ */
+export const facetCountsOf = (
+  wines: WinesWithCoreDetailsRow[],
+  grapesByWine: Record<string, WineGrape[]>,
+  filters: DatabaseWineFilter | undefined,
+  facets: FacetCategory[]
+): FacetCounts => {
+  const matching = wines.filter(wine => matchesWineFilter(wine, grapesByWine[wine.id] || [], filters));
+
+  return facets.reduce<FacetCounts>((acc, facet) => {
+    const counts: Record<string, number> = {};
+    matching.forEach(wine => {
+      const values = facet === 'grape'
+        ? [...new Set((grapesByWine[wine.id] || []).map(grape => grape.name))]
+        : [FACET_COLUMNS[facet](wine)];
+      values.forEach(value => {
+        if (value === null) return;
+        counts[String(value)] = (counts[String(value)] ?? 0) + 1;
+      });
+    });
+    return { ...acc, [facet]: counts };
+  }, {});
+};
+
+/**
+ * Build the repositories for a catalogue - each call starts with no matches, presets and settings
+ */
+export const createInMemoryRepositories = (catalogue: FixtureCatalogue) => {
+  const matches: StoredMatch[] = [];
+  const filterPresets: StoredFilterPreset[] = [];
+  const userLanguages = new Map<string, string>();
+  let nextPresetId = 1;
+
+  const grapesByWine = catalogue.wineGrapes.reduce<Record<string, WineGrape[]>>((acc, wineGrape) => {
+    const grape = catalogue.grapes.find(g => g.id === wineGrape.grape_id);
+    if (grape) {
+      acc[wineGrape.wine_id] = [
+        ...(acc[wineGrape.wine_id] || []),
+        { name: grape.name, percentage: wineGrape.percentage },
+      ];
+    }
+    return acc;
+  }, {});
+
+  const matchesFilter = (wine: WinesWithCoreDetailsRow, filters?: DatabaseWineFilter) =>
+    matchesWineFilter(wine, grapesByWine[wine.id] || [], filters);
+
+  // Relevance like search_wines: name and vintage > producer and region > description
+  const searchScore = (wine: WinesWithCoreDetailsRow, terms: string[], languageCode: string): number => {
+    const producer = catalogue.producers.find(p => p.id === wine.producer_id)?.name ?? '';
+    const fields: Array<[string[], number]> = [
+      [toWords(`${wine.default_name} ${wine.year ?? ''}`), 1],
+      [toWords([producer, wine.region_name_default, ...Object.values(wine.region_names_by_language || {})].join(' ')), 0.4],
+      [toWords(wine.descriptions_by_language?.[languageCode] ?? ''), 0.1],
+    ];
+
+    let score = 0;
+    for (const term of terms) {
+      const termScore = fields
+        .filter(([words]) => words.some(word => word.startsWith(term)))
+        .reduce((sum, [, weight]) => sum + weight, 0);
+      if (termScore === 0) return 0;  // All terms must match
+      score += termScore;
+    }
+    return score;
+  };
+
+  // like_count of the view, from the matches kept in memory
+  const withLikeCounts = (rows: WinesWithCoreDetailsRow[]): WinesWithCoreDetailsRow[] =>
+    rows.map(wine => ({ ...wine, like_count: matches.filter(m => m.wine_id === wine.id).length }));
+
+  const wines: WineRepository = {
+    fetchWineRows: async (filters, request) =>
+      pageOfWineRows(withLikeCounts(catalogue.wines.filter(wine => matchesFilter(wine, filters))), request),
+
+    fetchUnratedWineRows: async (userId, filters, request) => {
+      const ratedIds = new Set(matches.filter(m => m.user_id === userId).map(m => m.wine_id));
+      return pageOfWineRows(
+        withLikeCounts(catalogue.wines.filter(wine => !ratedIds.has(wine.id) && matchesFilter(wine, filters))),
+        request
+      );
+    },
+
+    fetchWineRowsByIds: async wineIds => catalogue.wines.filter(wine => wineIds.includes(wine.id)),
+
+    searchWineRows: async (query, languageCode, limit, offset) => {
+      const terms = toWords(query);
+      if (terms.length === 0) return [];
+
+      return catalogue.wines
+        .map(wine => ({ wine, score: searchScore(wine, terms, languageCode) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score || compareIds(a.wine.id, b.wine.id))
+        .slice(offset, offset + limit)
+        .map(({ wine }) => wine);
+    },
+
+    fetchGrapesForWines: async wineIds =>
+      wineIds.reduce<Record<string, WineGrape[]>>((acc, id) => {
+        if (grapesByWine[id]) acc[id] = grapesByWine[id];
+        return acc;
+      }, {}),
+
+    fetchWineIdentities: async referenceIds =>
+      catalogue.wines
+        .filter(wine => wine.reference_id !== null && referenceIds.includes(wine.reference_id))
+        .map(({ id, reference_id }) => ({ id, reference_id })),
+
+    // Fixture wines never change - they all count as changed once, at FIXTURE_UPDATED_AT
+    fetchWineChanges: async (after, limit) => {
+      if (after && after.updated_at > FIXTURE_UPDATED_AT) return [];
+
+      const cursor = after?.updated_at === FIXTURE_UPDATED_AT ? after.id : null;
+      return pageOfWineRows(catalogue.wines, { cursor, limit })
+        .map(wine => ({ id: wine.id, updated_at: FIXTURE_UPDATED_AT }));
+    },
+
+    fetchWineTombstones: async () => [],
+
+    fetchVintageBounds: async () => vintageBoundsOf(catalogue.wines),
+
+    fetchPriceDistribution: async (bucketCount, currency) => priceDistributionOf(catalogue.wines, bucketCount, currency),
+
+    fetchFacetCounts: async (filters, facets, userId) => {
+      const ratedIds = new Set(matches.filter(m => m.user_id === userId).map(m => m.wine_id));
+      return facetCountsOf(catalogue.wines.filter(wine => !ratedIds.has(wine.id)), grapesByWine, filters, facets);
+    },
+
+    countWineRows: async filters => catalogue.wines.filter(wine => matchesFilter(wine, filters)).length,
+
+    countUnratedWineRows: async (userId, filters) => {
+      const ratedIds = new Set(matches.filter(m => m.user_id === userId).map(m => m.wine_id));
+      return catalogue.wines.filter(wine => !ratedIds.has(wine.id) && matchesFilter(wine, filters)).length;
+    },
+
+    fetchGrapeNames: async () => [...catalogue.grapes].sort(byName).map(grape => grape.name),
+
+    fetchCountryCodesWithWines: async () =>
+      [...new Set(catalogue.wines.map(wine => wine.country_code).filter((code): code is string => Boolean(code)))],
+
+    fetchCountryNames: async (languageCode, countryCodes) =>
+      countryCodes
+        .filter(code => catalogue.countryNames[code]?.[languageCode])
+        .map(code => ({ country_code: code, name: catalogue.countryNames[code][languageCode] }))
+        .sort(byName),
+
+    fetchRegions: async () =>
+      [...catalogue.regions].sort((a, b) =>
+        (a.country_code ?? '').localeCompare(b.country_code ?? '') || byName(a, b)),
+
+    fetchTranslatedOptions: async (reference, languageCode) =>
+      catalogue.referenceValues[reference]
+        .map(value => value.translations[languageCode])
+        .filter((name): name is string => Boolean(name))
+        .sort((a, b) => a.localeCompare(b)),
+
+    fetchUnitVolumes: async () => [...catalogue.units].sort((a, b) => a - b),
+
+    // The fixture has no rates, the bundled fallback rates apply
+    fetchExchangeRates: async () => [],
+
+    fetchProducers: async () => [...catalogue.producers].sort(byName),
+
+    searchProducers: async (term, limit) =>
+      catalogue.producers
+        .filter(producer => normalizeText(producer.name).includes(normalizeText(term)))
+        .sort(byName)
+        .slice(0, limit),
+
+    fetchProducerById: async id => catalogue.producers.find(producer => producer.id === id) ?? null,
+
+    fetchReferenceValues: async reference => catalogue.referenceValues[reference],
+  };
+
+  const preferences: PreferenceRepository = {
+    addMatch: async (userId, wineId) => {
+      if (!matches.some(m => m.user_id === userId && m.wine_id === wineId)) {
+        matches.push({ user_id: userId, wine_id: wineId, created_at: new Date().toISOString() });
+      }
+    },
+
+    removeMatch: async (userId, wineId) => {
+      const index = matches.findIndex(m => m.user_id === userId && m.wine_id === wineId);
+      if (index >= 0) matches.splice(index, 1);
+    },
+
+    hasMatch: async (userId, wineId) => matches.some(m => m.user_id === userId && m.wine_id === wineId),
+
+    // Matches are stored in chronological order
+    fetchMatches: async userId =>
+      matches
+        .filter(m => m.user_id === userId)
+        .reverse()
+        .map(({ wine_id, created_at }) => ({ wine_id, created_at })),
+
+    // Stable sort - presets with the same position stay in insertion order
+    fetchFilterPresets: async userId =>
+      filterPresets
+        .filter(p => p.user_id === userId)
+        .sort((a, b) => a.position - b.position)
+        .map(toPresetRow),
+
+    insertFilterPreset: async (userId, preset) => {
+      const stored = { ...preset, id: `preset-${nextPresetId++}`, user_id: userId };
+      filterPresets.push(stored);
+      return toPresetRow(stored);
+    },
+
+    updateFilterPreset: async (userId, presetId, changes) => {
+      const preset = filterPresets.find(p => p.user_id === userId && p.id === presetId);
+      if (preset) Object.assign(preset, changes);
+    },
+
+    deleteFilterPreset: async (userId, presetId) => {
+      const index = filterPresets.findIndex(p => p.user_id === userId && p.id === presetId);
+      if (index >= 0) filterPresets.splice(index, 1);
+    },
+
+    fetchUserLanguage: async userId => userLanguages.get(userId) ?? null,
+
+    saveUserLanguage: async (userId, language) => {
+      userLanguages.set(userId, language);
+    },
+  };
+
+  return { wines, preferences };
+};
@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getPreferenceRepository } from './repositories';
+import { clearFilterOptionsCache } from './filterOptionsService';
+import { i18n, isLanguage, Language } from '../utils/i18n';
+import { logger } from '../utils/logger';
+
+/**
+ * Language Service
+ * The one app language: UI text, wine descriptions and the filter options all
+ * follow it. It starts as the language of the device until the user picks
+ * another one in the settings.
+ *
+ * The choice is kept on the device and, for signed-in users, in the
+ * user_settings table - on sign-in the language the user saved wins.
+ */
+
+const STORAGE_KEY = '@winder/language';
+
+type LanguageListener = (language: Language) => void;
+
+class LanguageService {
+  private userId: string | null = null;
+  private loading: Promise<void> | null = null;
+  private readonly listeners = new Set<LanguageListener>();
+
+  /**
+   * Apply the language stored on the device - only the first call does any work
+   */
+  initialize(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.readStoredLanguage();
+    }
+    return this.loading;
+  }
+
+  getLanguage(): Language {
+    return i18n.getCurrentLanguage();
+  }
+
+  /**
+   * Switch the app language and remember it for the device and the signed-in user
+   */
+  async setLanguage(language: Language): Promise<void> {
+    if (language === this.getLanguage()) return;
+
+    this.apply(language);
+    await this.writeStoredLanguage(language);
+
+    if (this.userId) {
+      try {
+        await getPreferenceRepository().saveUserLanguage(this.userId, language);
+      } catch (error) {
+        logger.language.error('Error saving the language of the user:', error);
+      }
+    }
+  }
+
+  /**
+   * Follow the signed-in user (undefined for guests) and apply their language
+   * Users that never picked a language keep the current one
+   */
+  async setUser(userId: string | undefined): Promise<void> {
+    this.userId = userId ?? null;
+    if (!userId) return;
+
+    // The device language is read first so it can't replace the user's one
+    await this.initialize();
+    try {
+      const language = await getPreferenceRepository().fetchUserLanguage(userId);
+      if (this.userId === userId && isLanguage(language)) {
+        this.apply(language);
+        await this.writeStoredLanguage(language);
+      }
+    } catch (error) {
+      logger.language.warn('Could not load the language of the user, keeping the current one:', error);
+    }
+  }
+
+  /**
+   * Listen to language changes, returns the unsubscribe function
+   */
+  subscribe(listener: LanguageListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Cached options hold translated values, they are loaded again in the new language
+  private apply(language: Language): void {
+    if (language === i18n.getCurrentLanguage()) return;
+
+    i18n.setLanguage(language);
+    clearFilterOptionsCache();
+    logger.language.info(`Switched to ${language}`);
+    this.listeners.forEach(listener => listener(language));
+  }
+
+  private async readStoredLanguage(): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(STORAGE_KEY);
+      if (isLanguage(stored)) {
+        this.apply(stored);
+      }
+    } catch (error) {
+      logger.language.error('Error reading the stored language:', error);
+    }
+  }
+
+  private async writeStoredLanguage(language: Language): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEY, language);
+    } catch (error) {
+      logger.language.error('Error saving the language:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const languageService = new LanguageService();
@@ -0,0 +1,313 @@
+/**
+ * Local Catalogue
+ *
+ * On-device copy of the wine catalogue: rows of wines_with_core_details, the
+ * grapes per wine and the reference data needed to filter offline. Persisted
+ * in AsyncStorage, filled by catalogueSyncService and read by the offline-first
+ * wine repository (offlineWineRepository.ts).
+ *
+ * Every wine is stored under its own key, so a sync batch only writes the wines
+ * it changed and no single value grows with the catalogue (Android limits a
+ * value to about 2 MB).
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { DatabaseWineFilter, WineGrape } from '../types';
+import type { WinesWithCoreDetailsRow } from '../types/database';
+import { logger } from '../utils/logger';
+import { facetCountsOf, matchesWineFilter, pageOfWineRows, priceDistributionOf, vintageBoundsOf } from './inMemoryRepository';
+import type {
+  FacetCategory,
+  FacetCounts,
+  NumberRange,
+  PriceDistribution,
+  ReferenceTable,
+  ReferenceValue,
+  WineChange,
+  WineIdentity,
+  WineRowRequest,
+  WineTombstone,
+} from './repositories';
+
+// Sync state under one key, each wine under the prefix and its UUID, the
+// rated wines under the prefix and the user ID
+const META_STORAGE_KEY = '@winder/catalogue/meta';
+const WINE_STORAGE_PREFIX = '@winder/catalogue/wine/';
+const RATED_STORAGE_PREFIX = '@winder/catalogue/rated/';
+
+// Wines read from the storage per multiGet
+const READ_BATCH_SIZE = 500;
+
+interface CatalogueWines {
+  rows: Record<string, WinesWithCoreDetailsRow>;  // By wine UUID
+  grapesByWine: Record<string, WineGrape[]>;
+}
+
+// Stored value of one wine
+interface StoredWine {
+  row: WinesWithCoreDetailsRow;
+  grapes?: WineGrape[];
+}
+
+interface CatalogueMeta {
+  changeCursor: WineChange | null;   // Last change that was applied
+  tombstoneCursor: string | null;    // deleted_at of the last tombstone that was applied
+  lastSyncedAt: string | null;       // When the last sync completed
+  grapeNames: string[];
+  referenceValues: Partial<Record<ReferenceTable, ReferenceValue[]>>;
+}
+
+const emptyWines = (): CatalogueWines => ({ rows: {}, grapesByWine: {} });
+
+const emptyMeta = (): CatalogueMeta => ({
+  changeCursor: null,
+  tombstoneCursor: null,
+  lastSyncedAt: null,
+  grapeNames: [],
+  referenceValues: {},
+});
+
+const isSameList = (a: string[], b: string[]): boolean =>
+  a.length === b.length && a.every((value, index) => value === b[index]);
+
+class LocalCatalogue {
+  private wines: CatalogueWines = emptyWines();
+  private meta: CatalogueMeta = emptyMeta();
+  private ratedWineIds: Record<string, string[]> = {};  // Last known rated wines per user
+  private loading: Promise<void> | null = null;
+
+  /**
+   * Read the stored catalogue - only the first call touches the storage
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.read();
+    }
+    return this.loading;
+  }
+
+  /**
+   * True once a sync has completed, before that the catalogue may be partial
+   */
+  isReady(): boolean {
+    return this.meta.lastSyncedAt !== null;
+  }
+
+  getLastSyncedAt(): string | null {
+    return this.meta.lastSyncedAt;
+  }
+
+  getChangeCursor(): WineChange | null {
+    return this.meta.changeCursor;
+  }
+
+  getTombstoneCursor(): string | null {
+    return this.meta.tombstoneCursor;
+  }
+
+  /**
+   * One page of rows matching the filter, excluding the given wine UUIDs
+   */
+  queryRows(
+    filters: DatabaseWineFilter | undefined,
+    request: WineRowRequest,
+    excludedIds: Set<string> = new Set()
+  ): WinesWithCoreDetailsRow[] {
+    const matching = Object.values(this.wines.rows).filter(row =>
+      !excludedIds.has(row.id) &&
+      matchesWineFilter(row, this.wines.grapesByWine[row.id] || [], filters)
+    );
+    return pageOfWineRows(matching, request);
+  }
+
+  countRows(filters: DatabaseWineFilter | undefined, excludedIds: Set<string> = new Set()): number {
+    return Object.values(this.wines.rows).filter(row =>
+      !excludedIds.has(row.id) &&
+      matchesWineFilter(row, this.wines.grapesByWine[row.id] || [], filters)
+    ).length;
+  }
+
+  hasWine(wineId: string): boolean {
+    return wineId in this.wines.rows;
+  }
+
+  getRows(wineIds: string[]): WinesWithCoreDetailsRow[] {
+    return wineIds.filter(id => this.hasWine(id)).map(id => this.wines.rows[id]);
+  }
+
+  getGrapes(wineIds: string[]): Record<string, WineGrape[]> {
+    return wineIds.reduce<Record<string, WineGrape[]>>((acc, id) => {
+      if (this.wines.grapesByWine[id]) acc[id] = this.wines.grapesByWine[id];
+      return acc;
+    }, {});
+  }
+
+  getIdentities(referenceIds: string[]): WineIdentity[] {
+    return Object.values(this.wines.rows)
+      .filter(row => row.reference_id !== null && referenceIds.includes(row.reference_id))
+      .map(({ id, reference_id }) => ({ id, reference_id }));
+  }
+
+  getVintageBounds(): NumberRange | null {
+    return vintageBoundsOf(Object.values(this.wines.rows));
+  }
+
+  getPriceDistribution(bucketCount: number, currency: string): PriceDistribution | null {
+    return priceDistributionOf(Object.values(this.wines.rows), bucketCount, currency);
+  }
+
+  getFacetCounts(
+    filters: DatabaseWineFilter | undefined,
+    facets: FacetCategory[],
+    excludedIds: Set<string> = new Set()
+  ): FacetCounts {
+    const rows = Object.values(this.wines.rows).filter(row => !excludedIds.has(row.id));
+    return facetCountsOf(rows, this.wines.grapesByWine, filters, facets);
+  }
+
+  getGrapeNameList(): string[] | null {
+    return this.meta.grapeNames.length > 0 ? this.meta.grapeNames : null;
+  }
+
+  getReferenceValues(reference: ReferenceTable): ReferenceValue[] | null {
+    return this.meta.referenceValues[reference] ?? null;
+  }
+
+  getRatedWineIds(userId: string): string[] {
+    return this.ratedWineIds[userId] ?? [];
+  }
+
+  /**
+   * Remember the rated wines of a user for the deck offline - only written when they changed
+   */
+  async setRatedWineIds(userId: string, wineIds: string[]): Promise<void> {
+    if (isSameList(this.getRatedWineIds(userId), wineIds)) return;
+
+    this.ratedWineIds[userId] = wineIds;
+    try {
+      await AsyncStorage.setItem(RATED_STORAGE_PREFIX + userId, JSON.stringify(wineIds));
+    } catch (error) {
+      logger.catalogue.error('Error saving the rated wines:', error);
+    }
+  }
+
+  /**
+   * Replace the changed wines - changed wines without a valid row are removed
+   */
+  async applyChanges(
+    changedIds: string[],
+    rows: WinesWithCoreDetailsRow[],
+    grapesByWine: Record<string, WineGrape[]>,
+    cursor: WineChange
+  ): Promise<void> {
+    changedIds.forEach(id => this.remove(id));
+    rows.forEach(row => {
+      this.wines.rows[row.id] = row;
+      if (grapesByWine[row.id]) {
+        this.wines.grapesByWine[row.id] = grapesByWine[row.id];
+      }
+    });
+    this.meta.changeCursor = cursor;
+    await this.save(changedIds);
+  }
+
+  async applyTombstones(tombstones: WineTombstone[]): Promise<void> {
+    if (tombstones.length === 0) return;
+
+    tombstones.forEach(tombstone => this.remove(tombstone.wine_id));
+    this.meta.tombstoneCursor = tombstones[tombstones.length - 1].deleted_at;
+    await this.save(tombstones.map(tombstone => tombstone.wine_id));
+  }
+
+  async completeSync(
+    grapeNames: string[],
+    referenceValues: Record<ReferenceTable, ReferenceValue[]>,
+    syncedAt: string
+  ): Promise<void> {
+    this.meta.grapeNames = grapeNames;
+    this.meta.referenceValues = referenceValues;
+    this.meta.lastSyncedAt = syncedAt;
+    await this.save();
+  }
+
+  /**
+   * Drop the catalogue, the next sync downloads everything again
+   */
+  async clear(): Promise<void> {
+    this.wines = emptyWines();
+    this.meta = emptyMeta();
+    this.ratedWineIds = {};
+    this.loading = Promise.resolve();
+    const keys = await AsyncStorage.getAllKeys();
+    await AsyncStorage.multiRemove([
+      META_STORAGE_KEY,
+      ...keys.filter(key => key.startsWith(WINE_STORAGE_PREFIX) || key.startsWith(RATED_STORAGE_PREFIX)),
+    ]);
+  }
+
+  private remove(wineId: string): void {
+    delete this.wines.rows[wineId];
+    delete this.wines.grapesByWine[wineId];
+  }
+
+  private async read(): Promise<void> {
+    try {
+      const meta = await AsyncStorage.getItem(META_STORAGE_KEY);
+      if (meta) this.meta = { ...emptyMeta(), ...JSON.parse(meta) };
+
+      const keys = await AsyncStorage.getAllKeys();
+      const wineKeys = keys.filter(key => key.startsWith(WINE_STORAGE_PREFIX));
+      for (let start = 0; start < wineKeys.length; start += READ_BATCH_SIZE) {
+        const entries = await AsyncStorage.multiGet(wineKeys.slice(start, start + READ_BATCH_SIZE));
+        entries.forEach(([, value]) => {
+          if (!value) return;
+          const { row, grapes }: StoredWine = JSON.parse(value);
+          this.wines.rows[row.id] = row;
+          if (grapes) this.wines.grapesByWine[row.id] = grapes;
+        });
+      }
+
+      const ratedEntries = await AsyncStorage.multiGet(keys.filter(key => key.startsWith(RATED_STORAGE_PREFIX)));
+      ratedEntries.forEach(([key, value]) => {
+        if (value) this.ratedWineIds[key.slice(RATED_STORAGE_PREFIX.length)] = JSON.parse(value);
+      });
+
+      logger.catalogue.info(`Loaded ${Object.keys(this.wines.rows).length} wines from the device`);
+    } catch (error) {
+      // A broken copy is treated like no copy, the next sync starts from scratch
+      logger.catalogue.error('Error reading the local catalogue:', error);
+      this.wines = emptyWines();
+      this.meta = emptyMeta();
+      this.ratedWineIds = {};
+    }
+  }
+
+  /**
+   * Store the sync state and the given wines as they are in memory - wines no
+   * longer there are removed. Wines go first: when they can't be stored, the
+   * stored cursor stays before them and the next sync downloads them again.
+   */
+  private async save(wineIds: string[] = []): Promise<void> {
+    const present = wineIds.filter(id => this.hasWine(id));
+    const removed = wineIds.filter(id => !this.hasWine(id));
+
+    try {
+      if (present.length > 0) {
+        await AsyncStorage.multiSet(present.map(id => {
+          const stored: StoredWine = { row: this.wines.rows[id], grapes: this.wines.grapesByWine[id] };
+          return [WINE_STORAGE_PREFIX + id, JSON.stringify(stored)];
+        }));
+      }
+      if (removed.length > 0) {
+        await AsyncStorage.multiRemove(removed.map(id => WINE_STORAGE_PREFIX + id));
+      }
+      await AsyncStorage.setItem(META_STORAGE_KEY, JSON.stringify(this.meta));
+    } catch (error) {
+      // The in-memory copy stays valid for this session
+      logger.catalogue.error('Error saving the local catalogue:', error);
+    }
+  }
+}
+
+// Export singleton instance
+export const localCatalogue = new LocalCatalogue();
@@ -0,0 +1,185 @@
+/**
+ * Offline-First Wine Repository
+ *
+ * Wraps a remote wine repository. Once the local catalogue has been synced,
+ * deck pages, counts, liked wines and grapes are served from the device
+ * and every deck request starts a (throttled) background sync. Until then, and
+ * for everything the catalogue does not hold (search, filter options), the
+ * remote repository is used. Grapes and reference data fall back to the local copy when the
+ * remote request fails.
+ *
+ * Decks ordered by popularity or price come from the remote repository while it
+ * can be reached: like counts and euro prices change with the likes of every
+ * user and with the exchange rates, the local copy only catches up on the next sync.
+ */
+
+import { logger } from '../utils/logger';
+import { catalogueSyncService } from './catalogueSyncService';
+import { localCatalogue } from './localCatalogue';
+import type { PreferenceRepository, WineRepository, WineRowRequest } from './repositories';
+import type { DeckOrder } from '../types';
+
+// Orders whose sort keys change without a change of the wine
+const REMOTE_FIRST_ORDERS: readonly DeckOrder[] = ['popular', 'price-asc', 'price-desc'];
+
+const isRemoteFirst = ({ order }: WineRowRequest): boolean =>
+  !!order && REMOTE_FIRST_ORDERS.includes(order);
+
+/**
+ * Run the remote request, use the local value when it fails and one exists
+ */
+const remoteOrLocal = async <T>(load: () => Promise<T>, local: () => T | null, what: string): Promise<T> => {
+  try {
+    return await load();
+  } catch (error) {
+    const fallback = local();
+    if (fallback === null) throw error;
+
+    logger.catalogue.warn(`Could not load ${what}, using the local catalogue:`, error);
+    return fallback;
+  }
+};
+
+export const createOfflineFirstWineRepository = (
+  remote: WineRepository,
+  preferences: PreferenceRepository
+): WineRepository => {
+  catalogueSyncService.setSource(remote);
+
+  // True when requests can be served locally, refreshes the catalogue in the background
+  const canServeLocally = async (): Promise<boolean> => {
+    await localCatalogue.load();
+    catalogueSyncService.syncInBackground();
+    return localCatalogue.isReady();
+  };
+
+  // Rated wines of the user - the last known ones when offline
+  const fetchRatedWineIds = async (userId: string): Promise<Set<string>> => {
+    const wineIds = await remoteOrLocal(
+      async () => (await preferences.fetchMatches(userId)).map(match => match.wine_id),
+      () => localCatalogue.getRatedWineIds(userId),
+      'rated wines'
+    );
+    await localCatalogue.setRatedWineIds(userId, wineIds);
+    return new Set(wineIds);
+  };
+
+  return {
+    ...remote,
+
+    fetchWineRows: async (filters, request) => {
+      if (!(await canServeLocally())) {
+        return remote.fetchWineRows(filters, request);
+      }
+      if (isRemoteFirst(request)) {
+        return remoteOrLocal(
+          () => remote.fetchWineRows(filters, request),
+          () => localCatalogue.queryRows(filters, request),
+          'the deck'
+        );
+      }
+      return localCatalogue.queryRows(filters, request);
+    },
+
+    fetchUnratedWineRows: async (userId, filters, request) => {
+      if (!(await canServeLocally())) {
+        return remote.fetchUnratedWineRows(userId, filters, request);
+      }
+      if (isRemoteFirst(request)) {
+        return remoteOrLocal(
+          () => remote.fetchUnratedWineRows(userId, filters, request),
+          () => localCatalogue.queryRows(filters, request, new Set(localCatalogue.getRatedWineIds(userId))),
+          'the deck'
+        );
+      }
+      return localCatalogue.queryRows(filters, request, await fetchRatedWineIds(userId));
+    },
+
+    fetchWineRowsByIds: async wineIds => {
+      await localCatalogue.load();
+      const localRows = localCatalogue.getRows(wineIds);
+      const missingIds = wineIds.filter(id => !localCatalogue.hasWine(id));
+      if (missingIds.length === 0) {
+        return localRows;
+      }
+
+      const remoteRows = await remoteOrLocal(
+        () => remote.fetchWineRowsByIds(missingIds),
+        () => (localRows.length > 0 ? [] : null),
+        'wines'
+      );
+      return [...localRows, ...remoteRows];
+    },
+
+    fetchGrapesForWines: async wineIds => {
+      await localCatalogue.load();
+      if (wineIds.every(id => localCatalogue.hasWine(id))) {
+        return localCatalogue.getGrapes(wineIds);
+      }
+      return remoteOrLocal(
+        () => remote.fetchGrapesForWines(wineIds),
+        () => localCatalogue.getGrapes(wineIds),
+        'grapes'
+      );
+    },
+
+    fetchWineIdentities: async referenceIds => {
+      await localCatalogue.load();
+      const localIdentities = localCatalogue.getIdentities(referenceIds);
+      if (localIdentities.length === referenceIds.length) {
+        return localIdentities;
+      }
+      return remote.fetchWineIdentities(referenceIds);
+    },
+
+    fetchVintageBounds: async () => {
+      await localCatalogue.load();
+      return remoteOrLocal(() => remote.fetchVintageBounds(), () => localCatalogue.getVintageBounds(), 'vintages');
+    },
+
+    fetchPriceDistribution: async (bucketCount, currency) => {
+      await localCatalogue.load();
+      return remoteOrLocal(
+        () => remote.fetchPriceDistribution(bucketCount, currency),
+        () => localCatalogue.getPriceDistribution(bucketCount, currency),
+        'prices'
+      );
+    },
+
+    countWineRows: async (filters, signal) => {
+      if (!(await canServeLocally())) {
+        return remote.countWineRows(filters, signal);
+      }
+      return localCatalogue.countRows(filters);
+    },
+
+    countUnratedWineRows: async (userId, filters, signal) => {
+      if (!(await canServeLocally())) {
+        return remote.countUnratedWineRows(userId, filters, signal);
+      }
+      return localCatalogue.countRows(filters, await fetchRatedWineIds(userId));
+    },
+
+    fetchFacetCounts: async (filters, facets, userId, signal) => {
+      if (!(await canServeLocally())) {
+        return remote.fetchFacetCounts(filters, facets, userId, signal);
+      }
+      const ratedIds = userId ? await fetchRatedWineIds(userId) : new Set<string>();
+      return localCatalogue.getFacetCounts(filters, facets, ratedIds);
+    },
+
+    fetchGrapeNames: async () => {
+      await localCatalogue.load();
+      return remoteOrLocal(() => remote.fetchGrapeNames(), () => localCatalogue.getGrapeNameList(), 'grapes');
+    },
+
+    fetchReferenceValues: async reference => {
+      await localCatalogue.load();
+      return remoteOrLocal(
+        () => remote.fetchReferenceValues(reference),
+        () => localCatalogue.getReferenceValues(reference),
+        reference
+      );
+    },
+  };
+};
@@ -1,9 +1,10 @@
-import { supabase } from '../lib/supabase';
+import { getWineRepository } from './repositories';
 import { logger } from '../utils/logger';
 
 /**
  * Reference Data Service
  * Converts translated filter values (e.g., "Rot", "Weiss") back to canonical names (e.g., "red", "white")
+ * and into other languages when the app language changes
  * Matches Web App's referenceDataService.ts exactly
  */
 
@@ -26,14 +27,24 @@ class ReferenceDataService {
     wineTypes: [],
   };
 
-  private initialized = false;
+  private initialization: Promise<void> | null = null;
 
   /**
    * Initialize the service by loading all reference data
+   * Callers arriving while it loads wait for the same load, a failed load is
+   * tried again by the next caller
    */
-  async initialize(): Promise<void> {
-    if (this.initialized) return;
+  initialize(): Promise<void> {
+    if (!this.initialization) {
+      this.initialization = this.load().catch(error => {
+        this.initialization = null;
+        throw error;
+      });
+    }
+    return this.initialization;
+  }
 
+  private async load(): Promise<void> {
     logger.referenceData.debug('Initializing...');
 
     try {
@@ -42,7 +53,6 @@ class ReferenceDataService {
         this.loadWineTypes(),
       ]);
 
-      this.initialized = true;
       logger.referenceData.info('Initialized successfully');
     } catch (error) {
       logger.referenceData.error('Initialization failed:', error);
@@ -54,33 +64,7 @@ class ReferenceDataService {
    * Load wine colors with all translations
    */
   private async loadWineColors(): Promise<void> {
-    const { data: colors, error: colorsError } = await supabase
-      .from('wine_colors')
-      .select('id, name');
-
-    if (colorsError) throw colorsError;
-
-    const { data: translations, error: translationsError } = await supabase
-      .from('wine_colors_translations')
-      .select('wine_color_id, language_code, translated_name');
-
-    if (translationsError) throw translationsError;
-
-    // Build structured data
-    this.cache.wineColors = (colors || []).map((color) => {
-      const colorTranslations = (translations || [])
-        .filter((t) => t.wine_color_id === color.id)
-        .reduce<Record<string, string>>((acc, t) => {
-          acc[t.language_code] = t.translated_name;
-          return acc;
-        }, {});
-
-      return {
-        name: color.name,
-        translations: colorTranslations,
-      };
-    });
-
+    this.cache.wineColors = await getWineRepository().fetchReferenceValues('wine_colors');
     logger.referenceData.info(`Loaded ${this.cache.wineColors.length} wine colors`);
   }
 
@@ -88,33 +72,7 @@ class ReferenceDataService {
    * Load wine types with all translations
    */
   private async loadWineTypes(): Promise<void> {
-    const { data: types, error: typesError } = await supabase
-      .from('wine_types')
-      .select('id, name');
-
-    if (typesError) throw typesError;
-
-    const { data: translations, error: translationsError } = await supabase
-      .from('wine_types_translations')
-      .select('wine_type_id, language_code, translated_name');
-
-    if (translationsError) throw translationsError;
-
-    // Build structured data
-    this.cache.wineTypes = (types || []).map((type) => {
-      const typeTranslations = (translations || [])
-        .filter((t) => t.wine_type_id === type.id)
-        .reduce<Record<string, string>>((acc, t) => {
-          acc[t.language_code] = t.translated_name;
-          return acc;
-        }, {});
-
-      return {
-        name: type.name,
-        translations: typeTranslations,
-      };
-    });
-
+    this.cache.wineTypes = await getWineRepository().fetchReferenceValues('wine_types');
     logger.referenceData.info(`Loaded ${this.cache.wineTypes.length} wine types`);
   }
 
@@ -164,6 +122,31 @@ class ReferenceDataService {
 
     return match?.name || null;
   }
+
+  /**
+   * Name of a wine color in another language
+   * Examples:
+   *   "Rot" → "Rouge" (fr)
+   *   "red" → "Rosso" (it)
+   * Values without a translation in that language are returned unchanged
+   */
+  translateWineColor(value: string, languageCode: string): string {
+    const canonical = this.getWineColorName(value);
+    const match = this.cache.wineColors.find(color => color.name === canonical);
+    return match?.translations[languageCode] || value;
+  }
+
+  /**
+   * Name of a wine type in another language
+   * Examples:
+   *   "Stillwein" → "Still Wine" (en)
+   *   "sparkling wine" → "Schaumwein" (de)
+   */
+  translateWineType(value: string, languageCode: string): string {
+    const canonical = this.getWineTypeName(value);
+    const match = this.cache.wineTypes.find(type => type.name === canonical);
+    return match?.translations[languageCode] || value;
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,229 @@
+/**
+ * Repositories
+ *
+ * Data access behind the wine, preference, filter option and reference data
+ * services. Two backends exist:
+ * - 'supabase': the live project (supabaseWineRepository / supabasePreferenceRepository)
+ * - 'memory':   the bundled fixture catalogue, for offline demos and integration tests
+ *
+ * The backend is selected once at startup (see index.js), services always go
+ * through getWineRepository() / getPreferenceRepository(). With offlineFirst the
+ * Supabase wine repository is wrapped so the deck is served from the on-device
+ * catalogue (offlineWineRepository.ts).
+ * Repositories return raw rows and throw on errors - mapping, validation and
+ * error handling stay in the services.
+ */
+
+import type { DatabaseWineExclusions, DatabaseWineFilter, DeckOrder, WineGrape } from '../types';
+import { supabaseWineRepository } from './supabaseWineRepository';
+import { supabasePreferenceRepository } from './supabasePreferenceRepository';
+import { createInMemoryRepositories, FixtureCatalogue } from './inMemoryRepository';
+import { createOfflineFirstWineRepository } from './offlineWineRepository';
+import { catalogueSyncService } from './catalogueSyncService';
+import fixtureCatalogue from '../data/fixtureCatalogue.json';
+
+export type DataBackend = 'supabase' | 'memory';
+
+// Reference tables with a *_translations table, used for filter options
+export type TranslatedReference =
+  | 'wine_types'
+  | 'wine_colors'
+  | 'vinification_methods'
+  | 'sweetness_levels'
+  | 'alcohol_levels'
+  | 'price_ranges';
+
+// Reference tables with canonical names, used to convert translated filter values
+export type ReferenceTable = 'wine_colors' | 'wine_types';
+
+export interface WineRowRequest {
+  cursor?: string | null;  // Only rows after this position (see deckOrder.ts)
+  limit: number;
+  order?: DeckOrder | null;  // Sorted by id when omitted
+  seed?: string | null;      // Shuffle seed of the random order
+  signal?: AbortSignal;      // Cancels the request, e.g. when a newer one replaces it
+}
+
+export interface WineIdentity {
+  id: string;
+  reference_id: string | null;
+}
+
+export interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+export interface CountryName {
+  country_code: string;
+  name: string;
+}
+
+export interface RegionRow {
+  id: string;
+  country_code: string | null;
+  name: string;
+  parent_id: string | null;                            // Region this one is a sub-region of
+  names_by_language: Record<string, string | null> | null;  // { de: 'Wallis', ... }
+}
+
+export interface ReferenceValue {
+  name: string;                          // Canonical name, e.g. "red"
+  translations: Record<string, string>;  // { de: 'Rot', en: 'Red' }
+}
+
+// Entry of the wine change feed, also the position to continue from
+export interface WineChange {
+  id: string;          // Wine UUID
+  updated_at: string;
+}
+
+export interface WineTombstone {
+  wine_id: string;     // UUID of the deleted wine
+  deleted_at: string;
+}
+
+export interface NumberRange {
+  min: number;
+  max: number;
+}
+
+// Wines per equally wide price bucket between min and max (by price_min)
+export interface PriceDistribution {
+  min: number;
+  max: number;
+  counts: number[];
+}
+
+// Filter categories that facet counts are computed for, the DatabaseWineFilter keys
+export type FacetCategory = keyof DatabaseWineExclusions;
+
+// Wines per value of each facet - keyed like the view column the filter compares
+// against (canonical names for wine type and colour, the volume for the unit)
+export type FacetCounts = Partial<Record<FacetCategory, Record<string, number>>>;
+
+export interface ExchangeRate {
+  currency_code: string;  // ISO 4217
+  rate_per_eur: number;
+}
+
+export interface MatchRow {
+  wine_id: string;     // Wine UUID
+  created_at: string;
+}
+
+export interface FilterPresetRow {
+  id: string;
+  name: string;
+  filter: unknown;         // WineFilter as stored, see migrateFilter
+  filter_version: number;
+  position: number;
+  is_default: boolean;
+}
+
+export type FilterPresetChanges = Partial<Omit<FilterPresetRow, 'id'>>;
+
+export interface WineRepository {
+  /** Rows of wines_with_core_details ordered by id */
+  fetchWineRows(filters: DatabaseWineFilter | undefined, request: WineRowRequest): Promise<unknown[]>;
+  /** Same as fetchWineRows without the wines the user has rated */
+  fetchUnratedWineRows(userId: string, filters: DatabaseWineFilter | undefined, request: WineRowRequest): Promise<unknown[]>;
+  fetchWineRowsByIds(wineIds: string[]): Promise<unknown[]>;
+  /** Number of wines matching the filter */
+  countWineRows(filters: DatabaseWineFilter | undefined, signal?: AbortSignal): Promise<number>;
+  /** Same as countWineRows without the wines the user has rated */
+  countUnratedWineRows(userId: string, filters: DatabaseWineFilter | undefined, signal?: AbortSignal): Promise<number>;
+  /** Full-text search, best match first */
+  searchWineRows(query: string, languageCode: string, limit: number, offset: number): Promise<unknown[]>;
+  /** Blend per wine UUID */
+  fetchGrapesForWines(wineIds: string[]): Promise<Record<string, WineGrape[]>>;
+  /** UUIDs of the wines with these reference IDs */
+  fetchWineIdentities(referenceIds: string[]): Promise<WineIdentity[]>;
+  /** Wines changed after the given change, ordered by updated_at and id */
+  fetchWineChanges(after: WineChange | null, limit: number): Promise<WineChange[]>;
+  /** Wines deleted after the given time, oldest first */
+  fetchWineTombstones(deletedAfter: string | null): Promise<WineTombstone[]>;
+
+  /** Oldest and newest vintage in the catalogue, null when no wine has a year */
+  fetchVintageBounds(): Promise<NumberRange | null>;
+  /** Price histogram of the catalogue in the given currency, null when no wine has a price */
+  fetchPriceDistribution(bucketCount: number, currency: string): Promise<PriceDistribution | null>;
+  /** Wines per value of the given facets, among the wines matching the filter - with a user, only unrated ones */
+  fetchFacetCounts(
+    filters: DatabaseWineFilter | undefined,
+    facets: FacetCategory[],
+    userId: string | undefined,
+    signal?: AbortSignal
+  ): Promise<FacetCounts>;
+  fetchGrapeNames(): Promise<string[]>;
+  fetchCountryCodesWithWines(): Promise<string[]>;
+  fetchCountryNames(languageCode: string, countryCodes: string[]): Promise<CountryName[]>;
+  fetchRegions(): Promise<RegionRow[]>;
+  /** Translated names of a reference table, sorted */
+  fetchTranslatedOptions(reference: TranslatedReference, languageCode: string): Promise<string[]>;
+  fetchUnitVolumes(): Promise<number[]>;
+  /** Exchange rates against the euro, empty when the backend has none */
+  fetchExchangeRates(): Promise<ExchangeRate[]>;
+  fetchProducers(): Promise<NamedEntity[]>;
+  searchProducers(term: string, limit: number): Promise<NamedEntity[]>;
+  fetchProducerById(id: string): Promise<NamedEntity | null>;
+  /** Canonical names with all translations */
+  fetchReferenceValues(reference: ReferenceTable): Promise<ReferenceValue[]>;
+}
+
+export interface PreferenceRepository {
+  /** Store a match, an existing match for the same wine is kept */
+  addMatch(userId: string, wineId: string): Promise<void>;
+  removeMatch(userId: string, wineId: string): Promise<void>;
+  hasMatch(userId: string, wineId: string): Promise<boolean>;
+  /** Matches of a user, newest first */
+  fetchMatches(userId: string): Promise<MatchRow[]>;
+  /** Filter presets of a user ordered by position */
+  fetchFilterPresets(userId: string): Promise<FilterPresetRow[]>;
+  insertFilterPreset(userId: string, preset: Omit<FilterPresetRow, 'id'>): Promise<FilterPresetRow>;
+  updateFilterPreset(userId: string, presetId: string, changes: FilterPresetChanges): Promise<void>;
+  deleteFilterPreset(userId: string, presetId: string): Promise<void>;
+  /** App language the user picked, null when they haven't */
+  fetchUserLanguage(userId: string): Promise<string | null>;
+  saveUserLanguage(userId: string, language: string): Promise<void>;
+}
+
+interface Repositories {
+  wines: WineRepository;
+  preferences: PreferenceRepository;
+}
+
+let activeRepositories: Repositories = {
+  wines: supabaseWineRepository,
+  preferences: supabasePreferenceRepository,
+};
+
+export interface RepositoryOptions {
+  catalogue?: FixtureCatalogue;  // In-memory backend only, defaults to the bundled fixture catalogue
+  offlineFirst?: boolean;        // Supabase backend only, serve wines from the local catalogue
+}
+
+/**
+ * Select the data backend - call once at startup, before the first query
+ */
+export const configureRepositories = (backend: DataBackend, options: RepositoryOptions = {}): void => {
+  catalogueSyncService.setSource(null);
+
+  if (backend === 'memory') {
+    activeRepositories = createInMemoryRepositories(
+      options.catalogue ?? (fixtureCatalogue as unknown as FixtureCatalogue)
+    );
+    return;
+  }
+
+  activeRepositories = {
+    wines: options.offlineFirst
+      ? createOfflineFirstWineRepository(supabaseWineRepository, supabasePreferenceRepository)
+      : supabaseWineRepository,
+    preferences: supabasePreferenceRepository,
+  };
+};
+
+export const getWineRepository = (): WineRepository => activeRepositories.wines;
+
+export const getPreferenceRepository = (): PreferenceRepository => activeRepositories.preferences;
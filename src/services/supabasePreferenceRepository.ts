@@ -0,0 +1,134 @@
+/**
+ * Supabase Preference Repository
+ *
+ * Stores liked wines in the user_wine_matches table
+ * Schema: id, user_id, wine_id (wine UUID), created_at
+ *
+ * and saved filters in the filter_presets table
+ * Schema: id, user_id, name, filter, filter_version, position, is_default, created_at, updated_at
+ *
+ * and the app language in the user_settings table
+ * Schema: user_id, language, updated_at
+ */
+
+import { supabase } from '../lib/supabase';
+import type { Json } from '../types/database';
+import type { PreferenceRepository } from './repositories';
+
+const FILTER_PRESET_COLUMNS = 'id, name, filter, filter_version, position, is_default';
+
+export const supabasePreferenceRepository: PreferenceRepository = {
+  addMatch: async (userId, wineId) => {
+    const { error } = await supabase
+      .from('user_wine_matches')
+      .insert({ user_id: userId, wine_id: wineId });
+
+    if (error) {
+      if (error.code === '23505') { // Unique violation - wine already matched
+        console.log('Wine already matched - this is fine');
+        return;
+      }
+      throw error;
+    }
+  },
+
+  removeMatch: async (userId, wineId) => {
+    const { error } = await supabase
+      .from('user_wine_matches')
+      .delete()
+      .eq('user_id', userId)
+      .eq('wine_id', wineId);
+
+    if (error) throw error;
+  },
+
+  hasMatch: async (userId, wineId) => {
+    const { data, error } = await supabase
+      .from('user_wine_matches')
+      .select('id')
+      .eq('user_id', userId)
+      .eq('wine_id', wineId);
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  },
+
+  fetchMatches: async userId => {
+    // Without a join - there is no FK relation to the view
+    const { data, error } = await supabase
+      .from('user_wine_matches')
+      .select('wine_id, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchFilterPresets: async userId => {
+    const { data, error } = await supabase
+      .from('filter_presets')
+      .select(FILTER_PRESET_COLUMNS)
+      .eq('user_id', userId)
+      .order('position', { ascending: true })
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  insertFilterPreset: async (userId, preset) => {
+    const { data, error } = await supabase
+      .from('filter_presets')
+      .insert({ ...preset, filter: preset.filter as Json, user_id: userId })
+      .select(FILTER_PRESET_COLUMNS)
+      .single();
+
+    if (error) throw error;
+    return data;
+  },
+
+  updateFilterPreset: async (userId, presetId, changes) => {
+    const { filter, ...columns } = changes;
+    const { error } = await supabase
+      .from('filter_presets')
+      .update({
+        ...columns,
+        ...(filter !== undefined && { filter: filter as Json }),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('user_id', userId)
+      .eq('id', presetId);
+
+    if (error) throw error;
+  },
+
+  deleteFilterPreset: async (userId, presetId) => {
+    const { error } = await supabase
+      .from('filter_presets')
+      .delete()
+      .eq('user_id', userId)
+      .eq('id', presetId);
+
+    if (error) throw error;
+  },
+
+  fetchUserLanguage: async userId => {
+    const { data, error } = await supabase
+      .from('user_settings')
+      .select('language')
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.language ?? null;
+  },
+
+  saveUserLanguage: async (userId, language) => {
+    const { error } = await supabase
+      .from('user_settings')
+      .upsert({ user_id: userId, language, updated_at: new Date().toISOString() });
+
+    if (error) throw error;
+  },
+};
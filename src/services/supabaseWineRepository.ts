@@ -0,0 +1,424 @@
+/**
+ * Supabase Wine Repository
+ *
+ * Catalogue, filter option and reference data queries against the live
+ * Supabase project. Wine rows are read from the wines_with_core_details view
+ * (or RPCs returning its rows) and filtered in the database (wineFilterQuery.ts).
+ */
+
+import { supabase } from '../lib/supabase';
+import { applyWineFilters, grapeFilterOf, toServerWineFilter, WineViewQuery } from './wineFilterQuery';
+import { applyDeckOrder, deckSortFor } from './deckOrder';
+import { WINE_VIEW_COLUMNS } from './wineRowSchema';
+import type { DatabaseWineFilter, WineGrape } from '../types';
+import type {
+  FacetCategory,
+  FacetCounts,
+  ReferenceValue,
+  TranslatedReference,
+  WineRepository,
+  WineRowRequest,
+} from './repositories';
+
+// Translation table and label column per reference table
+const TRANSLATION_TABLES = {
+  wine_types: { table: 'wine_types_translations', label: 'translated_name' },
+  wine_colors: { table: 'wine_colors_translations', label: 'translated_name' },
+  vinification_methods: { table: 'vinification_methods_translations', label: 'translated_name' },
+  sweetness_levels: { table: 'sweetness_levels_translations', label: 'translated_name' },
+  alcohol_levels: { table: 'alcohol_levels_translations', label: 'translated_label' },
+  price_ranges: { table: 'price_ranges_translations', label: 'translated_label' },
+} as const;
+
+// Only the RPCs taking a seed can compute the shuffle key of the random order
+const isShuffled = ({ order, seed }: WineRowRequest): boolean =>
+  deckSortFor(order, seed)?.column === 'shuffle_key';
+
+/**
+ * Apply filters, the deck order and the cursor to a view query and load the rows
+ */
+const fetchFilteredRows = async (
+  baseQuery: WineViewQuery,
+  filters: DatabaseWineFilter | undefined,
+  { cursor, limit, order, seed, signal }: WineRowRequest
+): Promise<unknown[]> => {
+  let winesQuery = applyDeckOrder(applyWineFilters(baseQuery, filters), deckSortFor(order, seed), cursor)
+    .limit(limit);
+  if (signal) {
+    winesQuery = winesQuery.abortSignal(signal);
+  }
+
+  const { data, error } = await winesQuery;
+
+  if (error) {
+    console.error('[supabaseWineRepository] Error fetching wines:', error);
+    throw error;
+  }
+
+  return data || [];
+};
+
+/**
+ * Apply filters to a counting view query (head: true) and return the count
+ */
+const countFilteredRows = async (
+  baseQuery: WineViewQuery,
+  filters: DatabaseWineFilter | undefined,
+  signal: AbortSignal | undefined
+): Promise<number> => {
+  let countQuery = applyWineFilters(baseQuery, filters);
+  if (signal) {
+    countQuery = countQuery.abortSignal(signal);
+  }
+
+  const { count, error } = await countQuery;
+  if (error) throw error;
+  return count ?? 0;
+};
+
+export const supabaseWineRepository: WineRepository = {
+  fetchWineRows: (filters, request) => {
+    // The grape filters and the shuffle key need the database (RPC filtered_wines)
+    const grapeFilter = grapeFilterOf(filters);
+    const shuffleSeed = isShuffled(request) ? request.seed! : null;
+    const baseQuery = (grapeFilter || shuffleSeed
+      ? supabase.rpc('filtered_wines', { p_filter: grapeFilter, p_seed: shuffleSeed }).select(WINE_VIEW_COLUMNS)
+      : supabase.from('wines_with_core_details').select(WINE_VIEW_COLUMNS)) as unknown as WineViewQuery;
+
+    return fetchFilteredRows(baseQuery, filters, request);
+  },
+
+  fetchUnratedWineRows: (userId, filters, request) => {
+    // The anti-join against user_wine_matches runs in the database (RPC unrated_wines_for_user).
+    // select() on an RPC is typed as a transform builder, but at runtime it returns
+    // the same filter builder, so the view filters can still be applied
+    const baseQuery = supabase
+      .rpc('unrated_wines_for_user', {
+        p_user_id: userId,
+        p_seed: isShuffled(request) ? request.seed : null,
+        p_filter: grapeFilterOf(filters),
+      })
+      .select(WINE_VIEW_COLUMNS) as unknown as WineViewQuery;
+
+    return fetchFilteredRows(baseQuery, filters, request);
+  },
+
+  fetchWineRowsByIds: async wineIds => {
+    const { data, error } = await supabase
+      .from('wines_with_core_details')
+      .select(WINE_VIEW_COLUMNS)
+      .in('id', wineIds);
+
+    if (error) {
+      console.error('[supabaseWineRepository] Error fetching wines by ID:', error);
+      throw error;
+    }
+
+    return data || [];
+  },
+
+  countWineRows: (filters, signal) => {
+    // head: only the count, no rows
+    const grapeFilter = grapeFilterOf(filters);
+    const baseQuery = (grapeFilter
+      ? supabase.rpc('filtered_wines', { p_filter: grapeFilter, p_seed: null }, { count: 'exact', head: true })
+      : supabase
+        .from('wines_with_core_details')
+        .select('id', { count: 'exact', head: true })) as unknown as WineViewQuery;
+
+    return countFilteredRows(baseQuery, filters, signal);
+  },
+
+  countUnratedWineRows: (userId, filters, signal) => {
+    const baseQuery = supabase.rpc(
+      'unrated_wines_for_user',
+      { p_user_id: userId, p_seed: null, p_filter: grapeFilterOf(filters) },
+      { count: 'exact', head: true }
+    ) as unknown as WineViewQuery;
+
+    return countFilteredRows(baseQuery, filters, signal);
+  },
+
+  searchWineRows: async (query, languageCode, limit, offset) => {
+    const { data, error } = await supabase
+      .rpc('search_wines', {
+        p_query: query,
+        p_language: languageCode,
+        p_limit: limit,
+        p_offset: offset,
+      })
+      .select(WINE_VIEW_COLUMNS);
+
+    if (error) {
+      console.error('[supabaseWineRepository] Error searching wines:', error);
+      throw error;
+    }
+
+    return (data || []) as unknown[];
+  },
+
+  fetchGrapesForWines: async wineIds => {
+    const { data, error } = await supabase
+      .from('wine_grapes')
+      .select('wine_id, percentage, grapes ( name )')
+      .in('wine_id', wineIds);
+
+    if (error) {
+      throw error;
+    }
+
+    const grapesMap: Record<string, WineGrape[]> = {};
+    (data || []).forEach(row => {
+      const grapeName = row.grapes?.name;
+      if (!row.wine_id || !grapeName) {
+        return;
+      }
+      grapesMap[row.wine_id] = grapesMap[row.wine_id] || [];
+      // Avoid duplicates
+      if (!grapesMap[row.wine_id].some(grape => grape.name === grapeName)) {
+        grapesMap[row.wine_id].push({ name: grapeName, percentage: row.percentage ?? null });
+      }
+    });
+    return grapesMap;
+  },
+
+  fetchWineIdentities: async referenceIds => {
+    const { data, error } = await supabase
+      .from('wines')
+      .select('id, reference_id')
+      .in('reference_id', referenceIds);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchWineChanges: async (after, limit) => {
+    let query = supabase.from('wines').select('id, updated_at');
+
+    if (after) {
+      // Keyset on (updated_at, id) so wines changed in the same instant are not skipped
+      query = query.or(
+        `updated_at.gt."${after.updated_at}",and(updated_at.eq."${after.updated_at}",id.gt.${after.id})`
+      );
+    }
+
+    const { data, error } = await query
+      .order('updated_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchWineTombstones: async deletedAfter => {
+    let query = supabase.from('wine_tombstones').select('wine_id, deleted_at');
+
+    if (deletedAfter) {
+      query = query.gt('deleted_at', deletedAfter);
+    }
+
+    const { data, error } = await query.order('deleted_at', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchVintageBounds: async () => {
+    const yearQuery = (ascending: boolean) =>
+      supabase
+        .from('wines')
+        .select('year')
+        .not('year', 'is', null)
+        .order('year', { ascending })
+        .limit(1)
+        .maybeSingle();
+
+    const [oldest, newest] = await Promise.all([yearQuery(true), yearQuery(false)]);
+
+    if (oldest.error) throw oldest.error;
+    if (newest.error) throw newest.error;
+    if (!oldest.data?.year || !newest.data?.year) return null;
+    return { min: oldest.data.year, max: newest.data.year };
+  },
+
+  fetchPriceDistribution: async (bucketCount, currency) => {
+    const { data, error } = await supabase
+      .rpc('wine_price_histogram', { p_bucket_count: bucketCount, p_currency: currency })
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    // numeric columns may arrive as strings
+    return { min: Number(data.min_price), max: Number(data.max_price), counts: data.counts };
+  },
+
+  fetchFacetCounts: async (filters, facets, userId, signal) => {
+    if (facets.length === 0) {
+      return {};
+    }
+
+    const counts = facets.reduce<FacetCounts>((acc, facet) => ({ ...acc, [facet]: {} }), {});
+
+    // The database applies the filter and counts (RPC wine_facet_counts)
+    let countQuery = supabase.rpc('wine_facet_counts', {
+      p_filter: toServerWineFilter(filters),
+      p_facets: facets,
+      p_user_id: userId ?? null,
+    });
+    if (signal) {
+      countQuery = countQuery.abortSignal(signal);
+    }
+
+    const { data, error } = await countQuery;
+    if (error) throw error;
+
+    (data || []).forEach(row => {
+      const facet = row.facet as FacetCategory;
+      // numeric volumes arrive as text, "0.750" counts for 0.75
+      const value = facet === 'unit' ? String(Number(row.value)) : row.value;
+      counts[facet] = { ...counts[facet], [value]: row.wine_count };
+    });
+    return counts;
+  },
+
+  fetchGrapeNames: async () => {
+    const { data, error } = await supabase
+      .from('grapes')
+      .select('name')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(grape => grape.name).filter(Boolean);
+  },
+
+  fetchCountryCodesWithWines: async () => {
+    const { data, error } = await supabase
+      .from('wines')
+      .select('regions!inner(country_code)')
+      .not('regions.country_code', 'is', null);
+
+    if (error) throw error;
+
+    const countryCodes = (data || [])
+      .map(wine => wine.regions?.country_code)
+      .filter((code): code is string => Boolean(code));
+    return [...new Set(countryCodes)];
+  },
+
+  fetchCountryNames: async (languageCode, countryCodes) => {
+    const { data, error } = await supabase
+      .from('country_translations')
+      .select('country_code, name')
+      .eq('language_code', languageCode)
+      .in('country_code', countryCodes)
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchRegions: async () => {
+    const { data, error } = await supabase
+      .from('regions')
+      .select('id, country_code, name, parent_id, names_by_language')
+      .order('country_code', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchTranslatedOptions: async (reference: TranslatedReference, languageCode) => {
+    const { table, label } = TRANSLATION_TABLES[reference];
+    const { data, error } = await supabase
+      .from(table)
+      .select(label)
+      .eq('language_code', languageCode)
+      .order(label, { ascending: true });
+
+    if (error) throw error;
+    // table and label are a union here, so the row type can't be inferred
+    return ((data || []) as unknown as Array<Record<string, unknown>>)
+      .map(row => row[label])
+      .filter((value): value is string => typeof value === 'string' && value !== '');
+  },
+
+  fetchUnitVolumes: async () => {
+    const { data, error } = await supabase
+      .from('units')
+      .select('volume')
+      .order('volume', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(unit => unit.volume);
+  },
+
+  fetchExchangeRates: async () => {
+    const { data, error } = await supabase
+      .from('exchange_rates')
+      .select('currency_code, rate_per_eur');
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchProducers: async () => {
+    const { data, error } = await supabase
+      .from('producers')
+      .select('id, name')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  searchProducers: async (term, limit) => {
+    const { data, error } = await supabase
+      .from('producers')
+      .select('id, name')
+      .ilike('name', `%${term}%`)
+      .order('name', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return data || [];
+  },
+
+  fetchProducerById: async id => {
+    const { data, error } = await supabase
+      .from('producers')
+      .select('id, name')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data;
+  },
+
+  fetchReferenceValues: async reference => {
+    const foreignKey = reference === 'wine_colors' ? 'wine_color_id' : 'wine_type_id';
+
+    const { data: values, error: valuesError } = await supabase
+      .from(reference)
+      .select('id, name');
+
+    if (valuesError) throw valuesError;
+
+    const { data: translations, error: translationsError } = await supabase
+      .from(TRANSLATION_TABLES[reference].table)
+      .select(`${foreignKey}, language_code, translated_name`);
+
+    if (translationsError) throw translationsError;
+
+    return (values || []).map((value): ReferenceValue => ({
+      name: value.name,
+      translations: ((translations || []) as unknown as Array<Record<string, string>>)
+        .filter(t => t[foreignKey] === value.id)
+        .reduce<Record<string, string>>((acc, t) => {
+          acc[t.language_code] = t.translated_name;
+          return acc;
+        }, {}),
+    }));
+  },
+};
@@ -1,10 +1,10 @@
-import { supabase } from '../lib/supabase';
-import { Wine, DatabaseWineFilter } from '../types';
-import { fetchWines } from './wineQueries';
+import { Wine, WinePage, DatabaseWineFilter } from '../types';
+import { fetchUnratedWines, fetchWinesByIds, WinePageOptions } from './wineQueries';
+import { getPreferenceRepository } from './repositories';
 
 /**
  * User wine match operations
- * Speichert gelikte Weine in user_wine_matches Tabelle
+ * Speichert gelikte Weine über das Preference Repository (user_wine_matches Tabelle)
  * Schema: id, user_id, wine_id, created_at
  * Ein Eintrag = geliked, kein Eintrag = nicht geliked
  */
@@ -19,51 +19,17 @@ export interface UserWineMatch {
 
 export const userPreferenceService = {
   // Gelikte Weine speichern
-  likeWine: async (userId: string, wineId: string): Promise<void> => {
+  likeWine: async (userId: string, wine: Wine): Promise<void> => {
     try {
-      console.log('Saving wine preference:', { userId, wineId });
+      console.log('Saving wine preference:', { userId, wineId: wine.id });
       
       // Validate inputs
-      if (!userId || !wineId) {
-        throw new Error(`Invalid parameters: userId=${userId}, wineId=${wineId}`);
+      if (!userId || !wine.uuid) {
+        throw new Error(`Invalid parameters: userId=${userId}, wineUuid=${wine.uuid}`);
       }
 
-      // Get the actual UUID for this wine from reference_id
-      const { data: wineData, error: wineError } = await supabase
-        .from('wines')
-        .select('id')
-        .eq('reference_id', wineId)
-        .maybeSingle();
-      
-      if (wineError) {
-        console.error('Error fetching wine UUID:', wineError);
-        throw wineError;
-      }
-      
-      if (!wineData) {
-        console.error(`Wine with reference_id ${wineId} not found in database`);
-        throw new Error(`Wine with reference_id ${wineId} not found in database`);
-      }
-      
-      const actualWineId = wineData.id;
-      console.log('Using actual wine UUID:', actualWineId);
-
-      // Store in Supabase using the actual UUID
-      const { error } = await supabase
-        .from('user_wine_matches')
-        .insert({ 
-          user_id: userId, 
-          wine_id: actualWineId 
-        });
-
-      if (error) {
-        if (error.code === '23505') { // Unique violation - wine already matched
-          console.log('Wine already matched - this is fine');
-          return;
-        }
-        console.error('Error saving match to database:', error);
-        throw error;
-      }
+      // Matches reference the wine UUID - an existing match is kept
+      await getPreferenceRepository().addMatch(userId, wine.uuid);
       
       console.log('Wine preference saved successfully');
     } catch (error) {
@@ -73,40 +39,11 @@ export const userPreferenceService = {
   },
 
   // Match entfernen / Unlike
-  removeLike: async (userId: string, wineId: string): Promise<void> => {
+  removeLike: async (userId: string, wine: Wine): Promise<void> => {
     try {
-      console.log('Removing wine preference:', { userId, wineId });
+      console.log('Removing wine preference:', { userId, wineId: wine.id });
       
-      // Get the actual UUID for this wine from reference_id
-      const { data: wineData, error: wineError } = await supabase
-        .from('wines')
-        .select('id')
-        .eq('reference_id', wineId)
-        .maybeSingle();
-      
-      if (wineError) {
-        console.error('Error fetching wine UUID:', wineError);
-        throw wineError;
-      }
-      
-      if (!wineData) {
-        console.error(`Wine with reference_id ${wineId} not found in database`);
-        throw new Error(`Wine with reference_id ${wineId} not found in database`);
-      }
-      
-      const actualWineId = wineData.id;
-      
-      // Remove from Supabase using the actual UUID
-      const { error } = await supabase
-        .from('user_wine_matches')
-        .delete()
-        .eq('user_id', userId)
-        .eq('wine_id', actualWineId);
-      
-      if (error) {
-        console.error('Error removing wine preference:', error);
-        throw error;
-      }
+      await getPreferenceRepository().removeMatch(userId, wine.uuid);
       
       console.log('Wine preference removed successfully');
     } catch (error) {
@@ -116,9 +53,9 @@ export const userPreferenceService = {
   },
 
   // Wein disliken (Match entfernen)
-  dislikeWine: async (userId: string, wineId: string): Promise<void> => {
+  dislikeWine: async (userId: string, wine: Wine): Promise<void> => {
     // Disliken = Match entfernen
-    return userPreferenceService.removeLike(userId, wineId);
+    return userPreferenceService.removeLike(userId, wine);
   },
 
   // Alle gelikten Weine eines Users laden
@@ -127,33 +64,29 @@ export const userPreferenceService = {
       console.log('Loading liked wines for user:', userId);
       
       // Erst die Matches laden (ohne Join da keine FK-Beziehung)
-      const { data: matchesData, error: matchesError } = await supabase
-        .from('user_wine_matches')
-        .select('wine_id, created_at')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-      
-      if (matchesError) {
+      let matchesData;
+      try {
+        matchesData = await getPreferenceRepository().fetchMatches(userId);
+      } catch (matchesError) {
         console.error('Error fetching wine matches:', matchesError);
-        if (matchesError.message?.includes('relation') && matchesError.message?.includes('does not exist')) {
+        // Supabase errors are plain objects with a message, not Error instances
+        const message = typeof matchesError === 'object' && matchesError !== null && 'message' in matchesError
+          ? String(matchesError.message)
+          : '';
+        if (message.includes('relation') && message.includes('does not exist')) {
           console.warn('user_wine_matches table does not exist - returning empty array');
           return [];
         }
         throw matchesError;
       }
 
-      if (!matchesData || matchesData.length === 0) {
+      if (matchesData.length === 0) {
         console.log('No wine matches found for user');
         return [];
       }
 
-      // Get all wines and filter to matched ones
-      // This is simpler - let fetchWines handle all the complexity
-      const allWines = await fetchWines();
-      const matchedWineIds = new Set(matchesData.map(m => m.wine_id));
-      
-      // Filter to only matched wines
-      const likedWines = allWines.filter(wine => matchedWineIds.has(wine.id));
+      // Load only the matched wines - wine_id is the wine's UUID
+      const likedWines = await fetchWinesByIds(matchesData.map(m => m.wine_id));
 
       console.log(`[getLikedWines] Loaded ${likedWines.length} liked wines for user`);
       return likedWines;
@@ -164,91 +97,42 @@ export const userPreferenceService = {
   },
 
   // Prüfen ob User einen Wein bereits bewertet hat
-  hasUserRatedWine: async (userId: string, wineId: string): Promise<boolean> => {
+  hasUserRatedWine: async (userId: string, wine: Wine): Promise<boolean> => {
     try {
-      // Get the actual UUID for this wine from reference_id
-      const { data: wineData, error: wineError } = await supabase
-        .from('wines')
-        .select('id')
-        .eq('reference_id', wineId)
-        .maybeSingle();
-      
-      if (wineError) {
-        console.error('Error fetching wine UUID:', wineError);
-        return false;
-      }
-      
-      if (!wineData) {
-        console.error(`Wine with reference_id ${wineId} not found in database`);
-        return false;
-      }
-      
-      const actualWineId = wineData.id;
-      
-      const { data, error } = await supabase
-        .from('user_wine_matches')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('wine_id', actualWineId);
-      
-      if (error) {
-        console.error('Error checking wine rating:', error);
-        return false;
-      }
-      
-      return data && data.length > 0;
+      return await getPreferenceRepository().hasMatch(userId, wine.uuid);
     } catch (error) {
-      console.error('Error in hasUserRatedWine function:', error);
+      console.error('Error checking wine rating:', error);
       return false;
     }
   },
 
   // Effiziente Unrated Weine mit Filtern für User laden
   /**
-   * Get unrated wines with filters applied
-   * Simplified version using the new wineQueries service
+   * Get one page of unrated wines with filters applied
+   * Already rated wines are excluded in the database, not on the client
    */
   getUnratedWinesWithFilters: async (
     userId: string, 
     filters?: DatabaseWineFilter, 
-    limit: number = 50
-  ): Promise<Wine[]> => {
+    options: WinePageOptions = {}
+  ): Promise<WinePage> => {
     try {
-      console.log('[getUnratedWinesWithFilters] Fetching for user:', userId);
-      
-      // Get all wines with filters from the new unified service
-      const allWines = await fetchWines(filters);
-      
-      // Get user's rated wines
-      const { data: ratedData, error: ratedError } = await supabase
-        .from('user_wine_matches')
-        .select('wine_id')
-        .eq('user_id', userId);
-
-      if (ratedError) {
-        console.error('[getUnratedWinesWithFilters] Error fetching rated wines:', ratedError);
-        // If can't get rated wines, just return all filtered wines
-        return allWines.slice(0, limit);
-      }
-
-      // Filter out rated wines
-      const ratedWineIds = new Set((ratedData || []).map(r => r.wine_id));
-      const unratedWines = allWines.filter(wine => !ratedWineIds.has(wine.id));
+      const page = await fetchUnratedWines(userId, filters, options);
       
-      console.log(`[getUnratedWinesWithFilters] Found ${unratedWines.length} unrated wines`);
-      return unratedWines.slice(0, limit);
+      console.log(`[getUnratedWinesWithFilters] Found ${page.wines.length} unrated wines`);
+      return page;
     } catch (error) {
       console.error('[getUnratedWinesWithFilters] Error:', error);
-      return [];
+      return { wines: [], nextCursor: null };
     }
   },
 
   /**
-   * Get unrated wines for user (no filters)
+   * Get one page of unrated wines for user (no filters)
    * Simplified version - just calls getUnratedWinesWithFilters with no filters
    */
-  getUnratedWines: async (userId: string, limit: number = 50): Promise<Wine[]> => {
-    return await userPreferenceService.getUnratedWinesWithFilters(userId, undefined, limit);
+  getUnratedWines: async (userId: string, options: WinePageOptions = {}): Promise<WinePage> => {
+    return await userPreferenceService.getUnratedWinesWithFilters(userId, undefined, options);
   },
 
   // User Statistiken abrufen
@@ -258,18 +142,10 @@ export const userPreferenceService = {
     likePercentage: number;
   }> => {
     try {
-      const { data, error } = await supabase
-        .from('user_wine_matches')
-        .select('id')
-        .eq('user_id', userId);
-      
-      if (error) {
-        console.error('Error fetching user stats:', error);
-        throw error;
-      }
+      const matches = await getPreferenceRepository().fetchMatches(userId);
       
       // In user_wine_matches table, every entry is a liked wine
-      const totalLiked = data?.length || 0;
+      const totalLiked = matches.length;
       
       // For totalRated, we would need additional info about dislikes
       // For now, we'll assume totalRated = totalLiked (only matches are stored)
@@ -0,0 +1,268 @@
+/**
+ * Wine Filter Query Builder
+ *
+ * Applies a DatabaseWineFilter to a query on the wines_with_core_details view.
+ * Shared by every query that reads the view so all of them use the same
+ * filter semantics. The facet counts apply the filter in the database
+ * (wine_matches_filter) - changes to the semantics go there as well.
+ */
+
+import type { PostgrestFilterBuilder } from '@supabase/postgrest-js';
+import { referenceDataService } from './referenceDataService';
+import { CATALOGUE_CURRENCY, currencyService } from './currencyService';
+import type { DatabaseWineFilter } from '../types';
+import type { Database, Json, WinesWithCoreDetailsRow } from '../types/database';
+
+/**
+ * Query on the wines_with_core_details view (table or RPC), before it is executed
+ * The rows are validated after loading (wineRowSchema.ts), so the result stays unknown
+ */
+export type WineViewQuery = PostgrestFilterBuilder<
+  { PostgrestVersion: '12' },
+  Database['public'],
+  WinesWithCoreDetailsRow,
+  unknown[]
+>;
+
+/**
+ * Grape part of a filter for the RPCs that apply it in the database
+ * (filtered_wines, unrated_wines_for_user) - the view has no grape columns.
+ * Null when the filter has no grape conditions.
+ */
+export const grapeFilterOf = (filters?: DatabaseWineFilter): Json | null => {
+  if (!filters) {
+    return null;
+  }
+
+  const { grape, grapeMatch, grapeMinShare, singleVarietal, exclude } = filters;
+  const hasGrapeFilter = (grape && grape.length > 0) || singleVarietal || (exclude?.grape && exclude.grape.length > 0);
+  if (!hasGrapeFilter) {
+    return null;
+  }
+
+  console.log('[wineFilterQuery] Applying grape filter:', grape, grapeMatch, grapeMinShare, singleVarietal, exclude?.grape);
+  return { grape, grapeMatch, grapeMinShare, singleVarietal, exclude: { grape: exclude?.grape } };
+};
+
+/**
+ * Convert unit filter values like "0.75L" to volumes (0.75)
+ */
+export const parseUnitVolumes = (units: string[]): number[] => {
+  const regex = /^(\d+\.?\d*)/;
+  return units
+    .map(unit => {
+      const match = regex.exec(unit);
+      return match ? parseFloat(match[1]) : null;
+    })
+    .filter((volume): volume is number => volume !== null);
+};
+
+/**
+ * Convert a price range into another currency, widened to whole cents so
+ * rounding never excludes a wine at the edge
+ */
+export const convertPriceRange = (
+  [fromPrice, toPrice]: [number, number],
+  fromCurrency: string = CATALOGUE_CURRENCY,
+  toCurrency: string
+): [number, number] => [
+  Math.floor(currencyService.convert(fromPrice, fromCurrency, toCurrency) * 100) / 100,
+  Math.ceil(currencyService.convert(toPrice, fromCurrency, toCurrency) * 100) / 100,
+];
+
+/**
+ * Quote values for a PostgREST list, e.g. ("Pinot Noir","Gamay")
+ */
+const toPostgrestList = (values: Array<string | number>): string =>
+  `(${values.map(value => `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`).join(',')})`;
+
+/**
+ * Hide the wines whose column has one of the values - wines without a value are kept
+ */
+const excludeValues = <Q extends WineViewQuery>(
+  query: Q,
+  column: string,
+  values: Array<string | number> | undefined
+): Q => {
+  if (!values || values.length === 0) {
+    return query;
+  }
+  return query.or(`${column}.is.null,${column}.not.in.${toPostgrestList(values)}`);
+};
+
+/**
+ * Canonical names of translated wine types / colours, unknown names dropped
+ */
+const canonicalNames = (values: string[] | undefined, toName: (value: string) => string | null): string[] =>
+  (values || []).map(toName).filter((name): name is string => name !== null);
+
+/**
+ * Filter in the values the view compares against - canonical wine type and
+ * colour names, unit volumes - for RPCs that apply it in the database
+ * (wine_matches_filter). Unknown values are dropped like in applyWineFilters.
+ */
+export const toServerWineFilter = (filters?: DatabaseWineFilter): Json => {
+  if (!filters) {
+    return {};
+  }
+
+  const { exclude, ...selected } = filters;
+  const toWineType = (name: string) => referenceDataService.getWineTypeName(name);
+  const toWineColor = (name: string) => referenceDataService.getWineColorName(name);
+
+  return {
+    ...selected,
+    wineType: selected.wineType && canonicalNames(selected.wineType, toWineType),
+    color: selected.color && canonicalNames(selected.color, toWineColor),
+    unit: selected.unit && parseUnitVolumes(selected.unit),
+    exclude: exclude && {
+      ...exclude,
+      wineType: exclude.wineType && canonicalNames(exclude.wineType, toWineType),
+      color: exclude.color && canonicalNames(exclude.color, toWineColor),
+      unit: exclude.unit && parseUnitVolumes(exclude.unit),
+    },
+  };
+};
+
+/**
+ * Apply all filters but the grape filters (grapeFilterOf) to a wine view query
+ * Synchronous on purpose: the query builder is thenable, so it must never be
+ * returned from an async function (awaiting it would execute the query)
+ */
+export const applyWineFilters = <Q extends WineViewQuery>(
+  query: Q,
+  filters?: DatabaseWineFilter
+): Q => {
+  let winesQuery = query;
+
+  if (!filters) {
+    return winesQuery;
+  }
+
+  // Country and region filter - selected countries and regions add up
+  const countries = filters.countries || [];
+  const regions = filters.regions || [];
+  if (countries.length > 0 && regions.length > 0) {
+    winesQuery = winesQuery.or(
+      `country_code.in.${toPostgrestList(countries)},region_name_default.in.${toPostgrestList(regions)}`
+    );
+  } else if (countries.length > 0) {
+    winesQuery = winesQuery.in('country_code', countries);
+  } else if (regions.length > 0) {
+    winesQuery = winesQuery.in('region_name_default', regions);
+  }
+
+  // Wine type filter - Convert translated names to canonical names
+  if (filters.wineType && filters.wineType.length > 0) {
+    const wineTypeNames = filters.wineType
+      .map((name: string) => referenceDataService.getWineTypeName(name))
+      .filter((n): n is string => n !== null);
+
+    if (wineTypeNames.length > 0) {
+      winesQuery = winesQuery.in('wine_type', wineTypeNames);
+    }
+  }
+
+  // Wine color filter - Convert translated names to canonical names
+  if (filters.color && filters.color.length > 0) {
+    const colorNames = filters.color
+      .map((name: string) => referenceDataService.getWineColorName(name))
+      .filter((n): n is string => n !== null);
+
+    if (colorNames.length > 0) {
+      winesQuery = winesQuery.in('wine_color', colorNames);
+    }
+  }
+
+  // Sweetness filter
+  if (filters.sweetness && filters.sweetness.length > 0) {
+    winesQuery = winesQuery.in('sweetness_level', filters.sweetness);
+  }
+
+  // Sensory profile filters - unassessed wines (null) never match
+  if (filters.body && filters.body.length > 0) {
+    winesQuery = winesQuery.in('body', filters.body);
+  }
+  if (filters.acidity && filters.acidity.length > 0) {
+    winesQuery = winesQuery.in('acidity', filters.acidity);
+  }
+  if (filters.tannin && filters.tannin.length > 0) {
+    winesQuery = winesQuery.in('tannin', filters.tannin);
+  }
+
+  // Alcohol filter
+  if (filters.alcohol && filters.alcohol.length > 0) {
+    winesQuery = winesQuery.in('alcohol_level', filters.alcohol);
+  }
+
+  // Production type (vinification method) filter
+  if (filters.productionType && filters.productionType.length > 0) {
+    winesQuery = winesQuery.in('vinification_method', filters.productionType);
+  }
+
+  // Vintage filter - wines without a year are non-vintage
+  const includeNonVintage = filters.includeNonVintage !== false;
+  if (filters.vintageRange) {
+    const [fromYear, toYear] = filters.vintageRange;
+    winesQuery = includeNonVintage
+      ? winesQuery.or(`and(year.gte.${fromYear},year.lte.${toYear}),year.is.null`)
+      : winesQuery.gte('year', fromYear).lte('year', toYear);
+  } else if (!includeNonVintage) {
+    winesQuery = winesQuery.not('year', 'is', null);
+  }
+
+  // Numeric price filter - the bounds are converted into every currency the
+  // catalogue is priced in. price_max >= price_min, so the last condition only
+  // matters for wines without a price_max
+  if (filters.priceRange) {
+    const priceClauses = currencyService.getKnownCurrencies().map(currency => {
+      const [fromPrice, toPrice] = convertPriceRange(filters.priceRange!, filters.priceCurrency, currency);
+      return `and(price_currency.eq.${currency},price_min.lte.${toPrice},` +
+        `or(price_max.gte.${fromPrice},price_min.gte.${fromPrice}))`;
+    });
+    winesQuery = winesQuery.or(priceClauses.join(','));
+  }
+
+  // Price filter
+  if (filters.price && filters.price.length > 0) {
+    winesQuery = winesQuery.in('price_range', filters.price);
+  }
+
+  // Unit filter
+  if (filters.unit && filters.unit.length > 0) {
+    const unitVolumes = parseUnitVolumes(filters.unit);
+
+    if (unitVolumes.length > 0) {
+      winesQuery = winesQuery.in('unit_volume', unitVolumes);
+    }
+  }
+
+  // Producer filter
+  if (filters.producer && filters.producer.length > 0) {
+    winesQuery = winesQuery.in('producer_id', filters.producer);
+  }
+
+  // Exclusions - one condition per category, PostgREST ANDs them
+  const exclude = filters.exclude;
+  if (exclude) {
+    winesQuery = excludeValues(winesQuery, 'country_code', exclude.countries);
+    winesQuery = excludeValues(winesQuery, 'region_name_default', exclude.regions);
+    winesQuery = excludeValues(winesQuery, 'producer_id', exclude.producer);
+    winesQuery = excludeValues(
+      winesQuery, 'wine_type', canonicalNames(exclude.wineType, name => referenceDataService.getWineTypeName(name))
+    );
+    winesQuery = excludeValues(
+      winesQuery, 'wine_color', canonicalNames(exclude.color, name => referenceDataService.getWineColorName(name))
+    );
+    winesQuery = excludeValues(winesQuery, 'sweetness_level', exclude.sweetness);
+    winesQuery = excludeValues(winesQuery, 'body', exclude.body);
+    winesQuery = excludeValues(winesQuery, 'acidity', exclude.acidity);
+    winesQuery = excludeValues(winesQuery, 'tannin', exclude.tannin);
+    winesQuery = excludeValues(winesQuery, 'alcohol_level', exclude.alcohol);
+    winesQuery = excludeValues(winesQuery, 'vinification_method', exclude.productionType);
+    winesQuery = excludeValues(winesQuery, 'price_range', exclude.price);
+    winesQuery = excludeValues(winesQuery, 'unit_volume', exclude.unit && parseUnitVolumes(exclude.unit));
+  }
+
+  return winesQuery;
+};
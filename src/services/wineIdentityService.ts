@@ -0,0 +1,70 @@
+import { getWineRepository, WineIdentity } from './repositories';
+import { logger } from '../utils/logger';
+
+/**
+ * Wine Identity Service
+ * Maps a wine's reference_id (used throughout the app as Wine.id, e.g. in
+ * links) to its database UUID (used by user_wine_matches and other tables)
+ *
+ * Mappings are cached for the lifetime of the app session. Wines without a
+ * reference_id are identified by their UUID.
+ */
+
+class WineIdentityService {
+  private readonly uuidByReferenceId = new Map<string, string>();
+
+  /**
+   * Cache the identities of rows that were loaded anyway (e.g. from the wine view)
+   */
+  remember(rows: WineIdentity[]): void {
+    rows.forEach(row => {
+      if (!row.id) return;
+      this.uuidByReferenceId.set(row.reference_id || row.id, row.id);
+    });
+  }
+
+  /**
+   * Resolve reference IDs to UUIDs
+   * Unknown IDs are loaded with a single query, IDs without a wine are missing from the result
+   */
+  async resolveUuids(referenceIds: string[]): Promise<Record<string, string>> {
+    const missing = [...new Set(referenceIds)].filter(id => !this.uuidByReferenceId.has(id));
+
+    if (missing.length > 0) {
+      logger.wines.debug(`Resolving ${missing.length} wine UUIDs`);
+
+      try {
+        this.remember(await getWineRepository().fetchWineIdentities(missing));
+      } catch (error) {
+        logger.wines.error('Error resolving wine UUIDs:', error);
+        throw error;
+      }
+    }
+
+    return referenceIds.reduce<Record<string, string>>((acc, id) => {
+      const uuid = this.uuidByReferenceId.get(id);
+      if (uuid) {
+        acc[id] = uuid;
+      }
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Resolve a single reference ID, returns null if no wine has this ID
+   */
+  async resolveUuid(referenceId: string): Promise<string | null> {
+    const resolved = await this.resolveUuids([referenceId]);
+    return resolved[referenceId] ?? null;
+  }
+
+  /**
+   * Forget all cached identities
+   */
+  clear(): void {
+    this.uuidByReferenceId.clear();
+  }
+}
+
+// Export singleton instance
+export const wineIdentityService = new WineIdentityService();
@@ -0,0 +1,156 @@
+/**
+ * Wine Mapper
+ *
+ * Transforms rows of the wines_with_core_details view into the app's Wine interface.
+ * Rows are validated before mapping (see wineRowSchema.ts).
+ * Tags come from the view's embedded reference columns (NOT wine_tag_translations table).
+ */
+
+import type { StructureLevel, Wine, WineBody, WineGrape, WineTag } from '../types';
+import type { WinesWithCoreDetailsRow } from '../types/database';
+import { i18n } from '../utils/i18n';
+import { localizedOrDefault, resolveLocalized } from '../utils/languageFallback';
+import { currencyService } from './currencyService';
+
+export const SUPPORTED_LANGUAGES = ['de', 'en', 'fr', 'it'] as const;
+export type SupportedLanguage = (typeof SUPPORTED_LANGUAGES)[number];
+const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+
+/**
+ * Normalize language code to supported language
+ * Without a language code the active app language is used
+ */
+export const normalizeLanguageCode = (languageCode?: string | null): SupportedLanguage => {
+  const lowerCased = (languageCode || i18n.getCurrentLanguage()).toLowerCase();
+  const baseCode = lowerCased.split('-')[0];
+
+  return (SUPPORTED_LANGUAGES as readonly string[]).includes(baseCode)
+    ? (baseCode as SupportedLanguage)
+    : DEFAULT_LANGUAGE;
+};
+
+export const BODY_LEVELS: readonly WineBody[] = ['light', 'medium', 'full'];
+export const STRUCTURE_LEVELS: readonly StructureLevel[] = ['low', 'medium-minus', 'medium', 'medium-plus', 'high'];
+
+// Values outside the known levels are treated as not assessed
+const levelOrNull = <T extends string>(levels: readonly T[], value: string | null): T | null =>
+  value !== null && (levels as readonly string[]).includes(value) ? (value as T) : null;
+
+/**
+ * Order a blend by share, largest first - grapes without a known share last, by name
+ */
+export const sortBlend = (grapes: WineGrape[]): WineGrape[] =>
+  [...grapes].sort((a, b) =>
+    (b.percentage ?? -1) - (a.percentage ?? -1) || a.name.localeCompare(b.name)
+  );
+
+/**
+ * Transform a view row into the Wine interface
+ * Values the row doesn't have stay empty (null or ''), nothing is made up
+ */
+export const mapWineRow = (wine: WinesWithCoreDetailsRow, grapes: WineGrape[], activeLanguage: SupportedLanguage): Wine => {
+  const blend = sortBlend(grapes);
+
+  // Translated names follow the language fallback chain
+  const regionName = localizedOrDefault(
+    wine.region_names_by_language, activeLanguage, wine.region_name_default || ''
+  );
+  const countryName = localizedOrDefault(
+    wine.country_names_by_language, activeLanguage, wine.country_name_default || wine.country_code || ''
+  );
+  const description = resolveLocalized(wine.descriptions_by_language, activeLanguage);
+
+  return {
+    id: wine.reference_id || wine.id,
+    reference_id: wine.reference_id || null,
+    uuid: wine.id,
+    name: wine.default_name,
+    vintage: wine.year || null,
+    price: wine.price_min || null,
+    price_currency: wine.price_currency,
+    region: regionName,
+    country: countryName,
+    grape_variety: blend.map(grape => grape.name).join(', '),
+    grapes: blend,
+    description: description?.value ?? '',
+    description_language: description?.language,
+    description_is_fallback: description?.isFallback ?? false,
+    image: wine.image_path || '',
+    image_url: wine.image_path || '',
+    // Colour and sweetness were checked against the known values by validateWineRows
+    wine_type: wine.wine_color as Wine['wine_type'],
+    body: levelOrNull(BODY_LEVELS, wine.body),
+    sweetness: wine.sweetness_level as Wine['sweetness'],
+    acidity: levelOrNull(STRUCTURE_LEVELS, wine.acidity),
+    tannin: levelOrNull(STRUCTURE_LEVELS, wine.tannin),
+    alcohol_content: wine.alcohol_min,
+    tags: buildWineTags(wine, activeLanguage),
+    tagTranslations: [],
+  };
+};
+
+/**
+ * Build wine tags from the view's embedded reference data
+ * Tags are already in the view - we just need to extract and format them
+ */
+const buildWineTags = (wine: WinesWithCoreDetailsRow, activeLanguage: SupportedLanguage): WineTag[] => {
+  const tags: WineTag[] = [];
+
+  // Wine Type
+  if (wine.wine_type) {
+    const value = localizedOrDefault(wine.wine_type_translations, activeLanguage, wine.wine_type);
+    tags.push({ type: 'wineType', value });
+  }
+
+  // Wine Color
+  if (wine.wine_color) {
+    const value = localizedOrDefault(wine.wine_color_translations, activeLanguage, wine.wine_color);
+    tags.push({ type: 'color', value });
+  }
+
+  // Sweetness
+  if (wine.sweetness_level) {
+    const value = localizedOrDefault(wine.sweetness_level_translations, activeLanguage, wine.sweetness_level);
+    tags.push({ type: 'sweetness', value });
+  }
+
+  // Alcohol
+  if (wine.alcohol_level) {
+    let value = localizedOrDefault(wine.alcohol_level_translations, activeLanguage, wine.alcohol_level);
+
+    // Add actual alcohol range if available
+    if (wine.alcohol_min && wine.alcohol_max) {
+      value = `${wine.alcohol_min}-${wine.alcohol_max}%`;
+    } else if (wine.alcohol_min) {
+      value = `${wine.alcohol_min}%`;
+    }
+
+    tags.push({ type: 'alcohol', value });
+  }
+
+  // Production Type (Vinification Method)
+  if (wine.vinification_method) {
+    const value = localizedOrDefault(wine.vinification_method_translations, activeLanguage, wine.vinification_method);
+    tags.push({ type: 'productionType', value });
+  }
+
+  // Price Range
+  if (wine.price_range) {
+    const label = localizedOrDefault(wine.price_range_translations, activeLanguage, wine.price_range);
+
+    // Add actual price range if available, in the display currency
+    if (wine.price_min) {
+      const price = { min: wine.price_min, max: wine.price_max, currency: wine.price_currency };
+      tags.push({ type: 'price', value: currencyService.formatPriceRange(price.min, price.max, price.currency), price });
+    } else {
+      tags.push({ type: 'price', value: label });
+    }
+  }
+
+  // Unit Volume
+  if (wine.unit_volume) {
+    tags.push({ type: 'unit', value: `${wine.unit_volume}L` });
+  }
+
+  return tags;
+};
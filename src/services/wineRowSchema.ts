@@ -0,0 +1,158 @@
+/**
+ * Wine Row Schema
+ *
+ * Runtime check of rows from the wines_with_core_details view (and the RPCs that
+ * return its rows) against the typed row in src/types/database.ts. Rows that do
+ * not match are dropped and summarized in a drift report, so a renamed or
+ * missing column - or a colour the app does not know - shows up in the logs instead
+ * of as placeholder data on a card.
+ */
+
+import type { Wine } from '../types';
+import type { WinesWithCoreDetailsRow } from '../types/database';
+import { logger } from '../utils/logger';
+
+type ColumnKind = 'string' | 'number' | 'translations';
+
+interface ColumnSpec {
+  kind: ColumnKind;
+  nullable: boolean;
+  values?: readonly string[];  // The only values the app can show, checked for string columns
+}
+
+const column = (kind: ColumnKind, nullable = true, values?: readonly string[]): ColumnSpec =>
+  ({ kind, nullable, values });
+
+export const WINE_COLORS: readonly Wine['wine_type'][] = ['red', 'white', 'rosé', 'sparkling', 'dessert'];
+export const SWEETNESS_LEVELS: readonly NonNullable<Wine['sweetness']>[] = [
+  'dry', 'off-dry', 'medium-dry', 'medium-sweet', 'sweet',
+];
+
+/**
+ * Expected type of every view column - keyed by the row type so both stay in sync
+ */
+const WINE_ROW_SCHEMA: Record<keyof WinesWithCoreDetailsRow, ColumnSpec> = {
+  id: column('string', false),
+  reference_id: column('string'),
+  default_name: column('string', false),
+  year: column('number'),
+  image_path: column('string'),
+  region_id: column('string'),
+  region_name_default: column('string'),
+  country_code: column('string'),
+  country_name_default: column('string'),
+  producer_id: column('string'),
+  descriptions_by_language: column('translations'),
+  region_names_by_language: column('translations'),
+  country_names_by_language: column('translations'),
+  wine_type: column('string'),
+  wine_type_translations: column('translations'),
+  wine_color: column('string', false, WINE_COLORS),
+  wine_color_translations: column('translations'),
+  sweetness_level: column('string', true, SWEETNESS_LEVELS),
+  sweetness_level_translations: column('translations'),
+  alcohol_level: column('string'),
+  alcohol_min: column('number'),
+  alcohol_max: column('number'),
+  alcohol_level_translations: column('translations'),
+  vinification_method: column('string'),
+  vinification_category: column('string'),
+  vinification_method_translations: column('translations'),
+  price_range: column('string'),
+  price_min: column('number'),
+  price_max: column('number'),
+  price_currency: column('string', false),
+  body: column('string'),
+  acidity: column('string'),
+  tannin: column('string'),
+  price_eur: column('number'),
+  added_at: column('string', false),
+  like_count: column('number', false),
+  shuffle_key: column('string'),
+  price_range_translations: column('translations'),
+  unit_volume: column('number'),
+};
+
+/**
+ * Columns selected from the wines_with_core_details view
+ */
+export const WINE_VIEW_COLUMNS = Object.keys(WINE_ROW_SCHEMA).join(', ');
+
+type ColumnIssue = 'missing' | 'wrongType' | 'unknownValue';
+
+export interface WineRowDriftReport {
+  source: string;
+  totalRows: number;
+  invalidRows: number;
+  columns: Record<string, Record<ColumnIssue, number>>;  // Affected rows per column
+}
+
+const matchesKind = (value: unknown, kind: ColumnKind): boolean => {
+  switch (kind) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && !Number.isNaN(value);
+    case 'translations':
+      return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+        Object.values(value).every(v => v === null || typeof v === 'string');
+  }
+};
+
+/**
+ * Check a single row, returns the issue per column (empty if the row is valid)
+ */
+const checkRow = (row: unknown): Partial<Record<string, ColumnIssue>> => {
+  const issues: Partial<Record<string, ColumnIssue>> = {};
+  const record = (typeof row === 'object' && row !== null ? row : {}) as Record<string, unknown>;
+
+  Object.entries(WINE_ROW_SCHEMA).forEach(([name, spec]) => {
+    const value = record[name];
+    if (value === undefined) {
+      issues[name] = 'missing';
+    } else if (value === null ? !spec.nullable : !matchesKind(value, spec.kind)) {
+      issues[name] = 'wrongType';
+    } else if (value !== null && spec.values && !spec.values.includes(value as string)) {
+      issues[name] = 'unknownValue';
+    }
+  });
+
+  return issues;
+};
+
+/**
+ * Validate view rows, log a drift report for the rows that don't match the schema
+ * Only valid rows are returned; report is null when all rows are valid
+ */
+export const validateWineRows = (
+  rows: unknown[],
+  source: string
+): { rows: WinesWithCoreDetailsRow[]; report: WineRowDriftReport | null } => {
+  const validRows: WinesWithCoreDetailsRow[] = [];
+  const report: WineRowDriftReport = { source, totalRows: rows.length, invalidRows: 0, columns: {} };
+
+  rows.forEach(row => {
+    const issues = Object.entries(checkRow(row));
+    if (issues.length === 0) {
+      validRows.push(row as WinesWithCoreDetailsRow);
+      return;
+    }
+
+    report.invalidRows++;
+    issues.forEach(([name, issue]) => {
+      report.columns[name] = report.columns[name] || { missing: 0, wrongType: 0, unknownValue: 0 };
+      report.columns[name][issue as ColumnIssue]++;
+    });
+  });
+
+  if (report.invalidRows === 0) {
+    return { rows: validRows, report: null };
+  }
+
+  logger.wines.warn(
+    `Schema drift in ${source}: ${report.invalidRows} of ${report.totalRows} rows dropped`,
+    report.columns
+  );
+
+  return { rows: validRows, report };
+};
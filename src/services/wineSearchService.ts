@@ -0,0 +1,57 @@
+/**
+ * Wine Search Service
+ *
+ * Full-text search over wine name, producer, region names and the localized
+ * description (search_wines RPC for Supabase, see supabase/migrations). Matching is
+ * accent-insensitive and ranked in the database; results are paged by offset
+ * because the ranking has no stable cursor column.
+ */
+
+import { getWineRepository } from './repositories';
+import { normalizeLanguageCode } from './wineMapper';
+import { transformWines } from './wineQueries';
+import type { WineSearchPage } from '../types';
+
+// Number of search results loaded per page
+export const SEARCH_PAGE_SIZE = 20;
+
+// Shorter queries match too much of the catalogue to be useful
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+
+export interface WineSearchOptions {
+  offset?: number;
+  pageSize?: number;
+  languageCode?: string | null;
+}
+
+const EMPTY_RESULT: WineSearchPage = { wines: [], nextOffset: null };
+
+/**
+ * Search wines and load one page of results, best match first
+ * Fetches one row more than requested to know whether another page exists
+ */
+export const searchWines = async (
+  query: string,
+  options: WineSearchOptions = {}
+): Promise<WineSearchPage> => {
+  const searchTerm = query.trim();
+  if (searchTerm.length < MIN_SEARCH_QUERY_LENGTH) {
+    return EMPTY_RESULT;
+  }
+
+  const offset = options.offset ?? 0;
+  const pageSize = options.pageSize ?? SEARCH_PAGE_SIZE;
+  const activeLanguage = normalizeLanguageCode(options.languageCode);
+
+  console.log('[searchWines] Searching for:', searchTerm, 'offset:', offset);
+
+  const rows = await getWineRepository().searchWineRows(searchTerm, activeLanguage, pageSize + 1, offset);
+
+  const hasMore = rows.length > pageSize;
+  const pageRows = hasMore ? rows.slice(0, pageSize) : rows;
+
+  console.log('[searchWines] Found', pageRows.length, 'wines, more available:', hasMore);
+
+  const wines = await transformWines(pageRows, activeLanguage, 'search_wines');
+  return { wines, nextOffset: hasMore ? offset + pageSize : null };
+};
@@ -0,0 +1,318 @@
+/**
+ * Supabase Database Definition
+ *
+ * Typed schema of the tables, views and functions the app reads, passed to
+ * createClient in src/lib/supabase.ts. Keep in sync with supabase/migrations
+ * and the production schema - rows of wines_with_core_details are additionally
+ * checked at runtime (see src/services/wineRowSchema.ts).
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+// Translations keyed by language code, e.g. { de: 'Rot', en: 'Red' }
+export type TranslationMap = Record<string, string | null>;
+
+// Row of a *_translations reference table
+type TranslationTable<ForeignKey extends string, Label extends string> = {
+  Row: { [K in ForeignKey]: string } & { language_code: string } & { [K in Label]: string };
+  Insert: { [K in ForeignKey]: string } & { language_code: string } & { [K in Label]: string };
+  Update: Partial<{ [K in ForeignKey]: string } & { language_code: string } & { [K in Label]: string }>;
+  Relationships: [];
+};
+
+// Canonical reference table (wine_colors, wine_types, ...)
+type ReferenceTable = {
+  Row: { id: string; name: string };
+  Insert: { id?: string; name: string };
+  Update: { id?: string; name?: string };
+  Relationships: [];
+};
+
+export type WinesWithCoreDetailsRow = {
+  id: string;
+  reference_id: string | null;
+  default_name: string;
+  year: number | null;
+  image_path: string | null;
+  region_id: string | null;
+  region_name_default: string | null;
+  country_code: string | null;
+  country_name_default: string | null;
+  producer_id: string | null;
+  descriptions_by_language: TranslationMap | null;
+  region_names_by_language: TranslationMap | null;
+  country_names_by_language: TranslationMap | null;
+  wine_type: string | null;
+  wine_type_translations: TranslationMap | null;
+  wine_color: string;
+  wine_color_translations: TranslationMap | null;
+  sweetness_level: string | null;
+  sweetness_level_translations: TranslationMap | null;
+  alcohol_level: string | null;
+  alcohol_min: number | null;
+  alcohol_max: number | null;
+  alcohol_level_translations: TranslationMap | null;
+  vinification_method: string | null;
+  vinification_category: string | null;
+  vinification_method_translations: TranslationMap | null;
+  price_range: string | null;
+  price_min: number | null;
+  price_max: number | null;
+  price_currency: string;        // ISO 4217 code of price_min / price_max
+  body: string | null;           // light / medium / full, null when not assessed
+  acidity: string | null;        // low ... high, null when not assessed
+  tannin: string | null;         // low ... high, null when not assessed
+  price_eur: number | null;      // price_min in euro, the price sort key
+  added_at: string;              // When the wine was added to the catalogue
+  like_count: number;            // Users who liked the wine
+  shuffle_key: string | null;    // Only set by the functions taking a seed
+  price_range_translations: TranslationMap | null;
+  unit_volume: number | null;
+};
+
+export type Database = {
+  public: {
+    Tables: {
+      wines: {
+        Row: {
+          id: string;
+          reference_id: string | null;
+          default_name: string;
+          year: number | null;
+          region_id: string | null;
+          producer_id: string | null;
+          price_currency: string;
+          created_at: string;
+          updated_at: string;
+          body: string | null;
+          acidity: string | null;
+          tannin: string | null;
+        };
+        Insert: {
+          id?: string;
+          reference_id?: string | null;
+          default_name: string;
+          year?: number | null;
+          region_id?: string | null;
+          producer_id?: string | null;
+          price_currency?: string;
+          body?: string | null;
+          acidity?: string | null;
+          tannin?: string | null;
+        };
+        Update: {
+          reference_id?: string | null;
+          default_name?: string;
+          year?: number | null;
+          region_id?: string | null;
+          producer_id?: string | null;
+          price_currency?: string;
+          body?: string | null;
+          acidity?: string | null;
+          tannin?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'wines_region_id_fkey';
+            columns: ['region_id'];
+            isOneToOne: false;
+            referencedRelation: 'regions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'wines_producer_id_fkey';
+            columns: ['producer_id'];
+            isOneToOne: false;
+            referencedRelation: 'producers';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      regions: {
+        Row: {
+          id: string;
+          name: string;
+          country_code: string | null;
+          parent_id: string | null;
+          names_by_language: TranslationMap | null;
+        };
+        Insert: {
+          id?: string;
+          name: string;
+          country_code?: string | null;
+          parent_id?: string | null;
+          names_by_language?: TranslationMap | null;
+        };
+        Update: {
+          name?: string;
+          country_code?: string | null;
+          parent_id?: string | null;
+          names_by_language?: TranslationMap | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'regions_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'regions';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      producers: {
+        Row: { id: string; name: string };
+        Insert: { id?: string; name: string };
+        Update: { name?: string };
+        Relationships: [];
+      };
+      grapes: {
+        Row: { id: string; name: string };
+        Insert: { id?: string; name: string };
+        Update: { name?: string };
+        Relationships: [];
+      };
+      wine_grapes: {
+        Row: {
+          id: string;
+          wine_id: string;
+          grape_id: string;
+          percentage: number | null;
+          created_at: string;
+        };
+        Insert: { id?: string; wine_id: string; grape_id: string; percentage?: number | null };
+        Update: { percentage?: number | null };
+        Relationships: [
+          {
+            foreignKeyName: 'wine_grapes_grape_id_fkey';
+            columns: ['grape_id'];
+            isOneToOne: false;
+            referencedRelation: 'grapes';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'wine_grapes_wine_id_fkey';
+            columns: ['wine_id'];
+            isOneToOne: false;
+            referencedRelation: 'wines';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_wine_matches: {
+        Row: { id: string; user_id: string; wine_id: string; created_at: string };
+        Insert: { id?: string; user_id: string; wine_id: string; created_at?: string };
+        Update: { created_at?: string };
+        Relationships: [];
+      };
+      filter_presets: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          filter: Json;
+          filter_version: number;
+          position: number;
+          is_default: boolean;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          filter: Json;
+          filter_version: number;
+          position?: number;
+          is_default?: boolean;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          filter?: Json;
+          filter_version?: number;
+          position?: number;
+          is_default?: boolean;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      user_settings: {
+        Row: { user_id: string; language: string | null; updated_at: string };
+        Insert: { user_id: string; language?: string | null; updated_at?: string };
+        Update: { language?: string | null; updated_at?: string };
+        Relationships: [];
+      };
+      wine_tombstones: {
+        Row: { wine_id: string; deleted_at: string };
+        Insert: { wine_id: string; deleted_at?: string };
+        Update: { deleted_at?: string };
+        Relationships: [];
+      };
+      exchange_rates: {
+        Row: { currency_code: string; rate_per_eur: number; updated_at: string };
+        Insert: { currency_code: string; rate_per_eur: number; updated_at?: string };
+        Update: { rate_per_eur?: number; updated_at?: string };
+        Relationships: [];
+      };
+      units: {
+        Row: { id: string; volume: number };
+        Insert: { id?: string; volume: number };
+        Update: { volume?: number };
+        Relationships: [];
+      };
+      wine_colors: ReferenceTable;
+      wine_types: ReferenceTable;
+      wine_colors_translations: TranslationTable<'wine_color_id', 'translated_name'>;
+      wine_types_translations: TranslationTable<'wine_type_id', 'translated_name'>;
+      vinification_methods_translations: TranslationTable<'vinification_method_id', 'translated_name'>;
+      sweetness_levels_translations: TranslationTable<'sweetness_level_id', 'translated_name'>;
+      alcohol_levels_translations: TranslationTable<'alcohol_level_id', 'translated_label'>;
+      price_ranges_translations: TranslationTable<'price_range_id', 'translated_label'>;
+      country_translations: {
+        Row: { country_code: string; language_code: string; name: string };
+        Insert: { country_code: string; language_code: string; name: string };
+        Update: { name?: string };
+        Relationships: [];
+      };
+    };
+    Views: {
+      wines_with_core_details: {
+        Row: WinesWithCoreDetailsRow;
+        Relationships: [];
+      };
+      wine_grape_shares: {
+        Row: { wine_id: string; grape_name: string; percentage: number | null; grape_count: number };
+        Relationships: [];
+      };
+      wine_like_counts: {
+        Row: { wine_id: string; like_count: number };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      unrated_wines_for_user: {
+        Args: { p_user_id: string; p_seed?: string | null; p_filter?: Json | null };
+        Returns: WinesWithCoreDetailsRow[];
+      };
+      filtered_wines: {
+        Args: { p_filter?: Json | null; p_seed?: string | null };
+        Returns: WinesWithCoreDetailsRow[];
+      };
+      search_wines: {
+        Args: { p_query: string; p_language?: string; p_limit?: number; p_offset?: number };
+        Returns: WinesWithCoreDetailsRow[];
+      };
+      wine_facet_counts: {
+        Args: { p_filter: Json; p_facets: string[]; p_user_id?: string | null };
+        Returns: Array<{ facet: string; value: string; wine_count: number }>;
+      };
+      wine_price_histogram: {
+        Args: { p_bucket_count?: number; p_currency?: string };
+        Returns: Array<{ min_price: number; max_price: number; counts: number[] }>;
+      };
+    };
+    Enums: {};
+    CompositeTypes: {};
+  };
+};
@@ -2,6 +2,14 @@
 export interface WineTag {
   type: string;
   value: string;
+  price?: WinePrice;  // Price tags - formatted in the display currency when shown
+}
+
+// Price span of a wine in its own currency
+export interface WinePrice {
+  min: number;
+  max: number | null;
+  currency: string;
 }
 
 export interface TagTranslation {
@@ -14,23 +22,40 @@ export interface TagTranslation {
   };
 }
 
+// Grape of a wine's blend
+export interface WineGrape {
+  name: string;
+  percentage: number | null;  // Share in the blend, null if unknown
+}
+
+// Sensory profile levels, null on a wine when not assessed
+export type WineBody = 'light' | 'medium' | 'full';
+export type StructureLevel = 'low' | 'medium-minus' | 'medium' | 'medium-plus' | 'high';
+
 // Wine Types - Übertragen von Ihrer Web-App mit proper tag support
 export interface Wine {
-  id: string;
+  id: string;                   // App-wide wine ID: reference_id, or the UUID for wines without one
+  reference_id: string | null;  // Catalogue reference ID
+  uuid: string;                 // Database primary key (e.g. user_wine_matches.wine_id)
   name: string;
   vintage: number | null;
   price: number | null;
-  region: string;
-  grape_variety: string;
+  price_currency: string;       // Currency of price (ISO 4217)
+  region: string;               // Empty when the wine has no region
+  country?: string;
+  grape_variety: string;        // Grapes of the blend, empty when unknown
+  grapes: WineGrape[];          // Blend, largest share first
   description?: string;
+  description_language?: string;      // Language the description is written in
+  description_is_fallback?: boolean;  // Description is not in the active language
   image?: string;
   image_url?: string; // Alternative field name for image URL
   wine_type: 'red' | 'white' | 'rosé' | 'sparkling' | 'dessert';
-  body: 'light' | 'medium' | 'full';
-  sweetness: 'dry' | 'off-dry' | 'medium-dry' | 'medium-sweet' | 'sweet';
-  acidity: 'low' | 'medium-minus' | 'medium' | 'medium-plus' | 'high';
-  tannin?: 'low' | 'medium-minus' | 'medium' | 'medium-plus' | 'high';
-  alcohol_content: number;
+  body: WineBody | null;
+  sweetness: 'dry' | 'off-dry' | 'medium-dry' | 'medium-sweet' | 'sweet' | null;
+  acidity: StructureLevel | null;
+  tannin: StructureLevel | null;
+  alcohol_content: number | null;
   wine_tags?: string[]; // Legacy simple tags (for backward compatibility)
   tags?: WineTag[]; // Rich wine tags from database
   tagTranslations?: TagTranslation[]; // Multilingual tag translations
@@ -38,6 +63,18 @@ export interface Wine {
   updated_at?: string;
 }
 
+// One page of a cursor-paginated wine query
+export interface WinePage {
+  wines: Wine[];
+  nextCursor: string | null;  // Pass to the next request; null on the last page
+}
+
+// One page of full-text search results
+export interface WineSearchPage {
+  wines: Wine[];               // Ordered by relevance
+  nextOffset: number | null;   // Offset of the next page; null on the last page
+}
+
 // Supplier information for wine matches
 export interface WineSupplier {
   id: string;
@@ -57,6 +94,17 @@ export interface WineMatch extends Wine {
   user_rating?: number;
 }
 
+// Option filter categories - each value can be included or excluded
+export type OptionFilterCategory =
+  | 'grape' | 'country' | 'region' | 'producer' | 'wineType' | 'color' | 'sweetness'
+  | 'body' | 'acidity' | 'tannin' | 'productionType' | 'unit' | 'alcohol' | 'price';
+
+// Whether a wine needs one ('any') or every ('all') selected grape
+export type GrapeMatchMode = 'any' | 'all';
+
+// Order of the swipe deck
+export type DeckOrder = 'random' | 'price-asc' | 'price-desc' | 'vintage-desc' | 'newest' | 'popular';
+
 export interface WineFilter {
   // Core filters
   grape: string[];
@@ -67,22 +115,37 @@ export interface WineFilter {
   color: string[];
   sweetness: string[];  // Sweetness level filter
   
+  // Sensory profile - wines that were not assessed don't match a selection
+  body: string[];
+  acidity: string[];
+  tannin: string[];
+
   // Production characteristics
   productionType: string[];
   
+  // Excluded values per category - wines with one of them are hidden
+  excluded: Partial<Record<OptionFilterCategory, string[]>>;
+
+  // Blend - grapeMinShare applies to the selected grapes
+  grapeMatch: GrapeMatchMode;
+  grapeMinShare: number | null;  // Minimum share in percent
+  singleVarietal: boolean;
+
+  // Vintage - null matches every vintage
+  vintageRange: [number, number] | null;
+  includeNonVintage: boolean;    // Also show non-vintage (N.V.) wines
+
+  // Price - null matches every price
+  priceRange: [number, number] | null;
+  priceCurrency: string;         // Currency of priceRange (ISO 4217)
+
+  // Deck order - saved with the filter, not a filter itself
+  order: DeckOrder;
+
   // Technical details
   unit: string[];
   alcohol: string[];
   price: string[];  // Price range filter
-  
-  // Legacy compatibility (keeping for backward compatibility)
-  wineTypes: string[];
-  maxPrice: number;
-  minPrice: number;
-  regions: string[];
-  grapeVarieties: string[];
-  vintageRange: [number, number];
-  alcoholRange: [number, number];
 }
 
 // Database-level filter interface for efficient querying
@@ -90,16 +153,42 @@ export interface WineFilter {
 // Matches the Web App's DatabaseWineFilter interface
 export interface DatabaseWineFilter {
   countries?: string[];           // Filter by country_code
-  regions?: string[];            // Filter by region names
+  regions?: string[];            // Filter by region names - with countries, a wine needs either
   grape?: string[];              // Filter by grape varieties (wine_grapes table)
+  grapeMatch?: GrapeMatchMode;   // Wines need any (default) or all of the grapes
+  grapeMinShare?: number;        // A selected grape makes up at least this many percent
+  singleVarietal?: boolean;      // Only wines made from a single grape
+  vintageRange?: [number, number];  // Filter by year, inclusive
+  includeNonVintage?: boolean;   // Wines without a year match too (default: true)
+  priceRange?: [number, number]; // Wines whose price_min..price_max overlaps this range
+  priceCurrency?: string;        // Currency of priceRange, converted to each wine's currency (default: CHF)
   producer?: string[];           // Filter by producer_id (producers table)
   wineType?: string[];           // Filter by wine_type_id (wine_types table)
   color?: string[];              // Filter by wine_color_id (wine_colors table)
   sweetness?: string[];          // Filter by sweetness_level_id (sweetness_levels table)
+  body?: string[];               // Filter by body (light / medium / full)
+  acidity?: string[];            // Filter by acidity level
+  tannin?: string[];             // Filter by tannin level
   alcohol?: string[];            // Filter by alcohol_level_id (alcohol_levels table)
   unit?: string[];               // Filter by unit_id (units table)
   price?: string[];              // Filter by price_range_id (price_ranges table)
   productionType?: string[];     // Filter by vinification_method_id (vinification_methods table)
+  exclude?: DatabaseWineExclusions;  // Hide wines with one of these values - wines without a value stay
+}
+
+// Option filters of a DatabaseWineFilter that can also exclude
+export type DatabaseWineExclusions = Pick<
+  DatabaseWineFilter,
+  | 'countries' | 'regions' | 'grape' | 'producer' | 'wineType' | 'color' | 'sweetness'
+  | 'body' | 'acidity' | 'tannin' | 'alcohol' | 'unit' | 'price' | 'productionType'
+>;
+
+// Named filter the user saved - shown as a chip in the filter sheet
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: WineFilter;
+  isDefault: boolean;  // Applied on launch
 }
 
 // User Types
@@ -0,0 +1,221 @@
+import { OptionFilterCategory, WineFilter } from '../types';
+import { DECK_ORDERS } from '../services/deckOrder';
+import { createDefaultFilter } from './filterUtils';
+import { isGrapeMinShare, migrateFilter, WINE_FILTER_VERSION } from './filterSchema';
+import { logger } from './logger';
+
+/**
+ * Deep Links
+ *
+ * URLs under the app's scheme - the prefix the magic-link login already redirects to:
+ *
+ *   com.winderapp://deck?v=1&g=Nebbiolo&xcol=White&o=price-asc   a deck filter
+ *   com.winderapp://wine/<reference_id>                          a single wine
+ *   com.winderapp://matches                                      the user's matches
+ *
+ * A deck link only carries the fields that differ from createDefaultFilter(),
+ * each under a short parameter. Lists are comma separated with every value URI
+ * encoded, ranges are "min-max". v is the WINE_FILTER_VERSION the link was
+ * written with, older links are upgraded by migrateFilter. Links of a newer
+ * version, and links with any invalid value, are rejected as a whole rather
+ * than applied in part.
+ */
+
+export const DEEP_LINK_PREFIX = 'com.winderapp://';
+
+export type DeepLink =
+  | { route: 'deck'; filter: WineFilter }
+  | { route: 'wine'; wineId: string }  // reference_id
+  | { route: 'matches' };
+
+// Parameter of each option category - excluded values use the same name with an x in front
+const OPTION_PARAMS: Record<OptionFilterCategory, string> = {
+  grape: 'g',
+  country: 'c',
+  region: 'r',
+  producer: 'p',
+  wineType: 't',
+  color: 'col',
+  sweetness: 'sw',
+  body: 'b',
+  acidity: 'ac',
+  tannin: 'tn',
+  productionType: 'pt',
+  unit: 'u',
+  alcohol: 'al',
+  price: 'pc',
+};
+
+const OPTION_CATEGORIES = Object.keys(OPTION_PARAMS) as OptionFilterCategory[];
+
+const EXCLUDED_PREFIX = 'x';
+
+// Routes the app doesn't handle itself - the magic-link login is picked up by the auth flow
+const IGNORED_ROUTES = ['auth'];
+
+class InvalidLinkError extends Error {}
+
+const encodeList = (values: string[]): string => values.map(encodeURIComponent).join(',');
+
+const decodeList = (value: string): string[] =>
+  value.split(',').filter(Boolean).map(item => decodeURIComponent(item));
+
+const encodeRange = ([min, max]: [number, number]): string => `${min}-${max}`;
+
+const decodeRange = (value: string, name: string): [number, number] => {
+  const match = /^(\d+(?:\.\d+)?)-(\d+(?:\.\d+)?)$/.exec(value);
+  const range: [number, number] | null = match ? [Number(match[1]), Number(match[2])] : null;
+  if (!range || range[0] > range[1]) {
+    throw new InvalidLinkError(`${name} is not a range: ${value}`);
+  }
+  return range;
+};
+
+const decodeFlag = (value: string, name: string): boolean => {
+  if (value !== '0' && value !== '1') {
+    throw new InvalidLinkError(`${name} is not 0 or 1: ${value}`);
+  }
+  return value === '1';
+};
+
+/**
+ * Query parameters of a filter - only the fields that differ from the default filter
+ */
+const filterParams = (filter: WineFilter): Array<[string, string]> => {
+  const defaults = createDefaultFilter();
+  const params: Array<[string, string]> = [['v', String(WINE_FILTER_VERSION)]];
+
+  OPTION_CATEGORIES.forEach(category => {
+    const included = filter[category] || [];
+    const excluded = filter.excluded?.[category] || [];
+    if (included.length > 0) params.push([OPTION_PARAMS[category], encodeList(included)]);
+    if (excluded.length > 0) params.push([EXCLUDED_PREFIX + OPTION_PARAMS[category], encodeList(excluded)]);
+  });
+
+  if (filter.grapeMatch !== defaults.grapeMatch) params.push(['gm', filter.grapeMatch]);
+  if (filter.grapeMinShare !== null) params.push(['gs', String(filter.grapeMinShare)]);
+  if (filter.singleVarietal) params.push(['sv', '1']);
+  if (filter.vintageRange) params.push(['vy', encodeRange(filter.vintageRange)]);
+  if (filter.includeNonVintage !== defaults.includeNonVintage) params.push(['nv', filter.includeNonVintage ? '1' : '0']);
+  if (filter.priceRange) params.push(['pr', encodeRange(filter.priceRange)]);
+  if (filter.priceCurrency !== defaults.priceCurrency) params.push(['cur', filter.priceCurrency]);
+  if (filter.order !== defaults.order) params.push(['o', filter.order]);
+
+  return params;
+};
+
+/**
+ * Filter of the query parameters of a deck link, throws InvalidLinkError
+ * The values are checked here, the filter of the link's version is then
+ * upgraded like a stored one
+ */
+const parseFilterParams = (params: Map<string, string>): WineFilter => {
+  const version = Number(params.get('v'));
+  const linked: Record<string, unknown> = {};
+  const excluded: WineFilter['excluded'] = {};
+
+  OPTION_CATEGORIES.forEach(category => {
+    const included = params.get(OPTION_PARAMS[category]);
+    const excludedValues = params.get(EXCLUDED_PREFIX + OPTION_PARAMS[category]);
+    if (included !== undefined) linked[category] = decodeList(included);
+    if (excludedValues !== undefined) excluded[category] = decodeList(excludedValues);
+  });
+  linked.excluded = excluded;
+
+  params.forEach((value, name) => {
+    switch (name) {
+      case 'gm':
+        if (value !== 'any' && value !== 'all') throw new InvalidLinkError(`Unknown grape match: ${value}`);
+        linked.grapeMatch = value;
+        break;
+      case 'gs': {
+        const share = Number(value);
+        if (!isGrapeMinShare(share)) {
+          throw new InvalidLinkError(`Grape share out of range: ${value}`);
+        }
+        linked.grapeMinShare = share;
+        break;
+      }
+      case 'sv':
+        linked.singleVarietal = decodeFlag(value, name);
+        break;
+      case 'vy':
+        linked.vintageRange = decodeRange(value, name);
+        break;
+      case 'nv':
+        linked.includeNonVintage = decodeFlag(value, name);
+        break;
+      case 'pr':
+        linked.priceRange = decodeRange(value, name);
+        break;
+      case 'cur':
+        if (!/^[A-Z]{3}$/.test(value)) throw new InvalidLinkError(`Not a currency code: ${value}`);
+        linked.priceCurrency = value;
+        break;
+      case 'o':
+        if (!(DECK_ORDERS as readonly string[]).includes(value)) throw new InvalidLinkError(`Unknown deck order: ${value}`);
+        linked.order = value;
+        break;
+    }
+  });
+
+  const filter = migrateFilter(linked, version);
+  if (!filter) {
+    throw new InvalidLinkError(`Unsupported filter version: ${params.get('v')}`);
+  }
+  return filter;
+};
+
+/**
+ * URL of a deck filter, a wine or the matches
+ */
+export const buildDeepLink = (link: DeepLink): string => {
+  switch (link.route) {
+    case 'deck':
+      return `${DEEP_LINK_PREFIX}deck?${filterParams(link.filter).map(([name, value]) => `${name}=${value}`).join('&')}`;
+    case 'wine':
+      return `${DEEP_LINK_PREFIX}wine/${encodeURIComponent(link.wineId)}`;
+    case 'matches':
+      return `${DEEP_LINK_PREFIX}matches`;
+  }
+};
+
+/**
+ * Route of an incoming URL, null when it isn't a (valid) link of the app
+ */
+export const parseDeepLink = (url: string): DeepLink | null => {
+  if (!url.startsWith(DEEP_LINK_PREFIX)) return null;
+
+  const [path, query = ''] = url.slice(DEEP_LINK_PREFIX.length).split('#')[0].split('?');
+  const [route = '', ...segments] = path.split('/').filter(Boolean);
+
+  try {
+    switch (route) {
+      case 'deck': {
+        const params = new Map<string, string>();
+        query.split('&').filter(Boolean).forEach(pair => {
+          const separator = pair.indexOf('=');
+          if (separator > 0) params.set(pair.slice(0, separator), pair.slice(separator + 1));
+        });
+        return { route, filter: parseFilterParams(params) };
+      }
+      case 'wine':
+        if (segments.length !== 1) throw new InvalidLinkError('A wine link needs exactly one wine id');
+        return { route, wineId: decodeURIComponent(segments[0]) };
+      case 'matches':
+        return { route };
+      default:
+        if (!IGNORED_ROUTES.includes(route)) {
+          logger.app.warn('Unknown deep link route:', url);
+        }
+        return null;
+    }
+  } catch (error) {
+    // decodeURIComponent throws a URIError on malformed escapes
+    if (error instanceof InvalidLinkError || error instanceof URIError) {
+      logger.app.warn(`Ignoring invalid deep link ${url}:`, error.message);
+      return null;
+    }
+    throw error;
+  }
+};
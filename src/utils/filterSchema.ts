@@ -0,0 +1,156 @@
+import { DeckOrder, OptionFilterCategory, WineFilter } from '../types';
+import { CATALOGUE_CURRENCY } from '../services/currencyService';
+import { DECK_ORDERS } from '../services/deckOrder';
+import { createDefaultFilter, DB_FILTER_KEYS } from './filterUtils';
+
+/**
+ * Filter Schema
+ *
+ * Versions of the WineFilter shape kept beyond a session (filter presets, deck links):
+ *
+ *   1  the first shape, with the legacy duplicates wineTypes (colours),
+ *      regions, grapeVarieties, minPrice/maxPrice and alcoholRange next to the
+ *      current fields - filters stored without a version are version 1
+ *   2  the current WineFilter, without the duplicates
+ *
+ * migrateFilter upgrades a stored filter one version at a time and normalizes
+ * the result: fields that are missing or have the wrong type get their default,
+ * so every consumer works with the same complete WineFilter. Changing the shape
+ * means bumping WINE_FILTER_VERSION and adding the step from the previous
+ * version to MIGRATIONS.
+ */
+
+export const WINE_FILTER_VERSION = 2;
+
+type RawFilter = Record<string, unknown>;
+
+const OPTION_CATEGORIES = Object.keys(DB_FILTER_KEYS) as OptionFilterCategory[];
+
+// Version 1 fields without a successor in the current shape
+const LEGACY_FIELDS = ['wineTypes', 'regions', 'grapeVarieties', 'minPrice', 'maxPrice', 'alcoholRange'];
+
+// Defaults of the version 1 price and vintage fields - they matched every wine
+const LEGACY_PRICE_BOUNDS: [number, number] = [0, 1000];
+const LEGACY_VINTAGE_RANGE: [number, number] = [1900, 2024];
+
+const isRecord = (value: unknown): value is RawFilter =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const numberRange = (value: unknown): [number, number] | null =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every(bound => typeof bound === 'number' && Number.isFinite(bound)) &&
+  value[0] <= value[1]
+    ? [value[0], value[1]]
+    : null;
+
+// Minimum grape share in percent - more than 0, at most 100, fractions allowed
+export const isGrapeMinShare = (value: unknown): value is number =>
+  typeof value === 'number' && value > 0 && value <= 100;
+
+const isSameRange = (a: [number, number] | null, b: [number, number]): boolean =>
+  a !== null && a[0] === b[0] && a[1] === b[1];
+
+// Values of the current field first, then those only the legacy field had
+const mergeLists = (current: unknown, legacy: unknown): string[] =>
+  [...new Set([...stringList(current), ...stringList(legacy)])];
+
+/**
+ * Upgrade steps, keyed by the version they upgrade from
+ */
+const MIGRATIONS: Record<number, (filter: RawFilter) => RawFilter> = {
+  1: legacy => {
+    const filter: RawFilter = { ...legacy };
+    LEGACY_FIELDS.forEach(field => delete filter[field]);
+
+    // wineTypes held colours - the deck compared them with the wine colour
+    filter.color = mergeLists(legacy.color, legacy.wineTypes);
+    filter.region = mergeLists(legacy.region, legacy.regions);
+    filter.grape = mergeLists(legacy.grape, legacy.grapeVarieties);
+
+    // minPrice/maxPrice were in the catalogue currency, the defaults meant any price
+    if (legacy.priceRange === undefined && (legacy.minPrice !== undefined || legacy.maxPrice !== undefined)) {
+      const priceRange = numberRange([
+        typeof legacy.minPrice === 'number' ? legacy.minPrice : LEGACY_PRICE_BOUNDS[0],
+        typeof legacy.maxPrice === 'number' ? legacy.maxPrice : LEGACY_PRICE_BOUNDS[1],
+      ]);
+      if (priceRange && !isSameRange(priceRange, LEGACY_PRICE_BOUNDS)) {
+        filter.priceRange = priceRange;
+        filter.priceCurrency = CATALOGUE_CURRENCY;
+      }
+    }
+
+    // The old default vintage range spanned every vintage
+    if (isSameRange(numberRange(legacy.vintageRange), LEGACY_VINTAGE_RANGE)) {
+      filter.vintageRange = null;
+    }
+
+    // alcoholRange was never applied to a query - the alcohol categories replace it
+    return filter;
+  },
+};
+
+/**
+ * A complete WineFilter from a filter of the current version - anything
+ * missing or invalid gets its default
+ */
+const normalizeFilter = (raw: RawFilter): WineFilter => {
+  const filter = createDefaultFilter();
+
+  OPTION_CATEGORIES.forEach(category => {
+    filter[category] = stringList(raw[category]);
+  });
+
+  const excluded = isRecord(raw.excluded) ? raw.excluded : {};
+  filter.excluded = OPTION_CATEGORIES.reduce<WineFilter['excluded']>((acc, category) => {
+    const values = stringList(excluded[category]);
+    if (values.length > 0) acc[category] = values;
+    return acc;
+  }, {});
+
+  if (raw.grapeMatch === 'any' || raw.grapeMatch === 'all') {
+    filter.grapeMatch = raw.grapeMatch;
+  }
+  if (isGrapeMinShare(raw.grapeMinShare)) {
+    filter.grapeMinShare = raw.grapeMinShare;
+  }
+  if (typeof raw.singleVarietal === 'boolean') {
+    filter.singleVarietal = raw.singleVarietal;
+  }
+
+  filter.vintageRange = numberRange(raw.vintageRange);
+  if (typeof raw.includeNonVintage === 'boolean') {
+    filter.includeNonVintage = raw.includeNonVintage;
+  }
+
+  filter.priceRange = numberRange(raw.priceRange);
+  if (typeof raw.priceCurrency === 'string' && /^[A-Z]{3}$/.test(raw.priceCurrency)) {
+    filter.priceCurrency = raw.priceCurrency;
+  }
+
+  if (typeof raw.order === 'string' && (DECK_ORDERS as readonly string[]).includes(raw.order)) {
+    filter.order = raw.order as DeckOrder;
+  }
+
+  return filter;
+};
+
+/**
+ * A stored filter of the given version as a current WineFilter
+ * Gives null for anything that isn't a filter and for filters written by a
+ * newer app version, which can't be read.
+ */
+export const migrateFilter = (stored: unknown, version: number = 1): WineFilter | null => {
+  if (!isRecord(stored) || !Number.isInteger(version) || version < 1 || version > WINE_FILTER_VERSION) {
+    return null;
+  }
+
+  let filter = stored;
+  for (let from = version; from < WINE_FILTER_VERSION; from++) {
+    filter = MIGRATIONS[from](filter);
+  }
+  return normalizeFilter(filter);
+};
@@ -0,0 +1,212 @@
+import type { OptionFilterCategory, WineFilter } from '../types';
+import type { RegionNode } from '../services/filterOptionsService';
+import { currencyService, CurrencyCode } from '../services/currencyService';
+import {
+  getRegionSelectionState,
+  isRegionExcluded,
+  regionNamesBelow,
+  toggleRegionExclusion,
+  toggleRegionNode,
+} from './regionTree';
+import { i18n } from './i18n';
+
+/**
+ * Filter Summary
+ *
+ * The constraints of a WineFilter as chips - one per selected or excluded
+ * value, range and switch - each with the filter it leaves when removed. The
+ * active filter bar shows them and the header badge counts them.
+ *
+ * Countries and regions are summarized along the region tree: a selected
+ * region is one chip, not one per sub-region it was expanded to. Values the
+ * tree doesn't know (or before it has loaded) get a chip of their own.
+ */
+
+export interface FilterChip {
+  key: string;
+  label: string;
+  excluded: boolean;  // Wines with this value are hidden
+  remove: (filter: WineFilter) => WineFilter;
+}
+
+export interface FilterSummaryLabels {
+  regionTree?: RegionNode[] | null;         // Names of countries and regions
+  producerNames?: Record<string, string>;   // Producer id → name
+  currency?: CurrencyCode;                  // Currency of the price chip, by default the display currency
+}
+
+type ValueCategory = Exclude<OptionFilterCategory, 'country' | 'region'>;
+
+// Chip order after the origin
+const VALUE_CATEGORIES: ValueCategory[] = [
+  'grape', 'producer', 'wineType', 'color', 'sweetness', 'body', 'acidity', 'tannin',
+  'productionType', 'alcohol', 'price', 'unit',
+];
+
+const without = (values: string[] | undefined, value: string) => (values || []).filter(item => item !== value);
+
+const removeValue = (category: OptionFilterCategory, value: string) => (filter: WineFilter): WineFilter => ({
+  ...filter,
+  [category]: without(filter[category], value),
+});
+
+const removeExcludedValue = (category: OptionFilterCategory, value: string) => (filter: WineFilter): WineFilter => ({
+  ...filter,
+  excluded: { ...filter.excluded, [category]: without(filter.excluded?.[category], value) },
+});
+
+const valueLabel = (category: ValueCategory, value: string, labels: FilterSummaryLabels): string => {
+  if (category === 'producer') return labels.producerNames?.[value] ?? '…';
+  if (category === 'body' || category === 'acidity' || category === 'tannin') {
+    return i18n.translateWineProperty(category, value);
+  }
+  return value;
+};
+
+/**
+ * Chips of the selected and excluded countries and regions
+ */
+const originChips = (filter: WineFilter, tree: RegionNode[]): FilterChip[] => {
+  const chips: FilterChip[] = [];
+  const covered = { country: new Set<string>(), region: new Set<string>() };
+
+  const cover = (node: RegionNode) => {
+    if (node.kind === 'country') covered.country.add(node.value);
+    regionNamesBelow(node).forEach(name => covered.region.add(name));
+  };
+
+  // The highest checked node stands for everything below it
+  const walkSelected = (node: RegionNode, ancestors: RegionNode[]) => {
+    const state = getRegionSelectionState(node, filter);
+    if (state === 'checked') {
+      cover(node);
+      chips.push({
+        key: `${node.kind}:${node.value}`,
+        label: node.label,
+        excluded: false,
+        remove: current => toggleRegionNode(current, node, ancestors),
+      });
+    } else if (state === 'partial') {
+      node.children.forEach(child => walkSelected(child, [...ancestors, node]));
+    }
+  };
+
+  const walkExcluded = (node: RegionNode, ancestors: RegionNode[]) => {
+    if (isRegionExcluded(node, filter)) {
+      cover(node);
+      chips.push({
+        key: `excluded:${node.kind}:${node.value}`,
+        label: node.label,
+        excluded: true,
+        remove: current => toggleRegionExclusion(current, node, ancestors),
+      });
+    } else {
+      node.children.forEach(child => walkExcluded(child, [...ancestors, node]));
+    }
+  };
+
+  tree.forEach(country => walkSelected(country, []));
+  tree.forEach(country => walkExcluded(country, []));
+
+  const unknownChips = (category: 'country' | 'region', excluded: boolean): FilterChip[] =>
+    ((excluded ? filter.excluded?.[category] : filter[category]) || [])
+      .filter(value => !covered[category].has(value))
+      .map(value => ({
+        key: `${excluded ? 'excluded:' : ''}${category}:${value}`,
+        label: value,
+        excluded,
+        remove: excluded ? removeExcludedValue(category, value) : removeValue(category, value),
+      }));
+
+  return [
+    ...chips,
+    ...unknownChips('country', false),
+    ...unknownChips('region', false),
+    ...unknownChips('country', true),
+    ...unknownChips('region', true),
+  ];
+};
+
+const formatYears = ([from, to]: [number, number]) => (from === to ? `${from}` : `${from}–${to}`);
+
+/**
+ * Chips of every constraint of a filter, in the order of the filter sheet
+ * The deck order is not a constraint and has no chip.
+ */
+export const summarizeFilter = (filter: WineFilter, labels: FilterSummaryLabels = {}): FilterChip[] => {
+  const chips = originChips(filter, labels.regionTree || []);
+  const grapes = filter.grape || [];
+
+  VALUE_CATEGORIES.forEach(category => {
+    (filter[category] || []).forEach(value => {
+      chips.push({
+        key: `${category}:${value}`,
+        label: valueLabel(category, value, labels),
+        excluded: false,
+        remove: removeValue(category, value),
+      });
+    });
+    (filter.excluded?.[category] || []).forEach(value => {
+      chips.push({
+        key: `excluded:${category}:${value}`,
+        label: valueLabel(category, value, labels),
+        excluded: true,
+        remove: removeExcludedValue(category, value),
+      });
+    });
+
+    // The blend settings only apply to selected grapes
+    if (category === 'grape' && filter.grapeMatch === 'all' && grapes.length > 1) {
+      chips.push({
+        key: 'grapeMatch',
+        label: i18n.t('ui.allGrapesChip'),
+        excluded: false,
+        remove: current => ({ ...current, grapeMatch: 'any' }),
+      });
+    }
+    if (category === 'grape' && filter.grapeMinShare !== null && grapes.length > 0) {
+      chips.push({
+        key: 'grapeMinShare',
+        label: `${i18n.t('ui.minShareChip')} ${filter.grapeMinShare}%`,
+        excluded: false,
+        remove: current => ({ ...current, grapeMinShare: null }),
+      });
+    }
+    if (category === 'grape' && filter.singleVarietal) {
+      chips.push({
+        key: 'singleVarietal',
+        label: i18n.t('ui.singleVarietalOnly'),
+        excluded: false,
+        remove: current => ({ ...current, singleVarietal: false }),
+      });
+    }
+  });
+
+  if (filter.vintageRange) {
+    chips.push({
+      key: 'vintageRange',
+      label: formatYears(filter.vintageRange),
+      excluded: false,
+      remove: current => ({ ...current, vintageRange: null }),
+    });
+  }
+  if (!filter.includeNonVintage) {
+    chips.push({
+      key: 'includeNonVintage',
+      label: i18n.t('ui.noVintage'),
+      excluded: true,
+      remove: current => ({ ...current, includeNonVintage: true }),
+    });
+  }
+  if (filter.priceRange) {
+    const [min, max] = filter.priceRange;
+    chips.push({
+      key: 'priceRange',
+      label: currencyService.formatPriceRange(min, max, filter.priceCurrency, labels.currency),
+      excluded: false,
+      remove: current => ({ ...current, priceRange: null }),
+    });
+  }
+
+  return chips;
+};
@@ -1,10 +1,31 @@
-import { WineFilter, DatabaseWineFilter } from '../types';
+import { WineFilter, DatabaseWineFilter, DatabaseWineExclusions, OptionFilterCategory } from '../types';
+import { CATALOGUE_CURRENCY } from '../services/currencyService';
+import { DEFAULT_DECK_ORDER } from '../services/deckOrder';
+import { referenceDataService } from '../services/referenceDataService';
 
 // Wine tag types that match the database
 const WINE_TAG_TYPES = [
   'grape', 'wineType', 'color', 'productionType', 'unit', 'alcohol'
 ] as const;
 
+// DatabaseWineFilter key of each option filter category
+export const DB_FILTER_KEYS: Record<OptionFilterCategory, keyof DatabaseWineExclusions> = {
+  grape: 'grape',
+  country: 'countries',
+  region: 'regions',
+  producer: 'producer',
+  wineType: 'wineType',
+  color: 'color',
+  sweetness: 'sweetness',
+  body: 'body',
+  acidity: 'acidity',
+  tannin: 'tannin',
+  productionType: 'productionType',
+  unit: 'unit',
+  alcohol: 'alcohol',
+  price: 'price',
+};
+
 /**
  * Sanitizes string list by removing empty strings and trimming
  */
@@ -33,8 +54,22 @@ const buildTagFilterMap = (filter: WineFilter): { [key: string]: string[] } | un
 /**
  * Converts a frontend WineFilter to a DatabaseWineFilter for efficient querying
  * This matches the Web App implementation - simple direct mapping
+ * Wine types and colors are resolved to their canonical names when the query
+ * runs, so a filter naming them waits for the reference data - a preset or
+ * link applied on app start would otherwise load an unfiltered deck
  */
 export const convertToDBFilter = async (frontendFilter: WineFilter): Promise<DatabaseWineFilter> => {
+  const namesReferenceValues = [
+    frontendFilter.wineType,
+    frontendFilter.color,
+    frontendFilter.excluded?.wineType,
+    frontendFilter.excluded?.color,
+  ].some(values => sanitizeStringList(values || []).length > 0);
+  if (namesReferenceValues) {
+    // Logged by the service - without the reference data the names stay unresolved
+    await referenceDataService.initialize().catch(() => undefined);
+  }
+
   const dbFilter: DatabaseWineFilter = {};
 
   // Country filters
@@ -53,6 +88,27 @@ export const convertToDBFilter = async (frontendFilter: WineFilter): Promise<Dat
   const grapes = sanitizeStringList(frontendFilter.grape || []);
   if (grapes.length > 0) {
     dbFilter.grape = grapes;
+
+    if (frontendFilter.grapeMatch === 'all' && grapes.length > 1) {
+      dbFilter.grapeMatch = 'all';
+    }
+
+    // Minimum share of the selected grapes
+    if (frontendFilter.grapeMinShare !== null && frontendFilter.grapeMinShare !== undefined) {
+      dbFilter.grapeMinShare = frontendFilter.grapeMinShare;
+    }
+  }
+
+  if (frontendFilter.singleVarietal) {
+    dbFilter.singleVarietal = true;
+  }
+
+  // Vintage filters - non-vintage wines are included unless excluded explicitly
+  if (frontendFilter.vintageRange) {
+    dbFilter.vintageRange = frontendFilter.vintageRange;
+  }
+  if (frontendFilter.includeNonVintage === false) {
+    dbFilter.includeNonVintage = false;
   }
 
   // Producer filters
@@ -79,6 +135,22 @@ export const convertToDBFilter = async (frontendFilter: WineFilter): Promise<Dat
     dbFilter.sweetness = sweetness;
   }
 
+  // Sensory profile filters
+  const body = sanitizeStringList(frontendFilter.body || []);
+  if (body.length > 0) {
+    dbFilter.body = body;
+  }
+
+  const acidity = sanitizeStringList(frontendFilter.acidity || []);
+  if (acidity.length > 0) {
+    dbFilter.acidity = acidity;
+  }
+
+  const tannin = sanitizeStringList(frontendFilter.tannin || []);
+  if (tannin.length > 0) {
+    dbFilter.tannin = tannin;
+  }
+
   // Alcohol level filters
   const alcohol = sanitizeStringList(frontendFilter.alcohol || []);
   if (alcohol.length > 0) {
@@ -97,38 +169,139 @@ export const convertToDBFilter = async (frontendFilter: WineFilter): Promise<Dat
     dbFilter.price = price;
   }
 
+  // Numeric price range
+  if (frontendFilter.priceRange) {
+    dbFilter.priceRange = frontendFilter.priceRange;
+    dbFilter.priceCurrency = frontendFilter.priceCurrency;
+  }
+
   // Production type filters
   const productionType = sanitizeStringList(frontendFilter.productionType || []);
   if (productionType.length > 0) {
     dbFilter.productionType = productionType;
   }
 
+  // Excluded values
+  const exclude = (Object.keys(DB_FILTER_KEYS) as OptionFilterCategory[]).reduce<DatabaseWineExclusions>(
+    (acc, category) => {
+      const values = sanitizeStringList(frontendFilter.excluded?.[category] || []);
+      if (values.length > 0) {
+        acc[DB_FILTER_KEYS[category]] = values;
+      }
+      return acc;
+    },
+    {}
+  );
+  if (Object.keys(exclude).length > 0) {
+    dbFilter.exclude = exclude;
+  }
+
   return dbFilter;
 };
 
+/**
+ * Advance an option through its three states: not selected -> included -> excluded -> not selected
+ */
+export const cycleFilterOption = (
+  filter: WineFilter,
+  category: OptionFilterCategory,
+  value: string
+): WineFilter => {
+  const included = filter[category] || [];
+  const excluded = filter.excluded?.[category] || [];
+
+  if (included.includes(value)) {
+    return {
+      ...filter,
+      [category]: included.filter(item => item !== value),
+      excluded: { ...filter.excluded, [category]: [...excluded, value] },
+    };
+  }
+  if (excluded.includes(value)) {
+    return {
+      ...filter,
+      excluded: { ...filter.excluded, [category]: excluded.filter(item => item !== value) },
+    };
+  }
+  return { ...filter, [category]: [...included, value] };
+};
+
+/**
+ * Carry a filter over to another language
+ * Wine types and colors are selected by their translated names, which have to
+ * match the options of the new language to stay selected.
+ */
+export const localizeFilter = (filter: WineFilter, languageCode: string): WineFilter => {
+  const translateTypes = (values: string[] = []) =>
+    values.map(value => referenceDataService.translateWineType(value, languageCode));
+  const translateColors = (values: string[] = []) =>
+    values.map(value => referenceDataService.translateWineColor(value, languageCode));
+
+  const localized: WineFilter = {
+    ...filter,
+    wineType: translateTypes(filter.wineType),
+    color: translateColors(filter.color),
+    excluded: {
+      ...filter.excluded,
+      ...(filter.excluded?.wineType && { wineType: translateTypes(filter.excluded.wineType) }),
+      ...(filter.excluded?.color && { color: translateColors(filter.excluded.color) }),
+    },
+  };
+  // Nothing to translate - the same object, so the deck does not reload
+  return isSameFilter(localized, filter) ? filter : localized;
+};
+
+/**
+ * Deep equality of plain filter values, undefined and missing keys are the same
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length && a.every((value, index) => isSameValue(value, b[index]));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const left = a as Record<string, unknown>;
+    const right = b as Record<string, unknown>;
+    const keys = new Set([...Object.keys(left), ...Object.keys(right)]);
+    return [...keys].every(key => isSameValue(left[key], right[key]));
+  }
+  return false;
+};
+
+/**
+ * Whether two filters have the same content
+ */
+export const isSameFilter = (a: WineFilter, b: WineFilter): boolean => isSameValue(a, b);
+
 /**
  * Creates an empty WineFilter with default values
  */
 export const createDefaultFilter = (): WineFilter => ({
   // New-style filters matching Web App
   grape: [],
+  excluded: {},
+  grapeMatch: 'any',
+  grapeMinShare: null,
+  singleVarietal: false,
+  vintageRange: null,
+  includeNonVintage: true,
+  priceRange: null,
+  priceCurrency: CATALOGUE_CURRENCY,
+  order: DEFAULT_DECK_ORDER,
   country: [],
   region: [],
   producer: [],
   wineType: [],
   color: [],
   sweetness: [],
+  body: [],
+  acidity: [],
+  tannin: [],
   productionType: [],
   unit: [],
   alcohol: [],
   price: [],
-  
-  // Legacy compatibility
-  wineTypes: [],
-  maxPrice: 1000,
-  minPrice: 0,
-  regions: [],
-  grapeVarieties: [],
-  vintageRange: [1900, 2024],
-  alcoholRange: [0, 20],
 });
\ No newline at end of file
@@ -0,0 +1,77 @@
+/**
+ * Language fallback chain for translated database content
+ *
+ * Wine descriptions, region/country names and tag translations are stored as
+ * `{ de: '...', en: '...' }` objects. Not every wine is translated into every
+ * language, so values are resolved along a chain, e.g. fr → de → en → any.
+ */
+
+import type { Language } from './i18n';
+
+export interface LocalizedValue {
+  value: string;
+  language: string;      // Language the value was found in
+  isFallback: boolean;   // True if not in the requested language
+}
+
+// Swiss catalogue: German is the most complete source language, then English
+const DEFAULT_FALLBACKS: Language[] = ['de', 'en'];
+
+let fallbackChains: Partial<Record<Language, Language[]>> = {};
+
+/**
+ * Override the fallback languages per requested language
+ * Example: configureLanguageFallbacks({ fr: ['de', 'en'] }) for fr → de → en → any
+ */
+export const configureLanguageFallbacks = (chains: Partial<Record<Language, Language[]>>): void => {
+  fallbackChains = { ...fallbackChains, ...chains };
+};
+
+/**
+ * Languages to try, in order, for the requested language
+ */
+export const getLanguageChain = (language: string): string[] => {
+  const fallbacks = fallbackChains[language as Language] ?? DEFAULT_FALLBACKS;
+  return [...new Set([language, ...fallbacks])];
+};
+
+/**
+ * Resolve a translated value along the fallback chain
+ * Falls back to any non-empty translation if no language of the chain has one
+ */
+export const resolveLocalized = (
+  valuesByLanguage: Record<string, string | null> | null | undefined,
+  language: string
+): LocalizedValue | null => {
+  if (!valuesByLanguage) {
+    return null;
+  }
+
+  const hasValue = (code: string) => {
+    const value = valuesByLanguage[code];
+    return typeof value === 'string' && value.trim() !== '';
+  };
+
+  const resolvedLanguage =
+    getLanguageChain(language).find(hasValue) ??
+    Object.keys(valuesByLanguage).sort().find(hasValue);
+
+  if (!resolvedLanguage) {
+    return null;
+  }
+
+  return {
+    value: valuesByLanguage[resolvedLanguage] as string,
+    language: resolvedLanguage,
+    isFallback: resolvedLanguage !== language,
+  };
+};
+
+/**
+ * Resolve a translated value, or return the default if nothing is translated
+ */
+export const localizedOrDefault = (
+  valuesByLanguage: Record<string, string | null> | null | undefined,
+  language: string,
+  defaultValue: string
+): string => resolveLocalized(valuesByLanguage, language)?.value ?? defaultValue;
@@ -25,6 +25,10 @@ const MODULE_CONFIG: Record<string, LoggerConfig> = {
   auth: { level: 'info', enabled: true },
   referenceData: { level: 'info', enabled: true },
   swipe: { level: 'warn', enabled: true },  // Only warnings and errors
+  catalogue: { level: 'info', enabled: true },
+  images: { level: 'info', enabled: true },
+  currency: { level: 'info', enabled: true },
+  language: { level: 'info', enabled: true },
   app: { level: 'info', enabled: true },
 };
 
@@ -95,6 +99,10 @@ export const logger = {
   auth: new ModuleLogger('Auth', MODULE_CONFIG.auth),
   referenceData: new ModuleLogger('ReferenceData', MODULE_CONFIG.referenceData),
   swipe: new ModuleLogger('Swipe', MODULE_CONFIG.swipe),
+  catalogue: new ModuleLogger('Catalogue', MODULE_CONFIG.catalogue),
+  images: new ModuleLogger('Images', MODULE_CONFIG.images),
+  currency: new ModuleLogger('Currency', MODULE_CONFIG.currency),
+  language: new ModuleLogger('Language', MODULE_CONFIG.language),
   app: new ModuleLogger('App', MODULE_CONFIG.app),
 };
 
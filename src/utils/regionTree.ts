@@ -0,0 +1,152 @@
+import type { WineFilter } from '../types';
+import type { RegionNode } from '../services/filterOptionsService';
+
+/**
+ * Region tree selection
+ *
+ * The tree writes to WineFilter.country and WineFilter.region:
+ * - a fully selected country is its code in `country` ("all of Switzerland",
+ *   wines without a region included), none of its regions are listed
+ * - a selected region is listed in `region` together with all its sub-regions,
+ *   so the filter stays a plain list of region names
+ * - a parent whose children are only partly selected is not listed at all
+ *
+ * The two lists add up - a wine matches when its country or its region is selected.
+ */
+
+export type RegionSelectionState = 'checked' | 'partial' | 'unchecked';
+
+type RegionSelection = Pick<WineFilter, 'country' | 'region' | 'excluded'>;
+
+/**
+ * Region names of a node and everything below it - a country itself has none
+ */
+export const regionNamesBelow = (node: RegionNode): string[] => [
+  ...(node.kind === 'region' ? [node.value] : []),
+  ...node.children.flatMap(regionNamesBelow),
+];
+
+const without = (values: string[], removed: string[]) => values.filter(value => !removed.includes(value));
+
+const union = (values: string[], added: string[]) => [...values, ...added.filter(value => !values.includes(value))];
+
+export const getRegionSelectionState = (
+  node: RegionNode,
+  selection: Pick<WineFilter, 'country' | 'region'>
+): RegionSelectionState => {
+  const countries = selection.country || [];
+  const regions = selection.region || [];
+
+  if (countries.includes(node.countryCode)) return 'checked';
+  if (node.kind === 'region' && regions.includes(node.value)) return 'checked';
+  return regionNamesBelow(node).some(name => regions.includes(name)) ? 'partial' : 'unchecked';
+};
+
+export const isRegionExcluded = (node: RegionNode, selection: Pick<WineFilter, 'excluded'>): boolean =>
+  node.kind === 'country'
+    ? (selection.excluded?.country || []).includes(node.value)
+    : (selection.excluded?.region || []).includes(node.value);
+
+/**
+ * Remove a node from the selection - its ancestors are no longer fully selected
+ * either. A selected country is split up into its remaining regions.
+ */
+const deselect = <F extends RegionSelection>(filter: F, node: RegionNode, ancestors: RegionNode[]): F => {
+  const [country, ...regionAncestors] = node.kind === 'country' ? [node] : ancestors;
+  const countries = filter.country || [];
+  let regions = filter.region || [];
+
+  if (node.kind === 'country') {
+    return {
+      ...filter,
+      country: without(countries, [node.value]),
+      region: without(regions, regionNamesBelow(node)),
+    };
+  }
+
+  if (countries.includes(country.value)) {
+    regions = union(regions, without(regionNamesBelow(country), filter.excluded?.region || []));
+  }
+
+  return {
+    ...filter,
+    country: without(countries, [country.value]),
+    region: without(regions, [...regionNamesBelow(node), ...regionAncestors.map(ancestor => ancestor.value)]),
+  };
+};
+
+/**
+ * Select a node with everything below it. Parents whose children are now all
+ * selected become selected themselves, up to the country.
+ */
+const select = <F extends RegionSelection>(filter: F, node: RegionNode, ancestors: RegionNode[]): F => {
+  const excluded = filter.excluded || {};
+  const names = regionNamesBelow(node);
+  let next: F = {
+    ...filter,
+    region: union(filter.region || [], names),
+    excluded: {
+      ...excluded,
+      country: node.kind === 'country' ? without(excluded.country || [], [node.value]) : excluded.country,
+      region: without(excluded.region || [], names),
+    },
+  };
+
+  // The nearest parent first
+  for (const ancestor of [...ancestors].reverse()) {
+    if (!ancestor.children.every(child => getRegionSelectionState(child, next) === 'checked')) break;
+    next = ancestor.kind === 'country'
+      ? { ...next, country: union(next.country || [], [ancestor.value]) }
+      : { ...next, region: union(next.region || [], [ancestor.value]) };
+  }
+
+  if (node.kind === 'country') {
+    next = { ...next, country: union(next.country || [], [node.value]) };
+  }
+
+  // A selected country covers its regions
+  const selectedCountries = [node, ...ancestors].filter(
+    item => item.kind === 'country' && (next.country || []).includes(item.value)
+  );
+  return selectedCountries.reduce(
+    (acc, country) => ({ ...acc, region: without(acc.region, regionNamesBelow(country)) }),
+    next
+  );
+};
+
+/**
+ * Tap on a checkbox: a checked node is deselected, an unchecked or partly
+ * selected one is selected completely
+ * `ancestors` runs from the country down to the node's parent.
+ */
+export const toggleRegionNode = <F extends RegionSelection>(
+  filter: F,
+  node: RegionNode,
+  ancestors: RegionNode[]
+): F =>
+  getRegionSelectionState(node, filter) === 'checked'
+    ? deselect(filter, node, ancestors)
+    : select(filter, node, ancestors);
+
+/**
+ * Long press: exclude a node with everything below it, or take the exclusion back
+ */
+export const toggleRegionExclusion = <F extends RegionSelection>(
+  filter: F,
+  node: RegionNode,
+  ancestors: RegionNode[]
+): F => {
+  const excluded = filter.excluded || {};
+  const category = node.kind === 'country' ? 'country' : 'region';
+  const values = node.kind === 'country' ? [node.value] : regionNamesBelow(node);
+
+  if (isRegionExcluded(node, filter)) {
+    return { ...filter, excluded: { ...excluded, [category]: without(excluded[category] || [], values) } };
+  }
+
+  const next = getRegionSelectionState(node, filter) === 'unchecked' ? filter : deselect(filter, node, ancestors);
+  return {
+    ...next,
+    excluded: { ...excluded, [category]: union(excluded[category] || [], values) },
+  };
+};
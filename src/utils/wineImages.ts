@@ -0,0 +1,24 @@
+import type { ImageSourcePropType } from 'react-native';
+import type { Wine } from '../types';
+
+// Bundled placeholder per wine colour, shown until (or instead of) the bottle photo
+const PLACEHOLDER_IMAGES: Record<Wine['wine_type'], ImageSourcePropType> = {
+  red: require('../../assets/images/placeholders/red.png'),
+  white: require('../../assets/images/placeholders/white.png'),
+  rosé: require('../../assets/images/placeholders/rose.png'),
+  sparkling: require('../../assets/images/placeholders/sparkling.png'),
+  dessert: require('../../assets/images/placeholders/dessert.png'),
+};
+
+const DEFAULT_PLACEHOLDER_IMAGE: ImageSourcePropType = require('../../assets/images/placeholders/default.png');
+
+/**
+ * Remote bottle photo of a wine, null if it has none
+ */
+export const getWineImageUrl = (wine: Wine): string | null => {
+  const url = (wine.image_url || wine.image || '').trim();
+  return /^https?:\/\//i.test(url) ? url : null;
+};
+
+export const getPlaceholderImage = (wineType: string | null | undefined): ImageSourcePropType =>
+  PLACEHOLDER_IMAGES[wineType as Wine['wine_type']] ?? DEFAULT_PLACEHOLDER_IMAGE;
@@ -0,0 +1,31 @@
+-- Wines a user has not rated yet
+--
+-- Anti-join of wines_with_core_details against user_wine_matches, done in the
+-- database instead of downloading both sides to the app. The function returns
+-- rows of the view itself, so the app applies the same PostgREST filters,
+-- ordering and cursor pagination as on the view:
+--
+--   supabase.rpc('unrated_wines_for_user', { p_user_id }).select(...).in(...)
+--
+-- user_wine_matches.wine_id holds the wine UUID (wines.id), never the reference_id.
+
+create or replace function public.unrated_wines_for_user(p_user_id uuid)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select w.*
+  from public.wines_with_core_details w
+  where not exists (
+    select 1
+    from public.user_wine_matches m
+    where m.wine_id = w.id
+      and m.user_id = p_user_id
+  );
+$$;
+
+create index if not exists user_wine_matches_user_id_wine_id_idx
+  on public.user_wine_matches (user_id, wine_id);
+
+grant execute on function public.unrated_wines_for_user(uuid) to anon, authenticated;
@@ -0,0 +1,58 @@
+-- Full-text wine search
+--
+-- Searches the wine name (and vintage), the producer name, all region names and
+-- the description in the requested language. Accents are ignored on both sides
+-- ("Rose" finds "Rosé"), every search term is matched as a prefix so results
+-- appear while typing, and all terms must match ("Barolo 2016").
+--
+-- Results are ordered by relevance (name > producer/region > description) and
+-- paged with p_limit / p_offset. The function returns rows of
+-- wines_with_core_details so the app maps them like any other view row:
+--
+--   supabase.rpc('search_wines', { p_query, p_language, p_limit, p_offset }).select(...)
+
+create extension if not exists unaccent;
+
+create or replace function public.search_wines(
+  p_query text,
+  p_language text default 'en',
+  p_limit integer default 30,
+  p_offset integer default 0
+)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  with search_query as (
+    select to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & ')) as query
+    from regexp_split_to_table(lower(public.unaccent(coalesce(p_query, ''))), '[^[:alnum:]]+') as term
+    where term <> ''
+  ),
+  documents as (
+    select
+      w as wine,
+      setweight(to_tsvector('simple', public.unaccent(
+        coalesce(w.default_name, '') || ' ' || coalesce(w.year::text, '')
+      )), 'A')
+      || setweight(to_tsvector('simple', public.unaccent(
+        coalesce(p.name, '') || ' ' || coalesce(w.region_name_default, '') || ' ' ||
+        coalesce((select string_agg(value, ' ') from jsonb_each_text(w.region_names_by_language::jsonb)), '')
+      )), 'B')
+      || setweight(to_tsvector('simple', public.unaccent(
+        coalesce(w.descriptions_by_language::jsonb ->> p_language, '')
+      )), 'C') as document
+    from public.wines_with_core_details w
+    left join public.producers p on p.id = w.producer_id
+  )
+  select (d.wine).*
+  from documents d
+  cross join search_query q
+  where q.query is not null
+    and d.document @@ q.query
+  order by ts_rank(d.document, q.query) desc, (d.wine).id
+  limit p_limit
+  offset p_offset;
+$$;
+
+grant execute on function public.search_wines(text, text, integer, integer) to anon, authenticated;
@@ -0,0 +1,89 @@
+-- Delta sync of the on-device wine catalogue
+--
+-- The app keeps a local copy of wines_with_core_details and only downloads
+-- what changed since its last sync:
+--
+--   changed wines:  wines.updated_at, paged by (updated_at, id)
+--   deleted wines:  wine_tombstones.deleted_at
+--
+-- wines.updated_at is bumped on every update of the wine and whenever its
+-- grapes change, so a changed blend is picked up like any other change.
+
+-- Keep updated_at current on every update
+create or replace function public.set_wine_updated_at()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.updated_at := now();
+  return new;
+end;
+$$;
+
+drop trigger if exists wines_set_updated_at on public.wines;
+create trigger wines_set_updated_at
+  before update on public.wines
+  for each row execute function public.set_wine_updated_at();
+
+-- Grape changes count as a change of the wine
+create or replace function public.touch_wine_on_grape_change()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.wines
+  set updated_at = now()
+  where id = coalesce(new.wine_id, old.wine_id);
+  return null;
+end;
+$$;
+
+drop trigger if exists wine_grapes_touch_wine on public.wine_grapes;
+create trigger wine_grapes_touch_wine
+  after insert or update or delete on public.wine_grapes
+  for each row execute function public.touch_wine_on_grape_change();
+
+create index if not exists wines_updated_at_id_idx
+  on public.wines (updated_at, id);
+
+-- Tombstones of deleted wines, so devices can drop them from their copy
+create table if not exists public.wine_tombstones (
+  wine_id uuid primary key,
+  deleted_at timestamptz not null default now()
+);
+
+create index if not exists wine_tombstones_deleted_at_idx
+  on public.wine_tombstones (deleted_at);
+
+alter table public.wine_tombstones enable row level security;
+
+drop policy if exists "Wine tombstones are readable by everyone" on public.wine_tombstones;
+create policy "Wine tombstones are readable by everyone"
+  on public.wine_tombstones for select
+  to anon, authenticated
+  using (true);
+
+create or replace function public.record_wine_tombstone()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'DELETE' then
+    insert into public.wine_tombstones (wine_id, deleted_at)
+    values (old.id, now())
+    on conflict (wine_id) do update set deleted_at = excluded.deleted_at;
+    return old;
+  end if;
+
+  -- A wine restored with the same UUID is no longer deleted
+  delete from public.wine_tombstones where wine_id = new.id;
+  return new;
+end;
+$$;
+
+drop trigger if exists wines_record_tombstone on public.wines;
+create trigger wines_record_tombstone
+  after insert or delete on public.wines
+  for each row execute function public.record_wine_tombstone();
@@ -0,0 +1,24 @@
+-- Grape shares per wine, for the blend filters
+--
+-- One row per grape of a wine with the number of grapes in its blend. A wine
+-- made from a single grape without a recorded percentage counts as 100%, in a
+-- blend a missing percentage stays unknown (null).
+--
+--   at least 50% Merlot:  grape_name = 'Merlot' and percentage >= 50
+--   single-varietal:      grape_count = 1
+
+create or replace view public.wine_grape_shares
+with (security_invoker = true)
+as
+select
+  wg.wine_id,
+  g.name as grape_name,
+  coalesce(
+    wg.percentage,
+    case when count(*) over (partition by wg.wine_id) = 1 then 100 end
+  ) as percentage,
+  count(*) over (partition by wg.wine_id) as grape_count
+from public.wine_grapes wg
+join public.grapes g on g.id = wg.grape_id;
+
+grant select on public.wine_grape_shares to anon, authenticated;
@@ -0,0 +1,48 @@
+-- Price distribution of the catalogue, for the histogram of the price slider
+--
+-- Splits the range between the lowest and highest price_min into p_bucket_count
+-- equally wide buckets and counts the wines per bucket. Wines without a price
+-- are not counted. Returns no row when no wine has a price:
+--
+--   supabase.rpc('wine_price_histogram', { p_bucket_count: 20 }).maybeSingle()
+
+create or replace function public.wine_price_histogram(p_bucket_count integer default 20)
+returns table (min_price numeric, max_price numeric, counts integer[])
+language sql
+stable
+security invoker
+as $$
+  with priced as (
+    select price_min
+    from public.wines_with_core_details
+    where price_min is not null
+  ),
+  bounds as (
+    select min(price_min) as lo, max(price_min) as hi
+    from priced
+  ),
+  buckets as (
+    select
+      case
+        when b.hi > b.lo then least(width_bucket(p.price_min, b.lo, b.hi, p_bucket_count), p_bucket_count)
+        else 1
+      end as bucket,
+      count(*)::integer as wine_count
+    from priced p
+    cross join bounds b
+    group by 1
+  )
+  select
+    b.lo,
+    b.hi,
+    array(
+      select coalesce(buckets.wine_count, 0)
+      from generate_series(1, p_bucket_count) as i
+      left join buckets on buckets.bucket = i
+      order by i
+    )
+  from bounds b
+  where b.lo is not null;
+$$;
+
+grant execute on function public.wine_price_histogram(integer) to anon, authenticated;
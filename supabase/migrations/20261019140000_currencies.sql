@@ -0,0 +1,164 @@
+-- Prices in more than one currency
+--
+-- Every wine stores the currency of its prices (wines.price_currency, ISO 4217),
+-- exchange_rates holds the rate of each currency against the euro:
+--
+--   amount in B = amount in A / rate_per_eur(A) * rate_per_eur(B)
+--
+-- The rates are updated by a scheduled job, the app ships fallback rates for
+-- when the table can't be read (src/services/currencyService.ts).
+--
+-- wines_with_core_details gains a price_currency column. The view is wrapped
+-- instead of redefined: the existing view becomes wines_with_core_details_base
+-- and the functions returning rows of the view are recreated for the new row type.
+
+alter table public.wines
+  add column if not exists price_currency char(3) not null default 'CHF';
+
+create table if not exists public.exchange_rates (
+  currency_code char(3) primary key,
+  rate_per_eur numeric not null check (rate_per_eur > 0),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.exchange_rates enable row level security;
+
+drop policy if exists "Exchange rates are readable by everyone" on public.exchange_rates;
+create policy "Exchange rates are readable by everyone"
+  on public.exchange_rates for select
+  to anon, authenticated
+  using (true);
+
+insert into public.exchange_rates (currency_code, rate_per_eur) values
+  ('EUR', 1),
+  ('CHF', 0.94),
+  ('USD', 1.08),
+  ('GBP', 0.85)
+on conflict (currency_code) do nothing;
+
+-- Wrap the view
+alter view public.wines_with_core_details rename to wines_with_core_details_base;
+
+create view public.wines_with_core_details
+with (security_invoker = true)
+as
+select b.*, w.price_currency::text as price_currency
+from public.wines_with_core_details_base b
+join public.wines w on w.id = b.id;
+
+grant select on public.wines_with_core_details to anon, authenticated;
+
+-- Recreate the functions for the new row type (bodies unchanged)
+drop function if exists public.unrated_wines_for_user(uuid);
+drop function if exists public.search_wines(text, text, integer, integer);
+
+create or replace function public.unrated_wines_for_user(p_user_id uuid)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select w.*
+  from public.wines_with_core_details w
+  where not exists (
+    select 1
+    from public.user_wine_matches m
+    where m.wine_id = w.id
+      and m.user_id = p_user_id
+  );
+$$;
+
+grant execute on function public.unrated_wines_for_user(uuid) to anon, authenticated;
+
+create or replace function public.search_wines(
+  p_query text,
+  p_language text default 'en',
+  p_limit integer default 30,
+  p_offset integer default 0
+)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  with search_query as (
+    select to_tsquery('simple', string_agg(quote_literal(term) || ':*', ' & ')) as query
+    from regexp_split_to_table(lower(public.unaccent(coalesce(p_query, ''))), '[^[:alnum:]]+') as term
+    where term <> ''
+  ),
+  documents as (
+    select
+      w as wine,
+      setweight(to_tsvector('simple', public.unaccent(
+        coalesce(w.default_name, '') || ' ' || coalesce(w.year::text, '')
+      )), 'A')
+      || setweight(to_tsvector('simple', public.unaccent(
+        coalesce(p.name, '') || ' ' || coalesce(w.region_name_default, '') || ' ' ||
+        coalesce((select string_agg(value, ' ') from jsonb_each_text(w.region_names_by_language::jsonb)), '')
+      )), 'B')
+      || setweight(to_tsvector('simple', public.unaccent(
+        coalesce(w.descriptions_by_language::jsonb ->> p_language, '')
+      )), 'C') as document
+    from public.wines_with_core_details w
+    left join public.producers p on p.id = w.producer_id
+  )
+  select (d.wine).*
+  from documents d
+  cross join search_query q
+  where q.query is not null
+    and d.document @@ q.query
+  order by ts_rank(d.document, q.query) desc, (d.wine).id
+  limit p_limit
+  offset p_offset;
+$$;
+
+grant execute on function public.search_wines(text, text, integer, integer) to anon, authenticated;
+
+-- Price histogram in the requested currency
+drop function if exists public.wine_price_histogram(integer);
+
+create or replace function public.wine_price_histogram(
+  p_bucket_count integer default 20,
+  p_currency text default 'CHF'
+)
+returns table (min_price numeric, max_price numeric, counts integer[])
+language sql
+stable
+security invoker
+as $$
+  with priced as (
+    select w.price_min / source.rate_per_eur * target.rate_per_eur as price_min
+    from public.wines_with_core_details w
+    join public.exchange_rates source on source.currency_code = w.price_currency
+    join public.exchange_rates target on target.currency_code = p_currency
+    where w.price_min is not null
+  ),
+  bounds as (
+    select min(price_min) as lo, max(price_min) as hi
+    from priced
+  ),
+  buckets as (
+    select
+      case
+        when b.hi > b.lo then least(width_bucket(p.price_min, b.lo, b.hi, p_bucket_count), p_bucket_count)
+        else 1
+      end as bucket,
+      count(*)::integer as wine_count
+    from priced p
+    cross join bounds b
+    group by 1
+  )
+  select
+    b.lo,
+    b.hi,
+    array(
+      select coalesce(buckets.wine_count, 0)
+      from generate_series(1, p_bucket_count) as i
+      left join buckets on buckets.bucket = i
+      order by i
+    )
+  from bounds b
+  where b.lo is not null;
+$$;
+
+grant execute on function public.wine_price_histogram(integer, text) to anon, authenticated;
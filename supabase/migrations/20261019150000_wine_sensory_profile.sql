@@ -0,0 +1,26 @@
+-- Sensory profile of a wine: body, acidity and tannin
+--
+-- Null means the attribute has not been assessed yet - the app shows nothing
+-- instead of a placeholder. The values match the keys of the body / acidity /
+-- tannin translations in the app (src/utils/i18n.ts).
+
+alter table public.wines
+  add column if not exists body text
+    check (body in ('light', 'medium', 'full')),
+  add column if not exists acidity text
+    check (acidity in ('low', 'medium-minus', 'medium', 'medium-plus', 'high')),
+  add column if not exists tannin text
+    check (tannin in ('low', 'medium-minus', 'medium', 'medium-plus', 'high'));
+
+-- New columns can only be added at the end of the view
+create or replace view public.wines_with_core_details
+with (security_invoker = true)
+as
+select
+  b.*,
+  w.price_currency::text as price_currency,
+  w.body,
+  w.acidity,
+  w.tannin
+from public.wines_with_core_details_base b
+join public.wines w on w.id = b.id;
@@ -0,0 +1,86 @@
+-- Deck ordering
+--
+-- The swipe deck can be ordered by price, vintage, date added to the catalogue
+-- or popularity, or shuffled with a stable per-user seed. Pages are fetched by
+-- keyset (sort column, id), so every order needs its sort key as a column of
+-- wines_with_core_details:
+--
+--   price_eur    price_min converted to euro, so prices in different currencies compare
+--   added_at     wines.created_at
+--   like_count   number of users who liked the wine
+--   shuffle_key  md5(seed || id) - only filled by the functions taking a seed
+--
+-- The app keeps the cursor as [sort value, id] of the last row it received
+-- (src/services/deckOrder.ts).
+
+-- Likes per wine across all users. Deliberately not security_invoker: RLS on
+-- user_wine_matches only shows a user their own likes, the counts expose no user IDs
+create or replace view public.wine_like_counts
+as
+select m.wine_id, count(*)::integer as like_count
+from public.user_wine_matches m
+group by m.wine_id;
+
+grant select on public.wine_like_counts to anon, authenticated;
+
+create index if not exists user_wine_matches_wine_id_idx
+  on public.user_wine_matches (wine_id);
+
+-- New columns can only be added at the end of the view
+create or replace view public.wines_with_core_details
+with (security_invoker = true)
+as
+select
+  b.*,
+  w.price_currency::text as price_currency,
+  w.body,
+  w.acidity,
+  w.tannin,
+  round(b.price_min / r.rate_per_eur, 2) as price_eur,
+  w.created_at as added_at,
+  coalesce(l.like_count, 0) as like_count,
+  null::text as shuffle_key
+from public.wines_with_core_details_base b
+join public.wines w on w.id = b.id
+left join public.exchange_rates r on r.currency_code = w.price_currency
+left join public.wine_like_counts l on l.wine_id = b.id;
+
+-- The catalogue shuffled for a seed, for guests
+create or replace function public.shuffled_wines(p_seed text)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select s.*
+  from public.wines_with_core_details w
+  cross join lateral jsonb_populate_record(
+    w, jsonb_build_object('shuffle_key', md5(p_seed || w.id::text))
+  ) s;
+$$;
+
+grant execute on function public.shuffled_wines(text) to anon, authenticated;
+
+-- Unrated wines, shuffled when a seed is given
+drop function if exists public.unrated_wines_for_user(uuid);
+
+create or replace function public.unrated_wines_for_user(p_user_id uuid, p_seed text default null)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select s.*
+  from public.wines_with_core_details w
+  cross join lateral jsonb_populate_record(
+    w, jsonb_build_object('shuffle_key', case when p_seed is not null then md5(p_seed || w.id::text) end)
+  ) s
+  where not exists (
+    select 1
+    from public.user_wine_matches m
+    where m.wine_id = w.id
+      and m.user_id = p_user_id
+  );
+$$;
+
+grant execute on function public.unrated_wines_for_user(uuid, text) to anon, authenticated;
@@ -0,0 +1,36 @@
+-- Region hierarchy
+--
+-- Regions form a tree below their country: a region can have sub-regions
+-- (Vaud → Lavaux), which point to it with parent_id. All regions of a tree
+-- share the country_code of its root.
+--
+-- names_by_language holds the localized names of the region itself, like
+-- wines.region_names_by_language does for the region of a wine. It is
+-- backfilled from the wines, parent regions without wines of their own keep
+-- null and are shown with their default name.
+--
+-- The app loads the whole table and builds the tree itself
+-- (fetchRegionTree in src/services/filterOptionsService.ts). Selecting a region
+-- selects its sub-regions too: the app sends the names of the whole subtree,
+-- so filtering on region_name_default stays a plain in-list.
+
+alter table public.regions
+  add column if not exists parent_id uuid references public.regions (id) on delete set null,
+  add column if not exists names_by_language jsonb;
+
+alter table public.regions
+  drop constraint if exists regions_parent_not_self,
+  add constraint regions_parent_not_self check (parent_id is null or parent_id <> id);
+
+create index if not exists regions_parent_id_idx
+  on public.regions (parent_id);
+
+update public.regions r
+set names_by_language = (
+  select w.region_names_by_language::jsonb
+  from public.wines_with_core_details w
+  where w.region_id = r.id
+    and w.region_names_by_language is not null
+  limit 1
+)
+where r.names_by_language is null;
@@ -0,0 +1,52 @@
+-- Facet counts for the filter menu
+--
+-- Number of wines per value of each filter category, among the given wines.
+-- The app selects the IDs of the wines matching the current filter (with the
+-- filter of the counted category left out, see src/services/facetCountService.ts)
+-- and passes them in, so the filter logic stays in one place:
+--
+--   supabase.rpc('wine_facet_counts', { p_wine_ids: ids, p_facets: ['color', 'grape'] })
+--
+-- Facet names are the keys of DatabaseWineFilter. Values are the view columns
+-- the filters compare against - canonical names for wine type and colour, the
+-- volume in litres for the unit. Wines without a value are not counted.
+
+create or replace function public.wine_facet_counts(p_wine_ids uuid[], p_facets text[])
+returns table (facet text, value text, wine_count integer)
+language sql
+stable
+security invoker
+as $$
+  with w as (
+    select *
+    from public.wines_with_core_details
+    where id = any(p_wine_ids)
+  ),
+  wine_values as (
+    select 'countries' as facet, country_code::text as value, id from w
+    union all select 'regions', region_name_default, id from w
+    union all select 'producer', producer_id::text, id from w
+    union all select 'wineType', wine_type, id from w
+    union all select 'color', wine_color, id from w
+    union all select 'sweetness', sweetness_level, id from w
+    union all select 'body', body, id from w
+    union all select 'acidity', acidity, id from w
+    union all select 'tannin', tannin, id from w
+    union all select 'alcohol', alcohol_level, id from w
+    union all select 'productionType', vinification_method, id from w
+    union all select 'price', price_range, id from w
+    union all select 'unit', unit_volume::text, id from w
+    union all
+    select 'grape', g.name, wg.wine_id
+    from public.wine_grapes wg
+    join public.grapes g on g.id = wg.grape_id
+    where wg.wine_id = any(p_wine_ids)
+  )
+  select v.facet, v.value, count(distinct v.id)::integer
+  from wine_values v
+  where v.facet = any(p_facets)
+    and v.value is not null
+  group by v.facet, v.value;
+$$;
+
+grant execute on function public.wine_facet_counts(uuid[], text[]) to anon, authenticated;
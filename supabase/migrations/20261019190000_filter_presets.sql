@@ -0,0 +1,39 @@
+-- Saved filter presets
+--
+-- Named filter combinations of a user, shown as chips at the top of the filter
+-- sheet. The filter is the app's WineFilter as JSON together with the version
+-- of its shape (WINE_FILTER_VERSION in src/utils/filterSchema.ts), so presets
+-- saved by an older app can still be read after the shape changes.
+--
+-- Presets are ordered by position. At most one preset per user is the default,
+-- which the app applies on launch. Guests keep their presets on the device
+-- (src/services/filterPresetService.ts).
+
+create table if not exists public.filter_presets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(btrim(name)) between 1 and 60),
+  filter jsonb not null,
+  filter_version integer not null check (filter_version > 0),
+  position integer not null default 0,
+  is_default boolean not null default false,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists filter_presets_user_position_idx
+  on public.filter_presets (user_id, position);
+
+-- The previous default has to be cleared before another preset becomes the default
+create unique index if not exists filter_presets_one_default_idx
+  on public.filter_presets (user_id)
+  where is_default;
+
+alter table public.filter_presets enable row level security;
+
+drop policy if exists "Users manage their own filter presets" on public.filter_presets;
+create policy "Users manage their own filter presets"
+  on public.filter_presets for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
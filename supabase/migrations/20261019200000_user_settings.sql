@@ -0,0 +1,21 @@
+-- App settings of a user
+--
+-- One row per user with the settings that follow the user to every device.
+-- language is the app language (de, en, fr or it); null until the user has
+-- picked one, the app then uses the language of the device. Guests keep their
+-- choice on the device (src/services/languageService.ts).
+
+create table if not exists public.user_settings (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  language text check (language in ('de', 'en', 'fr', 'it')),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.user_settings enable row level security;
+
+drop policy if exists "Users manage their own settings" on public.user_settings;
+create policy "Users manage their own settings"
+  on public.user_settings for all
+  to authenticated
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,172 @@
+-- Delta sync of wine details that live outside the wines table
+--
+-- The on-device catalogue only downloads wines whose wines.updated_at changed
+-- (20261019110000_wine_catalogue_sync.sql). Several columns of
+-- wines_with_core_details come from other tables, whose changes bump
+-- updated_at of the wines they belong to:
+--
+--   price_eur                     exchange_rates, when the rate changes
+--   grape names                   grapes
+--   region name and translations  regions
+--   country translations          country_translations
+--   type, colour, sweetness,      their *_translations tables
+--   alcohol, vinification and
+--   price range translations
+--
+-- like_count is left out on purpose: a like must not make every device
+-- download the wine again. The on-device copy keeps the count of its last
+-- download, the popular deck is served by the server whenever it is reachable
+-- (src/services/offlineWineRepository.ts).
+
+-- A changed euro rate changes price_eur of every wine priced in that currency
+create or replace function public.touch_wines_on_exchange_rate_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.wines
+  set updated_at = now()
+  where price_currency in (old.currency_code, new.currency_code);
+  return null;
+end;
+$$;
+
+drop trigger if exists exchange_rates_touch_wines on public.exchange_rates;
+create trigger exchange_rates_touch_wines
+  after update on public.exchange_rates
+  for each row
+  when (old.rate_per_eur is distinct from new.rate_per_eur or old.currency_code <> new.currency_code)
+  execute function public.touch_wines_on_exchange_rate_change();
+
+drop trigger if exists exchange_rates_touch_wines_on_insert_delete on public.exchange_rates;
+create trigger exchange_rates_touch_wines_on_insert_delete
+  after insert or delete on public.exchange_rates
+  for each row execute function public.touch_wines_on_exchange_rate_change();
+
+-- A renamed grape changes the blend of every wine containing it
+create or replace function public.touch_wines_on_grape_rename()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.wines w
+  set updated_at = now()
+  from public.wine_grapes wg
+  where wg.wine_id = w.id
+    and wg.grape_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists grapes_touch_wines on public.grapes;
+create trigger grapes_touch_wines
+  after update on public.grapes
+  for each row
+  when (old.name is distinct from new.name)
+  execute function public.touch_wines_on_grape_rename();
+
+-- Names of a region, and its country, are part of the wines in it
+create or replace function public.touch_wines_on_region_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.wines
+  set updated_at = now()
+  where region_id = new.id;
+  return null;
+end;
+$$;
+
+drop trigger if exists regions_touch_wines on public.regions;
+create trigger regions_touch_wines
+  after update on public.regions
+  for each row
+  when (
+    old.name is distinct from new.name
+    or old.country_code is distinct from new.country_code
+    or old.names_by_language is distinct from new.names_by_language
+  )
+  execute function public.touch_wines_on_region_change();
+
+-- Translated country names of the wines in a country
+create or replace function public.touch_wines_on_country_translation_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.wines w
+  set updated_at = now()
+  from public.regions r
+  where r.id = w.region_id
+    and r.country_code in (old.country_code, new.country_code);
+  return null;
+end;
+$$;
+
+drop trigger if exists country_translations_touch_wines on public.country_translations;
+create trigger country_translations_touch_wines
+  after insert or update or delete on public.country_translations
+  for each row execute function public.touch_wines_on_country_translation_change();
+
+-- Translations of a reference value (e.g. a colour) are part of every wine
+-- with that value. The trigger argument names the key column, which the
+-- translation table and wines share (e.g. wine_color_id).
+create or replace function public.touch_wines_on_reference_translation_change()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_key text := tg_argv[0];
+  v_ids uuid[];
+begin
+  v_ids := array[
+    (case when tg_op <> 'INSERT' then to_jsonb(old) ->> v_key end)::uuid,
+    (case when tg_op <> 'DELETE' then to_jsonb(new) ->> v_key end)::uuid
+  ];
+
+  execute format('update public.wines set updated_at = now() where %I = any($1)', v_key)
+  using v_ids;
+  return null;
+end;
+$$;
+
+drop trigger if exists wine_types_translations_touch_wines on public.wine_types_translations;
+create trigger wine_types_translations_touch_wines
+  after insert or update or delete on public.wine_types_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('wine_type_id');
+
+drop trigger if exists wine_colors_translations_touch_wines on public.wine_colors_translations;
+create trigger wine_colors_translations_touch_wines
+  after insert or update or delete on public.wine_colors_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('wine_color_id');
+
+drop trigger if exists sweetness_levels_translations_touch_wines on public.sweetness_levels_translations;
+create trigger sweetness_levels_translations_touch_wines
+  after insert or update or delete on public.sweetness_levels_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('sweetness_level_id');
+
+drop trigger if exists alcohol_levels_translations_touch_wines on public.alcohol_levels_translations;
+create trigger alcohol_levels_translations_touch_wines
+  after insert or update or delete on public.alcohol_levels_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('alcohol_level_id');
+
+drop trigger if exists vinification_methods_translations_touch_wines on public.vinification_methods_translations;
+create trigger vinification_methods_translations_touch_wines
+  after insert or update or delete on public.vinification_methods_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('vinification_method_id');
+
+drop trigger if exists price_ranges_translations_touch_wines on public.price_ranges_translations;
+create trigger price_ranges_translations_touch_wines
+  after insert or update or delete on public.price_ranges_translations
+  for each row execute function public.touch_wines_on_reference_translation_change('price_range_id');
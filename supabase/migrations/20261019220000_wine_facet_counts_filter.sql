@@ -0,0 +1,209 @@
+-- Facet counts from the filter instead of a list of wine IDs
+--
+-- wine_facet_counts (20261019180000_wine_facet_counts.sql) took the IDs of the
+-- matching wines, which the app had to download page by page for every count -
+-- traffic growing with the catalogue, once per selected filter category. The
+-- filter is now passed as jsonb and applied here:
+--
+--   supabase.rpc('wine_facet_counts', { p_filter: filter, p_facets: ['color', 'grape'], p_user_id: userId })
+--
+-- p_filter is a DatabaseWineFilter with the values the view compares against
+-- (toServerWineFilter in src/services/wineFilterQuery.ts): canonical names
+-- for wine type and colour, volumes in litres for the unit. wine_matches_filter
+-- follows applyWineFilters - keep the two in sync. With p_user_id only the
+-- wines the user has not rated are counted, like their deck
+-- (unrated_wines_for_user).
+
+drop function if exists public.wine_facet_counts(uuid[], text[]);
+
+-- A list filter is set when it has at least one value
+create or replace function public.wine_filter_is_set(p_values jsonb)
+returns boolean
+language sql
+immutable
+as $$
+  select coalesce(jsonb_typeof(p_values) = 'array' and jsonb_array_length(p_values) > 0, false);
+$$;
+
+-- Selected values - wines without a value never match a set filter
+create or replace function public.wine_filter_includes(p_values jsonb, p_value text)
+returns boolean
+language sql
+immutable
+as $$
+  select not public.wine_filter_is_set(p_values) or coalesce(p_values ? p_value, false);
+$$;
+
+-- Excluded values - wines without a value are kept
+create or replace function public.wine_filter_keeps(p_values jsonb, p_value text)
+returns boolean
+language sql
+immutable
+as $$
+  select not public.wine_filter_is_set(p_values) or p_value is null or not p_values ? p_value;
+$$;
+
+-- Unit volumes are numbers in the filter, 0.75 matches a unit_volume of 0.750
+create or replace function public.wine_filter_volumes(p_values jsonb)
+returns numeric[]
+language sql
+immutable
+as $$
+  select coalesce(array_agg(v::numeric), '{}')
+  from jsonb_array_elements_text(case when public.wine_filter_is_set(p_values) then p_values end) v;
+$$;
+
+create or replace function public.wine_matches_filter(w public.wines_with_core_details, p_filter jsonb)
+returns boolean
+language sql
+stable
+security invoker
+as $$
+  select coalesce(
+    -- Country and region filter - selected countries and regions add up
+    (
+      (not public.wine_filter_is_set(f->'countries') and not public.wine_filter_is_set(f->'regions'))
+      or (public.wine_filter_is_set(f->'countries') and coalesce(f->'countries' ? w.country_code::text, false))
+      or (public.wine_filter_is_set(f->'regions') and coalesce(f->'regions' ? w.region_name_default, false))
+    )
+    and public.wine_filter_includes(f->'producer', w.producer_id::text)
+    and public.wine_filter_includes(f->'wineType', w.wine_type)
+    and public.wine_filter_includes(f->'color', w.wine_color)
+    and public.wine_filter_includes(f->'sweetness', w.sweetness_level)
+    and public.wine_filter_includes(f->'body', w.body)
+    and public.wine_filter_includes(f->'acidity', w.acidity)
+    and public.wine_filter_includes(f->'tannin', w.tannin)
+    and public.wine_filter_includes(f->'alcohol', w.alcohol_level)
+    and public.wine_filter_includes(f->'productionType', w.vinification_method)
+    and public.wine_filter_includes(f->'price', w.price_range)
+    and (
+      not public.wine_filter_is_set(f->'unit')
+      or w.unit_volume = any(public.wine_filter_volumes(f->'unit'))
+    )
+    -- Grape filter - any or all of the grapes, the minimum share only applies
+    -- to the selected grapes
+    and (
+      (not public.wine_filter_is_set(f->'grape') and not coalesce((f->>'singleVarietal')::boolean, false))
+      or (
+        select case
+          when f->>'grapeMatch' = 'all' and jsonb_array_length(f->'grape') >= 2
+            then count(distinct s.grape_name) = jsonb_array_length(f->'grape')
+          else count(*) > 0
+        end
+        from public.wine_grape_shares s
+        where s.wine_id = w.id
+          and (not public.wine_filter_is_set(f->'grape') or f->'grape' ? s.grape_name)
+          and (
+            not public.wine_filter_is_set(f->'grape')
+            or f->'grapeMinShare' is null
+            or s.percentage >= (f->>'grapeMinShare')::numeric
+          )
+          and (not coalesce((f->>'singleVarietal')::boolean, false) or s.grape_count = 1)
+      )
+    )
+    -- Vintage filter - wines without a year are non-vintage
+    and (
+      case
+        when w.year is null then coalesce((f->>'includeNonVintage')::boolean, true)
+        when f->'vintageRange' is null then true
+        else w.year between (f->'vintageRange'->>0)::integer and (f->'vintageRange'->>1)::integer
+      end
+    )
+    -- Numeric price filter - the bounds are converted into the wine's currency
+    and (
+      f->'priceRange' is null
+      or exists (
+        select 1
+        from public.exchange_rates source
+        join public.exchange_rates target
+          on target.currency_code = coalesce(f->>'priceCurrency', 'CHF')
+        where source.currency_code = w.price_currency
+          and w.price_min <= ceil((f->'priceRange'->>1)::numeric / target.rate_per_eur * source.rate_per_eur * 100) / 100
+          and greatest(w.price_max, w.price_min)
+            >= floor((f->'priceRange'->>0)::numeric / target.rate_per_eur * source.rate_per_eur * 100) / 100
+      )
+    )
+    -- Exclusions - wines without a value stay
+    and public.wine_filter_keeps(f->'exclude'->'countries', w.country_code::text)
+    and public.wine_filter_keeps(f->'exclude'->'regions', w.region_name_default)
+    and public.wine_filter_keeps(f->'exclude'->'producer', w.producer_id::text)
+    and public.wine_filter_keeps(f->'exclude'->'wineType', w.wine_type)
+    and public.wine_filter_keeps(f->'exclude'->'color', w.wine_color)
+    and public.wine_filter_keeps(f->'exclude'->'sweetness', w.sweetness_level)
+    and public.wine_filter_keeps(f->'exclude'->'body', w.body)
+    and public.wine_filter_keeps(f->'exclude'->'acidity', w.acidity)
+    and public.wine_filter_keeps(f->'exclude'->'tannin', w.tannin)
+    and public.wine_filter_keeps(f->'exclude'->'alcohol', w.alcohol_level)
+    and public.wine_filter_keeps(f->'exclude'->'productionType', w.vinification_method)
+    and public.wine_filter_keeps(f->'exclude'->'price', w.price_range)
+    and (
+      w.unit_volume is null
+      or not w.unit_volume = any(public.wine_filter_volumes(f->'exclude'->'unit'))
+    )
+    -- Excluded grapes hide every blend containing them
+    and (
+      not public.wine_filter_is_set(f->'exclude'->'grape')
+      or not exists (
+        select 1
+        from public.wine_grape_shares s
+        where s.wine_id = w.id
+          and f->'exclude'->'grape' ? s.grape_name
+      )
+    ),
+    false
+  )
+  from (select coalesce(p_filter, '{}'::jsonb) as f) filter_value;
+$$;
+
+create or replace function public.wine_facet_counts(
+  p_filter jsonb,
+  p_facets text[],
+  p_user_id uuid default null
+)
+returns table (facet text, value text, wine_count integer)
+language sql
+stable
+security invoker
+as $$
+  with w as (
+    select *
+    from public.wines_with_core_details v
+    where public.wine_matches_filter(v, p_filter)
+      and (
+        p_user_id is null
+        or not exists (
+          select 1
+          from public.user_wine_matches m
+          where m.wine_id = v.id
+            and m.user_id = p_user_id
+        )
+      )
+  ),
+  wine_values as (
+    select 'countries' as facet, country_code::text as value, id from w
+    union all select 'regions', region_name_default, id from w
+    union all select 'producer', producer_id::text, id from w
+    union all select 'wineType', wine_type, id from w
+    union all select 'color', wine_color, id from w
+    union all select 'sweetness', sweetness_level, id from w
+    union all select 'body', body, id from w
+    union all select 'acidity', acidity, id from w
+    union all select 'tannin', tannin, id from w
+    union all select 'alcohol', alcohol_level, id from w
+    union all select 'productionType', vinification_method, id from w
+    union all select 'price', price_range, id from w
+    union all select 'unit', unit_volume::text, id from w
+    union all
+    select 'grape', g.name, wg.wine_id
+    from public.wine_grapes wg
+    join public.grapes g on g.id = wg.grape_id
+    where wg.wine_id in (select id from w)
+  )
+  select v.facet, v.value, count(distinct v.id)::integer
+  from wine_values v
+  where v.facet = any(p_facets)
+    and v.value is not null
+  group by v.facet, v.value;
+$$;
+
+grant execute on function public.wine_facet_counts(jsonb, text[], uuid) to anon, authenticated;
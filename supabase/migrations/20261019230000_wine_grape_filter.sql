@@ -0,0 +1,63 @@
+-- Grape filters in the database
+--
+-- The grape filters (selected grapes with any/all and the minimum share,
+-- single-varietal, excluded grapes) need the wine_grapes join table, which a
+-- filter on the wine view can't express. The app used to resolve them to the
+-- IDs of the matching wines and send those along - a list growing with the
+-- catalogue, in the URL of every deck request.
+--
+-- The functions returning wine rows now take the grape part of the filter as
+-- jsonb and apply it with wine_matches_filter
+-- (20261019220000_wine_facet_counts_filter.sql); the other filters are still
+-- applied to their result like to the view:
+--
+--   supabase.rpc('filtered_wines', { p_filter: { grape: ['Nebbiolo'] }, p_seed: null }).select(...).in(...)
+--
+-- filtered_wines replaces shuffled_wines: with a seed it fills shuffle_key.
+
+drop function if exists public.shuffled_wines(text);
+
+create or replace function public.filtered_wines(p_filter jsonb default null, p_seed text default null)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select s.*
+  from public.wines_with_core_details w
+  cross join lateral jsonb_populate_record(
+    w, jsonb_build_object('shuffle_key', case when p_seed is not null then md5(p_seed || w.id::text) end)
+  ) s
+  where p_filter is null
+    or public.wine_matches_filter(w, p_filter);
+$$;
+
+grant execute on function public.filtered_wines(jsonb, text) to anon, authenticated;
+
+drop function if exists public.unrated_wines_for_user(uuid, text);
+
+create or replace function public.unrated_wines_for_user(
+  p_user_id uuid,
+  p_seed text default null,
+  p_filter jsonb default null
+)
+returns setof public.wines_with_core_details
+language sql
+stable
+security invoker
+as $$
+  select s.*
+  from public.wines_with_core_details w
+  cross join lateral jsonb_populate_record(
+    w, jsonb_build_object('shuffle_key', case when p_seed is not null then md5(p_seed || w.id::text) end)
+  ) s
+  where not exists (
+      select 1
+      from public.user_wine_matches m
+      where m.wine_id = w.id
+        and m.user_id = p_user_id
+    )
+    and (p_filter is null or public.wine_matches_filter(w, p_filter));
+$$;
+
+grant execute on function public.unrated_wines_for_user(uuid, text, jsonb) to anon, authenticated;